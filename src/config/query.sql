@@ -542,4 +542,830 @@ CREATE OR REPLACE VIEW public.active_tickets_view
   ORDER BY e.commence_time;
 
 ALTER TABLE public.upcoming_events_view
-    OWNER TO postgres;
\ No newline at end of file
+    OWNER TO postgres;
+-----------------------------------------------------------------------------------------------
+-- Marcadores sincronizados desde el endpoint /scores de The Odds API
+
+CREATE TABLE IF NOT EXISTS public.event_results
+(
+    id serial NOT NULL,
+    event_id integer NOT NULL,
+    home_score integer,
+    away_score integer,
+    completed boolean NOT NULL DEFAULT false,
+    last_update timestamp without time zone,
+    created_at timestamp without time zone DEFAULT CURRENT_TIMESTAMP,
+    updated_at timestamp without time zone DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT event_results_pkey PRIMARY KEY (id),
+    CONSTRAINT event_results_event_id_key UNIQUE (event_id),
+    CONSTRAINT event_results_event_id_fkey FOREIGN KEY (event_id)
+        REFERENCES public.events (id) MATCH SIMPLE
+        ON UPDATE NO ACTION
+        ON DELETE CASCADE
+);
+
+-----------------------------------------------------------------------------------------------
+-- Cash-out de tickets pendientes
+
+ALTER TABLE IF EXISTS public.tickets
+    ADD COLUMN IF NOT EXISTS cashout_amount numeric(15,2);
+
+CREATE TABLE IF NOT EXISTS public.cashout_quotes
+(
+    id serial NOT NULL,
+    ticket_id integer NOT NULL,
+    user_id integer NOT NULL,
+    amount numeric(15,2) NOT NULL,
+    prices jsonb NOT NULL,
+    expires_at timestamp without time zone NOT NULL,
+    status character varying(20) COLLATE pg_catalog."default" DEFAULT 'open'::character varying,
+    created_at timestamp without time zone DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT cashout_quotes_pkey PRIMARY KEY (id),
+    CONSTRAINT cashout_quotes_ticket_id_fkey FOREIGN KEY (ticket_id)
+        REFERENCES public.tickets (id) MATCH SIMPLE
+        ON UPDATE NO ACTION
+        ON DELETE CASCADE,
+    CONSTRAINT cashout_quotes_user_id_fkey FOREIGN KEY (user_id)
+        REFERENCES public.users (id) MATCH SIMPLE
+        ON UPDATE NO ACTION
+        ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_cashout_quotes_ticket_id
+    ON public.cashout_quotes USING btree
+    (ticket_id ASC NULLS LAST)
+    TABLESPACE pg_default;
+
+-- Historial de cash-outs (totales y parciales)
+
+CREATE TABLE IF NOT EXISTS public.ticket_cashouts
+(
+    id serial NOT NULL,
+    ticket_id integer NOT NULL,
+    user_id integer NOT NULL,
+    quote_id integer,
+    fraction numeric(5,4) NOT NULL,
+    stake_amount numeric(15,2) NOT NULL,
+    amount numeric(15,2) NOT NULL,
+    partial boolean NOT NULL DEFAULT false,
+    created_at timestamp without time zone DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT ticket_cashouts_pkey PRIMARY KEY (id),
+    CONSTRAINT ticket_cashouts_ticket_id_fkey FOREIGN KEY (ticket_id)
+        REFERENCES public.tickets (id) MATCH SIMPLE
+        ON UPDATE NO ACTION
+        ON DELETE CASCADE,
+    CONSTRAINT ticket_cashouts_user_id_fkey FOREIGN KEY (user_id)
+        REFERENCES public.users (id) MATCH SIMPLE
+        ON UPDATE NO ACTION
+        ON DELETE CASCADE,
+    CONSTRAINT ticket_cashouts_quote_id_fkey FOREIGN KEY (quote_id)
+        REFERENCES public.cashout_quotes (id) MATCH SIMPLE
+        ON UPDATE NO ACTION
+        ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_ticket_cashouts_ticket_id
+    ON public.ticket_cashouts USING btree
+    (ticket_id ASC NULLS LAST)
+    TABLESPACE pg_default;
+
+-----------------------------------------------------------------------------------------------
+-- Apuestas de sistema: un ticket padre con una línea (ticket hijo) por combinación
+
+ALTER TABLE IF EXISTS public.tickets
+    ADD COLUMN IF NOT EXISTS ticket_type character varying(20) COLLATE pg_catalog."default" DEFAULT 'accumulator'::character varying,
+    ADD COLUMN IF NOT EXISTS system_type character varying(20) COLLATE pg_catalog."default",
+    ADD COLUMN IF NOT EXISTS parent_ticket_id integer,
+    ADD COLUMN IF NOT EXISTS payout_amount numeric(15,2);
+
+-- Las restricciones se añaden solo si no existen para poder volver a ejecutar el script
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'tickets_parent_ticket_id_fkey') THEN
+        ALTER TABLE public.tickets
+            ADD CONSTRAINT tickets_parent_ticket_id_fkey FOREIGN KEY (parent_ticket_id)
+                REFERENCES public.tickets (id) MATCH SIMPLE
+                ON UPDATE NO ACTION
+                ON DELETE CASCADE;
+    END IF;
+END
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_tickets_parent_ticket_id
+    ON public.tickets USING btree
+    (parent_ticket_id ASC NULLS LAST)
+    TABLESPACE pg_default;
+
+-----------------------------------------------------------------------------------------------
+-- Formato de cuotas preferido por el usuario (american, decimal, fractional, hongkong)
+
+ALTER TABLE IF EXISTS public.users
+    ADD COLUMN IF NOT EXISTS odds_format character varying(20) COLLATE pg_catalog."default" DEFAULT 'american'::character varying;
+
+-----------------------------------------------------------------------------------------------
+-- Límites de apuesta por nivel (global, deporte, competición, evento, mercado o usuario).
+-- scope_id referencia al deporte, competición, evento o usuario según el nivel; en el nivel
+-- mercado es el evento. market_type restringe un límite de cualquier nivel a ese mercado.
+
+CREATE TABLE IF NOT EXISTS public.bet_limits
+(
+    id serial NOT NULL,
+    scope character varying(20) COLLATE pg_catalog."default" NOT NULL,
+    scope_id integer,
+    market_type character varying(20) COLLATE pg_catalog."default",
+    min_stake numeric(15,2),
+    max_stake numeric(15,2),
+    max_payout numeric(15,2),
+    max_event_stake numeric(15,2),
+    active boolean DEFAULT true,
+    created_at timestamp without time zone DEFAULT CURRENT_TIMESTAMP,
+    updated_at timestamp without time zone DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT bet_limits_pkey PRIMARY KEY (id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bet_limits_scope
+    ON public.bet_limits USING btree
+    (scope COLLATE pg_catalog."default" ASC NULLS LAST, scope_id ASC NULLS LAST)
+    TABLESPACE pg_default;
+
+-----------------------------------------------------------------------------------------------
+-- Combinaciones aprobadas de selecciones del mismo evento. Sin regla, solo se admite
+-- una selección por evento en un boleto. sport_id nulo aplica a todos los deportes.
+
+CREATE TABLE IF NOT EXISTS public.correlation_rules
+(
+    id serial NOT NULL,
+    sport_id integer,
+    market_a character varying(20) COLLATE pg_catalog."default" NOT NULL,
+    outcome_a character varying(20) COLLATE pg_catalog."default",
+    market_b character varying(20) COLLATE pg_catalog."default" NOT NULL,
+    outcome_b character varying(20) COLLATE pg_catalog."default",
+    description text COLLATE pg_catalog."default",
+    active boolean DEFAULT true,
+    created_at timestamp without time zone DEFAULT CURRENT_TIMESTAMP,
+    updated_at timestamp without time zone DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT correlation_rules_pkey PRIMARY KEY (id),
+    CONSTRAINT correlation_rules_sport_id_fkey FOREIGN KEY (sport_id)
+        REFERENCES public.sports (id) MATCH SIMPLE
+        ON UPDATE NO ACTION
+        ON DELETE CASCADE
+);
+
+-----------------------------------------------------------------------------------------------
+-- Bet builder: factor de correlación por combinación aprobada y ajuste aplicado en el ticket
+
+ALTER TABLE IF EXISTS public.correlation_rules
+    ADD COLUMN IF NOT EXISTS price_factor numeric(6,3) DEFAULT 1.000;
+
+ALTER TABLE IF EXISTS public.tickets
+    ADD COLUMN IF NOT EXISTS price_adjustment numeric(6,3);
+
+-----------------------------------------------------------------------------------------------
+-- Apuestas en vivo: retraso de aceptación por deporte, suspensión de mercados y
+-- tickets en espera de aceptación ('pending_acceptance') o rechazados ('rejected')
+
+ALTER TABLE IF EXISTS public.sports
+    ADD COLUMN IF NOT EXISTS inplay_delay_seconds integer DEFAULT 5;
+
+ALTER TABLE IF EXISTS public.odds
+    ADD COLUMN IF NOT EXISTS suspended boolean DEFAULT false,
+    ADD COLUMN IF NOT EXISTS status_updated_at timestamp without time zone;
+
+ALTER TABLE IF EXISTS public.tickets
+    ADD COLUMN IF NOT EXISTS accept_after timestamp without time zone,
+    ADD COLUMN IF NOT EXISTS rejection_reason text;
+
+CREATE INDEX IF NOT EXISTS idx_tickets_pending_acceptance
+    ON public.tickets USING btree
+    (accept_after ASC NULLS LAST)
+    TABLESPACE pg_default
+    WHERE status::text = 'pending_acceptance'::text;
+
+-----------------------------------------------------------------------------------------------
+-- Boletos persistentes por usuario. Las selecciones guardan el mercado porque la
+-- sincronización de cuotas reemplaza las filas de odds.
+
+CREATE TABLE IF NOT EXISTS public.bet_slips
+(
+    id serial NOT NULL,
+    user_id integer NOT NULL,
+    stake_amount numeric(10,2),
+    system_type character varying(20) COLLATE pg_catalog."default",
+    bet_builder boolean DEFAULT false,
+    created_at timestamp without time zone DEFAULT CURRENT_TIMESTAMP,
+    updated_at timestamp without time zone DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT bet_slips_pkey PRIMARY KEY (id),
+    CONSTRAINT bet_slips_user_id_key UNIQUE (user_id),
+    CONSTRAINT bet_slips_user_id_fkey FOREIGN KEY (user_id)
+        REFERENCES public.users (id) MATCH SIMPLE
+        ON UPDATE NO ACTION
+        ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS public.bet_slip_selections
+(
+    id serial NOT NULL,
+    slip_id integer NOT NULL,
+    odds_id integer NOT NULL,
+    event_id integer NOT NULL,
+    market_type character varying(20) COLLATE pg_catalog."default" NOT NULL,
+    outcome_name character varying(20) COLLATE pg_catalog."default" NOT NULL,
+    handicap numeric(5,1),
+    total numeric(5,1),
+    seen_odds numeric(10,2) NOT NULL,
+    created_at timestamp without time zone DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT bet_slip_selections_pkey PRIMARY KEY (id),
+    CONSTRAINT bet_slip_selections_slip_id_odds_id_key UNIQUE (slip_id, odds_id),
+    CONSTRAINT bet_slip_selections_slip_id_fkey FOREIGN KEY (slip_id)
+        REFERENCES public.bet_slips (id) MATCH SIMPLE
+        ON UPDATE NO ACTION
+        ON DELETE CASCADE,
+    CONSTRAINT bet_slip_selections_event_id_fkey FOREIGN KEY (event_id)
+        REFERENCES public.events (id) MATCH SIMPLE
+        ON UPDATE NO ACTION
+        ON DELETE CASCADE
+);
+
+-----------------------------------------------------------------------------------------------
+-- Códigos de reserva compartibles. Caducan al comenzar el primer evento del boleto.
+
+CREATE TABLE IF NOT EXISTS public.booking_codes
+(
+    id serial NOT NULL,
+    code character varying(12) COLLATE pg_catalog."default" NOT NULL,
+    user_id integer,
+    expires_at timestamp without time zone NOT NULL,
+    loads_count integer DEFAULT 0,
+    created_at timestamp without time zone DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT booking_codes_pkey PRIMARY KEY (id),
+    CONSTRAINT booking_codes_code_key UNIQUE (code),
+    CONSTRAINT booking_codes_user_id_fkey FOREIGN KEY (user_id)
+        REFERENCES public.users (id) MATCH SIMPLE
+        ON UPDATE NO ACTION
+        ON DELETE SET NULL
+);
+
+CREATE TABLE IF NOT EXISTS public.booking_code_selections
+(
+    id serial NOT NULL,
+    booking_code_id integer NOT NULL,
+    odds_id integer NOT NULL,
+    event_id integer NOT NULL,
+    market_type character varying(20) COLLATE pg_catalog."default" NOT NULL,
+    outcome_name character varying(20) COLLATE pg_catalog."default" NOT NULL,
+    handicap numeric(5,1),
+    total numeric(5,1),
+    CONSTRAINT booking_code_selections_pkey PRIMARY KEY (id),
+    CONSTRAINT booking_code_selections_booking_code_id_fkey FOREIGN KEY (booking_code_id)
+        REFERENCES public.booking_codes (id) MATCH SIMPLE
+        ON UPDATE NO ACTION
+        ON DELETE CASCADE,
+    CONSTRAINT booking_code_selections_event_id_fkey FOREIGN KEY (event_id)
+        REFERENCES public.events (id) MATCH SIMPLE
+        ON UPDATE NO ACTION
+        ON DELETE CASCADE
+);
+
+ALTER TABLE IF EXISTS public.bet_slips
+    ADD COLUMN IF NOT EXISTS booking_code_id integer;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'bet_slips_booking_code_id_fkey') THEN
+        ALTER TABLE public.bet_slips
+            ADD CONSTRAINT bet_slips_booking_code_id_fkey FOREIGN KEY (booking_code_id)
+                REFERENCES public.booking_codes (id) MATCH SIMPLE
+                ON UPDATE NO ACTION
+                ON DELETE SET NULL;
+    END IF;
+END
+$$;
+
+ALTER TABLE IF EXISTS public.tickets
+    ADD COLUMN IF NOT EXISTS booking_code_id integer;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'tickets_booking_code_id_fkey') THEN
+        ALTER TABLE public.tickets
+            ADD CONSTRAINT tickets_booking_code_id_fkey FOREIGN KEY (booking_code_id)
+                REFERENCES public.booking_codes (id) MATCH SIMPLE
+                ON UPDATE NO ACTION
+                ON DELETE SET NULL;
+    END IF;
+END
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_tickets_booking_code_id
+    ON public.tickets USING btree
+    (booking_code_id ASC NULLS LAST)
+    TABLESPACE pg_default;
+
+-----------------------------------------------------------------------------------------------
+-- Apuestas gratuitas: tokens de importe fijo que se usan en lugar de saldo.
+-- Un ticket ganador con token paga solo las ganancias.
+
+CREATE TABLE IF NOT EXISTS public.free_bets
+(
+    id serial NOT NULL,
+    user_id integer NOT NULL,
+    amount numeric(10,2) NOT NULL,
+    min_odds numeric(10,2),
+    sport_ids integer[],
+    competition_ids integer[],
+    expires_at timestamp without time zone NOT NULL,
+    status character varying(20) COLLATE pg_catalog."default" DEFAULT 'available'::character varying,
+    source character varying(20) COLLATE pg_catalog."default" DEFAULT 'admin'::character varying,
+    description text COLLATE pg_catalog."default",
+    ticket_id integer,
+    used_at timestamp without time zone,
+    created_at timestamp without time zone DEFAULT CURRENT_TIMESTAMP,
+    updated_at timestamp without time zone DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT free_bets_pkey PRIMARY KEY (id),
+    CONSTRAINT free_bets_user_id_fkey FOREIGN KEY (user_id)
+        REFERENCES public.users (id) MATCH SIMPLE
+        ON UPDATE NO ACTION
+        ON DELETE CASCADE,
+    CONSTRAINT free_bets_ticket_id_fkey FOREIGN KEY (ticket_id)
+        REFERENCES public.tickets (id) MATCH SIMPLE
+        ON UPDATE NO ACTION
+        ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_free_bets_user_id
+    ON public.free_bets USING btree
+    (user_id ASC NULLS LAST)
+    TABLESPACE pg_default;
+
+ALTER TABLE IF EXISTS public.tickets
+    ADD COLUMN IF NOT EXISTS free_bet_id integer;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'tickets_free_bet_id_fkey') THEN
+        ALTER TABLE public.tickets
+            ADD CONSTRAINT tickets_free_bet_id_fkey FOREIGN KEY (free_bet_id)
+                REFERENCES public.free_bets (id) MATCH SIMPLE
+                ON UPDATE NO ACTION
+                ON DELETE SET NULL;
+    END IF;
+END
+$$;
+
+-----------------------------------------------------------------------------------------------
+-- Cuotas mejoradas: sobre una fila de odds o un resultado de mercado, con ventana de vigencia,
+-- importe máximo por usuario y presupuesto global (coste pagado de más frente a la cuota original)
+
+CREATE TABLE IF NOT EXISTS public.odds_boosts
+(
+    id serial NOT NULL,
+    odds_id integer,
+    event_id integer NOT NULL,
+    market_type character varying(20) COLLATE pg_catalog."default" NOT NULL,
+    outcome_name character varying(20) COLLATE pg_catalog."default" NOT NULL,
+    handicap numeric(5,1),
+    total numeric(5,1),
+    boosted_odds numeric(10,2) NOT NULL,
+    starts_at timestamp without time zone NOT NULL,
+    ends_at timestamp without time zone NOT NULL,
+    max_stake_per_user numeric(10,2),
+    budget numeric(12,2),
+    budget_used numeric(12,2) DEFAULT 0,
+    description text COLLATE pg_catalog."default",
+    active boolean DEFAULT true,
+    created_by integer,
+    created_at timestamp without time zone DEFAULT CURRENT_TIMESTAMP,
+    updated_at timestamp without time zone DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT odds_boosts_pkey PRIMARY KEY (id),
+    CONSTRAINT odds_boosts_event_id_fkey FOREIGN KEY (event_id)
+        REFERENCES public.events (id) MATCH SIMPLE
+        ON UPDATE NO ACTION
+        ON DELETE CASCADE,
+    CONSTRAINT odds_boosts_created_by_fkey FOREIGN KEY (created_by)
+        REFERENCES public.users (id) MATCH SIMPLE
+        ON UPDATE NO ACTION
+        ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_odds_boosts_event_id
+    ON public.odds_boosts USING btree
+    (event_id ASC NULLS LAST)
+    TABLESPACE pg_default;
+
+CREATE TABLE IF NOT EXISTS public.odds_boost_usages
+(
+    id serial NOT NULL,
+    boost_id integer NOT NULL,
+    user_id integer NOT NULL,
+    ticket_id integer NOT NULL,
+    stake_amount numeric(10,2) NOT NULL,
+    cost numeric(12,2) NOT NULL,
+    created_at timestamp without time zone DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT odds_boost_usages_pkey PRIMARY KEY (id),
+    CONSTRAINT odds_boost_usages_boost_id_fkey FOREIGN KEY (boost_id)
+        REFERENCES public.odds_boosts (id) MATCH SIMPLE
+        ON UPDATE NO ACTION
+        ON DELETE CASCADE,
+    CONSTRAINT odds_boost_usages_user_id_fkey FOREIGN KEY (user_id)
+        REFERENCES public.users (id) MATCH SIMPLE
+        ON UPDATE NO ACTION
+        ON DELETE CASCADE,
+    CONSTRAINT odds_boost_usages_ticket_id_fkey FOREIGN KEY (ticket_id)
+        REFERENCES public.tickets (id) MATCH SIMPLE
+        ON UPDATE NO ACTION
+        ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_odds_boost_usages_boost_user
+    ON public.odds_boost_usages USING btree
+    (boost_id ASC NULLS LAST, user_id ASC NULLS LAST)
+    TABLESPACE pg_default;
+
+ALTER TABLE IF EXISTS public.ticket_items
+    ADD COLUMN IF NOT EXISTS boost_id integer;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'ticket_items_boost_id_fkey') THEN
+        ALTER TABLE public.ticket_items
+            ADD CONSTRAINT ticket_items_boost_id_fkey FOREIGN KEY (boost_id)
+                REFERENCES public.odds_boosts (id) MATCH SIMPLE
+                ON UPDATE NO ACTION
+                ON DELETE SET NULL;
+    END IF;
+END
+$$;
+
+-----------------------------------------------------------------------------------------------
+-- Bonos por depósito: campañas configurables, bonos acreditados con su rollover y los tickets
+-- que han contado para él. El importe del bono vive en users.bonus_balance hasta completarlo.
+
+ALTER TABLE IF EXISTS public.users
+    ADD COLUMN IF NOT EXISTS bonus_balance numeric(10,2) DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS public.bonus_campaigns
+(
+    id serial NOT NULL,
+    name character varying(100) COLLATE pg_catalog."default" NOT NULL,
+    match_percentage numeric(5,2) NOT NULL,
+    max_bonus numeric(10,2) NOT NULL,
+    min_deposit numeric(10,2) NOT NULL DEFAULT 0,
+    rollover_multiplier numeric(5,2) NOT NULL,
+    min_odds numeric(10,2),
+    validity_days integer NOT NULL,
+    starts_at timestamp without time zone,
+    ends_at timestamp without time zone,
+    active boolean DEFAULT true,
+    description text COLLATE pg_catalog."default",
+    created_at timestamp without time zone DEFAULT CURRENT_TIMESTAMP,
+    updated_at timestamp without time zone DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT bonus_campaigns_pkey PRIMARY KEY (id)
+);
+
+ALTER TABLE IF EXISTS public.deposits
+    ADD COLUMN IF NOT EXISTS bonus_campaign_id integer;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'deposits_bonus_campaign_id_fkey') THEN
+        ALTER TABLE public.deposits
+            ADD CONSTRAINT deposits_bonus_campaign_id_fkey FOREIGN KEY (bonus_campaign_id)
+                REFERENCES public.bonus_campaigns (id) MATCH SIMPLE
+                ON UPDATE NO ACTION
+                ON DELETE SET NULL;
+    END IF;
+END
+$$;
+
+CREATE TABLE IF NOT EXISTS public.user_bonuses
+(
+    id serial NOT NULL,
+    user_id integer NOT NULL,
+    campaign_id integer NOT NULL,
+    deposit_id integer NOT NULL,
+    deposit_amount numeric(10,2) NOT NULL,
+    bonus_amount numeric(10,2) NOT NULL,
+    wagering_required numeric(12,2) NOT NULL,
+    wagering_progress numeric(12,2) NOT NULL DEFAULT 0,
+    min_odds numeric(10,2),
+    status character varying(20) COLLATE pg_catalog."default" DEFAULT 'active'::character varying,
+    expires_at timestamp without time zone NOT NULL,
+    completed_at timestamp without time zone,
+    created_at timestamp without time zone DEFAULT CURRENT_TIMESTAMP,
+    updated_at timestamp without time zone DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT user_bonuses_pkey PRIMARY KEY (id),
+    CONSTRAINT user_bonuses_deposit_id_key UNIQUE (deposit_id),
+    CONSTRAINT user_bonuses_user_id_fkey FOREIGN KEY (user_id)
+        REFERENCES public.users (id) MATCH SIMPLE
+        ON UPDATE NO ACTION
+        ON DELETE CASCADE,
+    CONSTRAINT user_bonuses_campaign_id_fkey FOREIGN KEY (campaign_id)
+        REFERENCES public.bonus_campaigns (id) MATCH SIMPLE
+        ON UPDATE NO ACTION
+        ON DELETE RESTRICT,
+    CONSTRAINT user_bonuses_deposit_id_fkey FOREIGN KEY (deposit_id)
+        REFERENCES public.deposits (id) MATCH SIMPLE
+        ON UPDATE NO ACTION
+        ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_bonuses_user_status
+    ON public.user_bonuses USING btree
+    (user_id ASC NULLS LAST, status COLLATE pg_catalog."default" ASC NULLS LAST)
+    TABLESPACE pg_default;
+
+CREATE TABLE IF NOT EXISTS public.bonus_wagers
+(
+    id serial NOT NULL,
+    user_bonus_id integer NOT NULL,
+    ticket_id integer NOT NULL,
+    amount numeric(10,2) NOT NULL,
+    created_at timestamp without time zone DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT bonus_wagers_pkey PRIMARY KEY (id),
+    CONSTRAINT bonus_wagers_bonus_ticket_key UNIQUE (user_bonus_id, ticket_id),
+    CONSTRAINT bonus_wagers_user_bonus_id_fkey FOREIGN KEY (user_bonus_id)
+        REFERENCES public.user_bonuses (id) MATCH SIMPLE
+        ON UPDATE NO ACTION
+        ON DELETE CASCADE,
+    CONSTRAINT bonus_wagers_ticket_id_fkey FOREIGN KEY (ticket_id)
+        REFERENCES public.tickets (id) MATCH SIMPLE
+        ON UPDATE NO ACTION
+        ON DELETE CASCADE
+);
+
+-----------------------------------------------------------------------------------------------
+-- Programa de referidos: código propio por usuario, quién lo invitó e IP de registro
+-- (para la vista de fraude), e invitaciones con el primer depósito y apuesta que califican
+
+ALTER TABLE IF EXISTS public.users
+    ADD COLUMN IF NOT EXISTS referral_code character varying(20) COLLATE pg_catalog."default",
+    ADD COLUMN IF NOT EXISTS referred_by integer,
+    ADD COLUMN IF NOT EXISTS registration_ip character varying(45) COLLATE pg_catalog."default";
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'users_referral_code_key') THEN
+        ALTER TABLE public.users
+            ADD CONSTRAINT users_referral_code_key UNIQUE (referral_code);
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'users_referred_by_fkey') THEN
+        ALTER TABLE public.users
+            ADD CONSTRAINT users_referred_by_fkey FOREIGN KEY (referred_by)
+                REFERENCES public.users (id) MATCH SIMPLE
+                ON UPDATE NO ACTION
+                ON DELETE SET NULL;
+    END IF;
+END
+$$;
+
+CREATE TABLE IF NOT EXISTS public.referrals
+(
+    id serial NOT NULL,
+    referrer_id integer NOT NULL,
+    referred_id integer NOT NULL,
+    status character varying(20) COLLATE pg_catalog."default" DEFAULT 'pending'::character varying,
+    first_deposit_id integer,
+    first_deposit_at timestamp without time zone,
+    first_ticket_id integer,
+    first_bet_at timestamp without time zone,
+    reward_amount numeric(10,2),
+    rewarded_at timestamp without time zone,
+    created_at timestamp without time zone DEFAULT CURRENT_TIMESTAMP,
+    updated_at timestamp without time zone DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT referrals_pkey PRIMARY KEY (id),
+    CONSTRAINT referrals_referred_id_key UNIQUE (referred_id),
+    CONSTRAINT referrals_referrer_id_fkey FOREIGN KEY (referrer_id)
+        REFERENCES public.users (id) MATCH SIMPLE
+        ON UPDATE NO ACTION
+        ON DELETE CASCADE,
+    CONSTRAINT referrals_referred_id_fkey FOREIGN KEY (referred_id)
+        REFERENCES public.users (id) MATCH SIMPLE
+        ON UPDATE NO ACTION
+        ON DELETE CASCADE,
+    CONSTRAINT referrals_first_deposit_id_fkey FOREIGN KEY (first_deposit_id)
+        REFERENCES public.deposits (id) MATCH SIMPLE
+        ON UPDATE NO ACTION
+        ON DELETE SET NULL,
+    CONSTRAINT referrals_first_ticket_id_fkey FOREIGN KEY (first_ticket_id)
+        REFERENCES public.tickets (id) MATCH SIMPLE
+        ON UPDATE NO ACTION
+        ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_referrals_referrer_id
+    ON public.referrals USING btree
+    (referrer_id ASC NULLS LAST)
+    TABLESPACE pg_default;
+
+-----------------------------------------------------------------------------------------------
+-- Puntos de fidelidad y niveles VIP: puntos acumulados y nivel del usuario, niveles con sus
+-- beneficios y los puntos obtenidos por cada ticket liquidado (uno por ticket)
+
+CREATE TABLE IF NOT EXISTS public.vip_tiers
+(
+    id serial NOT NULL,
+    name character varying(50) COLLATE pg_catalog."default" NOT NULL,
+    min_points integer NOT NULL,
+    cashback_percentage numeric(5,2) NOT NULL DEFAULT 0,
+    limit_multiplier numeric(5,2) NOT NULL DEFAULT 1,
+    withdrawal_priority integer NOT NULL DEFAULT 0,
+    description text COLLATE pg_catalog."default",
+    created_at timestamp without time zone DEFAULT CURRENT_TIMESTAMP,
+    updated_at timestamp without time zone DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT vip_tiers_pkey PRIMARY KEY (id),
+    CONSTRAINT vip_tiers_name_key UNIQUE (name),
+    CONSTRAINT vip_tiers_min_points_key UNIQUE (min_points)
+);
+
+ALTER TABLE IF EXISTS public.users
+    ADD COLUMN IF NOT EXISTS loyalty_points integer NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS vip_tier_id integer;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'users_vip_tier_id_fkey') THEN
+        ALTER TABLE public.users
+            ADD CONSTRAINT users_vip_tier_id_fkey FOREIGN KEY (vip_tier_id)
+                REFERENCES public.vip_tiers (id) MATCH SIMPLE
+                ON UPDATE NO ACTION
+                ON DELETE SET NULL;
+    END IF;
+END
+$$;
+
+CREATE TABLE IF NOT EXISTS public.loyalty_transactions
+(
+    id serial NOT NULL,
+    user_id integer NOT NULL,
+    ticket_id integer NOT NULL,
+    points integer NOT NULL,
+    cashback_amount numeric(10,2) NOT NULL DEFAULT 0,
+    vip_tier_id integer,
+    created_at timestamp without time zone DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT loyalty_transactions_pkey PRIMARY KEY (id),
+    CONSTRAINT loyalty_transactions_ticket_id_key UNIQUE (ticket_id),
+    CONSTRAINT loyalty_transactions_user_id_fkey FOREIGN KEY (user_id)
+        REFERENCES public.users (id) MATCH SIMPLE
+        ON UPDATE NO ACTION
+        ON DELETE CASCADE,
+    CONSTRAINT loyalty_transactions_ticket_id_fkey FOREIGN KEY (ticket_id)
+        REFERENCES public.tickets (id) MATCH SIMPLE
+        ON UPDATE NO ACTION
+        ON DELETE CASCADE,
+    CONSTRAINT loyalty_transactions_vip_tier_id_fkey FOREIGN KEY (vip_tier_id)
+        REFERENCES public.vip_tiers (id) MATCH SIMPLE
+        ON UPDATE NO ACTION
+        ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_loyalty_transactions_user_id
+    ON public.loyalty_transactions USING btree
+    (user_id ASC NULLS LAST)
+    TABLESPACE pg_default;
+
+-----------------------------------------------------------------------------------------------
+-- Promociones de combinada: boost de ganancias y seguro si falla una selección, según número
+-- de selecciones y cuota mínima por selección. Se guardan en el ticket al colocarlo.
+
+CREATE TABLE IF NOT EXISTS public.parlay_promotions
+(
+    id serial NOT NULL,
+    name character varying(100) COLLATE pg_catalog."default" NOT NULL,
+    promo_type character varying(20) COLLATE pg_catalog."default" NOT NULL,
+    min_legs integer NOT NULL,
+    min_leg_odds numeric(10,2),
+    boost_percentage numeric(5,2),
+    max_refund numeric(10,2),
+    free_bet_validity_days integer,
+    starts_at timestamp without time zone,
+    ends_at timestamp without time zone,
+    active boolean DEFAULT true,
+    description text COLLATE pg_catalog."default",
+    created_at timestamp without time zone DEFAULT CURRENT_TIMESTAMP,
+    updated_at timestamp without time zone DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT parlay_promotions_pkey PRIMARY KEY (id)
+);
+
+ALTER TABLE IF EXISTS public.tickets
+    ADD COLUMN IF NOT EXISTS parlay_boost_promotion_id integer,
+    ADD COLUMN IF NOT EXISTS parlay_boost_percentage numeric(5,2),
+    ADD COLUMN IF NOT EXISTS insurance_promotion_id integer,
+    ADD COLUMN IF NOT EXISTS insurance_free_bet_id integer;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'tickets_parlay_boost_promotion_id_fkey') THEN
+        ALTER TABLE public.tickets
+            ADD CONSTRAINT tickets_parlay_boost_promotion_id_fkey FOREIGN KEY (parlay_boost_promotion_id)
+                REFERENCES public.parlay_promotions (id) MATCH SIMPLE
+                ON UPDATE NO ACTION
+                ON DELETE SET NULL;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'tickets_insurance_promotion_id_fkey') THEN
+        ALTER TABLE public.tickets
+            ADD CONSTRAINT tickets_insurance_promotion_id_fkey FOREIGN KEY (insurance_promotion_id)
+                REFERENCES public.parlay_promotions (id) MATCH SIMPLE
+                ON UPDATE NO ACTION
+                ON DELETE SET NULL;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'tickets_insurance_free_bet_id_fkey') THEN
+        ALTER TABLE public.tickets
+            ADD CONSTRAINT tickets_insurance_free_bet_id_fkey FOREIGN KEY (insurance_free_bet_id)
+                REFERENCES public.free_bets (id) MATCH SIMPLE
+                ON UPDATE NO ACTION
+                ON DELETE SET NULL;
+    END IF;
+END
+$$;
+
+-----------------------------------------------------------------------------------------------
+-- Teasers: tabla de pagos por deporte, puntos movidos y número de selecciones.
+-- Las selecciones del ticket guardan la línea ya movida, que es la que se califica.
+
+CREATE TABLE IF NOT EXISTS public.teaser_payouts
+(
+    id serial NOT NULL,
+    sport_id integer NOT NULL,
+    points numeric(4,1) NOT NULL,
+    legs integer NOT NULL,
+    odds numeric(10,2) NOT NULL,
+    active boolean DEFAULT true,
+    created_at timestamp without time zone DEFAULT CURRENT_TIMESTAMP,
+    updated_at timestamp without time zone DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT teaser_payouts_pkey PRIMARY KEY (id),
+    CONSTRAINT teaser_payouts_sport_points_legs_key UNIQUE (sport_id, points, legs),
+    CONSTRAINT teaser_payouts_sport_id_fkey FOREIGN KEY (sport_id)
+        REFERENCES public.sports (id) MATCH SIMPLE
+        ON UPDATE NO ACTION
+        ON DELETE CASCADE
+);
+
+ALTER TABLE IF EXISTS public.tickets
+    ADD COLUMN IF NOT EXISTS teaser_points numeric(4,1);
+
+-----------------------------------------------------------------------------------------------
+-- If-bets y reverse: condición para pasar a la siguiente selección y cadena ordenada.
+-- leg_stake queda vacío hasta que la cadena alcanza la selección al liquidar la anterior.
+
+ALTER TABLE IF EXISTS public.tickets
+    ADD COLUMN IF NOT EXISTS if_condition character varying(20);
+
+ALTER TABLE IF EXISTS public.ticket_items
+    ADD COLUMN IF NOT EXISTS chain_position integer,
+    ADD COLUMN IF NOT EXISTS leg_stake numeric(15,2);
+
+-----------------------------------------------------------------------------------------------
+-- Outrights (ganador de una competición): eventos sin equipos con un mercado de muchos
+-- participantes. La ventana de apuestas llega hasta betting_closes_at (o commence_time) y se
+-- liquidan declarando el participante ganador; con empate se aplica la reducción por dead heat.
+
+ALTER TABLE IF EXISTS public.events
+    ALTER COLUMN home_team DROP NOT NULL,
+    ALTER COLUMN away_team DROP NOT NULL,
+    ADD COLUMN IF NOT EXISTS event_type character varying(20) COLLATE pg_catalog."default" DEFAULT 'match'::character varying,
+    ADD COLUMN IF NOT EXISTS name character varying(150) COLLATE pg_catalog."default",
+    ADD COLUMN IF NOT EXISTS betting_closes_at timestamp without time zone;
+
+-- Los nombres de los participantes no caben en los códigos cortos home/away/over/under
+ALTER TABLE IF EXISTS public.odds
+    ALTER COLUMN outcome_name TYPE character varying(100);
+
+ALTER TABLE IF EXISTS public.ticket_items
+    ALTER COLUMN selection TYPE character varying(100),
+    ADD COLUMN IF NOT EXISTS dead_heat_factor numeric(6,4);
+
+ALTER TABLE IF EXISTS public.bet_slip_selections
+    ALTER COLUMN outcome_name TYPE character varying(100);
+
+ALTER TABLE IF EXISTS public.booking_code_selections
+    ALTER COLUMN outcome_name TYPE character varying(100);
+
+ALTER TABLE IF EXISTS public.odds_boosts
+    ALTER COLUMN outcome_name TYPE character varying(100);
+
+CREATE TABLE IF NOT EXISTS public.outright_results
+(
+    id serial NOT NULL,
+    event_id integer NOT NULL,
+    outcome_name character varying(100) COLLATE pg_catalog."default" NOT NULL,
+    dead_heat_factor numeric(6,4) NOT NULL DEFAULT 1,
+    created_at timestamp without time zone DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT outright_results_pkey PRIMARY KEY (id),
+    CONSTRAINT outright_results_event_id_outcome_name_key UNIQUE (event_id, outcome_name),
+    CONSTRAINT outright_results_event_id_fkey FOREIGN KEY (event_id)
+        REFERENCES public.events (id) MATCH SIMPLE
+        ON UPDATE NO ACTION
+        ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_events_event_type
+    ON public.events USING btree
+    (event_type ASC NULLS LAST)
+    TABLESPACE pg_default;
+
+-----------------------------------------------------------------------------------------------
+-- Los límites de mercado sin evento pasan a ser globales del mismo mercado
+
+UPDATE public.bet_limits
+    SET scope = 'global', updated_at = CURRENT_TIMESTAMP
+    WHERE scope = 'market' AND scope_id IS NULL;
@@ -12,7 +12,9 @@ export class AuthController {
         throw new AppError('Datos de registro inválidos', 400);
       }
 
-      const { user, token } = await authService.register(req.body);
+      // El código de referido es de quien invita; no forma parte de los datos del usuario
+      const { referral_code, ...userData } = req.body;
+      const { user, token } = await authService.register(userData, referral_code, req.ip);
       
       res.status(201).json({
         success: true,
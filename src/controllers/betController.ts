@@ -1,6 +1,126 @@
 import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
 import pool from '../config/database';
 import { AppError } from '../middlewares/errorHandler';
+import { DEFAULT_ODDS_FORMAT, OddsFormat, formatSelectionOdds, fromDecimal, roundOdds, toDecimal } from '../utils/oddsFormat';
+import cashoutService from '../services/cashoutService';
+import betService, { PlacedBet } from '../services/betService';
+import correlationService from '../services/correlationService';
+import inPlayService from '../services/inPlayService';
+import betSlipModel from '../models/betSlip';
+import bookingCodeModel from '../models/bookingCode';
+import freeBetService from '../services/freeBetService';
+import bonusService from '../services/bonusService';
+import referralService from '../services/referralService';
+import loyaltyService from '../services/loyaltyService';
+import { PARENT_TICKET_TYPES } from '../models/ticket';
+
+// Respuesta de una apuesta colocada con las cuotas en el formato del usuario
+const placementResponse = (placed: PlacedBet, oddsFormat: OddsFormat) => {
+  const selections = placed.selections.map(s => ({
+    eventId: s.event_id,
+    homeTeam: s.home_team,
+    awayTeam: s.away_team,
+    betType: s.bet_type,
+    selection: s.selection,
+    odds: fromDecimal(s.odds_value, oddsFormat),
+    decimalOdds: roundOdds(s.odds_value),
+    handicap: s.handicap,
+    total: s.total
+  }));
+  
+  if (placed.system) {
+    return {
+      message: 'Apuesta de sistema realizada exitosamente',
+      data: { ...placed.system, selections }
+    };
+  }
+  
+  if (placed.roundRobin) {
+    const { systemType, linesCount, ...roundRobin } = placed.roundRobin;
+    
+    return {
+      message: 'Round robin realizado exitosamente',
+      data: {
+        ...roundRobin,
+        sizes: systemType.split(',').map(Number),
+        betsCount: linesCount,
+        selections
+      }
+    };
+  }
+  
+  const pendingAcceptance = placed.status === 'pending_acceptance';
+  
+  if (placed.teaser) {
+    return {
+      message: 'Teaser realizado exitosamente',
+      data: {
+        ticketId: placed.ticketId,
+        status: placed.status,
+        stakeAmount: placed.stakeAmount,
+        freeBetId: placed.freeBetId,
+        teaserPoints: placed.teaser.points,
+        legs: placed.teaser.legs,
+        totalOdds: placed.totalOdds,
+        odds: fromDecimal(placed.totalOdds, oddsFormat),
+        potentialPayout: placed.potentialPayout,
+        selections
+      }
+    };
+  }
+  
+  if (placed.ifBet) {
+    return {
+      message: placed.ifBet.reverse ? 'Reverse realizado exitosamente' : 'If-bet realizado exitosamente',
+      data: {
+        ticketId: placed.ticketId,
+        status: placed.status,
+        stakeAmount: placed.stakeAmount,
+        condition: placed.ifBet.condition,
+        reverse: placed.ifBet.reverse,
+        potentialPayout: placed.potentialPayout,
+        chains: placed.ifBet.chains,
+        selections
+      }
+    };
+  }
+  
+  if (placed.builder) {
+    return {
+      message: pendingAcceptance ? 'Bet builder en espera de aceptación' : 'Bet builder realizado exitosamente',
+      data: {
+        ticketId: placed.ticketId,
+        status: placed.status,
+        acceptAfter: placed.acceptAfter,
+        stakeAmount: placed.stakeAmount,
+        freeBetId: placed.freeBetId,
+        baseOdds: placed.builder.baseOdds,
+        priceAdjustment: placed.builder.priceAdjustment,
+        totalOdds: placed.totalOdds,
+        odds: fromDecimal(placed.totalOdds, oddsFormat),
+        potentialPayout: placed.potentialPayout,
+        selections
+      }
+    };
+  }
+  
+  return {
+    message: pendingAcceptance ? 'Apuesta en vivo en espera de aceptación' : 'Apuesta realizada exitosamente',
+    data: {
+      ticketId: placed.ticketId,
+      status: placed.status,
+      acceptAfter: placed.acceptAfter,
+      stakeAmount: placed.stakeAmount,
+      freeBetId: placed.freeBetId,
+      totalOdds: placed.totalOdds,
+      potentialPayout: placed.potentialPayout,
+      parlayBoostPercentage: placed.parlayBoostPercentage ?? null,
+      parlayInsurance: placed.parlayInsurance ?? false,
+      selections
+    }
+  };
+};
 
 export class BetController {
   async placeBet(req: Request, res: Response, next: NextFunction) {
@@ -8,140 +128,267 @@ export class BetController {
     const client = await pool.connect();
     
     try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Datos de apuesta inválidos', 400);
+      }
+      
       await client.query('BEGIN');
       
-      const userId = req.user!.id;
-      const { stakeAmount, selections } = req.body;
+      const {
+        stakeAmount, selections, systemType, roundRobinSizes, oddsChangePolicy, betBuilder, teaserPoints,
+        ifBetCondition, reverse, bookingCode, freeBetId
+      } = req.body;
+      const oddsFormat = req.oddsFormat || DEFAULT_ODDS_FORMAT;
       
       if (!Array.isArray(selections) || selections.length === 0) {
         throw new AppError('Se requiere al menos una selección para la apuesta', 400);
       }
       
-      // Verificar saldo del usuario
-      const userResult = await client.query(
-        'SELECT balance FROM users WHERE id = $1',
-        [userId]
-      );
+      const booking = bookingCode ? await bookingCodeModel.findByCode(bookingCode) : null;
       
-      if (userResult.rows.length === 0) {
-        throw new AppError('Usuario no encontrado', 404);
+      if (bookingCode && !booking) {
+        throw new AppError('Código de reserva no encontrado', 404);
       }
       
-      const userBalance = parseFloat(userResult.rows[0].balance);
+      // La cuota vista por el usuario llega en su formato
+      const placed = await betService.placeBet(client, req.user!.id, {
+        stakeAmount,
+        selections: selections.map((selection: any) => ({
+          odds_id: selection.oddsId,
+          seen_odds: selection.odds !== undefined ? toDecimal(selection.odds, oddsFormat) : null
+        })),
+        systemType,
+        roundRobinSizes,
+        betBuilder,
+        teaserPoints,
+        ifBetCondition,
+        reverse,
+        oddsChangePolicy,
+        bookingCodeId: booking?.id,
+        freeBetId
+      });
+      
+      await client.query('COMMIT');
+      
+      res.status(201).json({
+        success: true,
+        ...placementResponse(placed, oddsFormat)
+      });
+    } catch (error) {
+      await client.query('ROLLBACK');
+      next(error);
+    } finally {
+      client.release();
+    }
+  }
+
+  // Colocar el boleto guardado del usuario y vaciarlo en la misma transacción.
+  // Las cuotas aceptadas en el boleto se comparan con las vigentes según la política indicada.
+  async placeSlip(req: Request, res: Response, next: NextFunction) {
+    const client = await pool.connect();
+    
+    try {
+      await client.query('BEGIN');
+      
+      const userId = req.user!.id;
+      const oddsFormat = req.oddsFormat || DEFAULT_ODDS_FORMAT;
+      // El boleto queda bloqueado hasta vaciarlo: dos envíos simultáneos no lo colocan dos veces
+      const slip = await betSlipModel.lockByUserId(client, userId);
+      const selections = slip ? await betSlipModel.getSelections(slip.id!, client) : [];
       
-      if (userBalance < stakeAmount) {
-        throw new AppError('Saldo insuficiente', 400);
+      if (!slip || selections.length === 0) {
+        throw new AppError('El boleto está vacío', 400);
       }
       
-      // Calcular cuota total
-      let totalOdds = 1;
-      const selectionDetails = [];
+      if (slip.stake_amount === null || slip.stake_amount === undefined) {
+        throw new AppError('Indica el monto de la apuesta en el boleto', 400);
+      }
       
-      for (const selection of selections) {
-        const { oddsId } = selection;
-        
-        // Obtener detalles de la cuota
-        const oddsResult = await client.query(
-          `SELECT o.*, e.home_team, e.away_team, e.commence_time 
-           FROM odds o
-           JOIN events e ON o.event_id = e.id
-           WHERE o.id = $1`,
-          [oddsId]
-        );
-        
-        if (oddsResult.rows.length === 0) {
-          throw new AppError(`Cuota con id ${oddsId} no encontrada`, 404);
-        }
-        
-        const odds = oddsResult.rows[0];
-        
-        // Verificar que el evento no ha comenzado
-        const eventTime = new Date(odds.commence_time);
-        const now = new Date();
-        
-        if (eventTime <= now) {
-          throw new AppError(`El evento para la selección ${oddsId} ya ha comenzado`, 400);
-        }
-        
-        // Convertir cuota americana a decimal
-        const price = parseFloat(odds.price);
-        let decimalOdds;
-        
-        if (price > 0) {
-          decimalOdds = 1 + (price / 100);
-        } else {
-          decimalOdds = 1 + (100 / Math.abs(price));
+      const stakeAmount = parseFloat(slip.stake_amount);
+      
+      const placed = await betService.placeBet(client, userId, {
+        stakeAmount,
+        selections: selections.map(selection => ({
+          odds_id: selection.odds_id,
+          seen_odds: parseFloat(selection.seen_odds)
+        })),
+        systemType: slip.system_type,
+        betBuilder: slip.bet_builder,
+        oddsChangePolicy: req.body.oddsChangePolicy,
+        bookingCodeId: slip.booking_code_id
+      });
+      
+      await betSlipModel.clear(slip.id!, client);
+      
+      await client.query('COMMIT');
+      
+      res.status(201).json({
+        success: true,
+        ...placementResponse(placed, oddsFormat)
+      });
+    } catch (error) {
+      await client.query('ROLLBACK');
+      next(error);
+    } finally {
+      client.release();
+    }
+  }
+
+  // Validar un boleto antes de apostar: devuelve las selecciones incompatibles y el motivo
+  async validateSlip(req: Request, res: Response, next: NextFunction) {
+    const client = await pool.connect();
+    
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Selecciones inválidas', 400);
+      }
+      
+      const pricedSelections = await betService.priceSelections(
+        client,
+        req.body.selections.map((selection: any) => ({ odds_id: selection.oddsId })),
+        'any'
+      );
+      
+      const conflicts = await correlationService.findConflicts(client, pricedSelections);
+      
+      res.status(200).json({
+        success: true,
+        data: {
+          valid: conflicts.length === 0,
+          conflicts
         }
-        
-        totalOdds *= decimalOdds;
-        
-        selectionDetails.push({
-          ...odds,
-          decimalOdds
-        });
+      });
+    } catch (error) {
+      next(error);
+    } finally {
+      client.release();
+    }
+  }
+
+  // Cotizar un bet builder sin apostar: cuota independiente, ajuste de correlación y cuota final
+  async quoteBetBuilder(req: Request, res: Response, next: NextFunction) {
+    const client = await pool.connect();
+    
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Selecciones inválidas', 400);
       }
       
-      // Calcular potencial pago
-      const potentialPayout = stakeAmount * totalOdds;
+      const oddsFormat = req.oddsFormat || DEFAULT_ODDS_FORMAT;
       
-      // Crear ticket
-      const ticketResult = await client.query(
-        `INSERT INTO tickets (user_id, total_odds, stake_amount, potential_payout, status)
-         VALUES ($1, $2, $3, $4, 'pending')
-         RETURNING id`,
-        [userId, totalOdds, stakeAmount, potentialPayout]
+      const pricedSelections = await betService.priceSelections(
+        client,
+        req.body.selections.map((selection: any) => ({ odds_id: selection.oddsId })),
+        'any'
       );
       
-      const ticketId = ticketResult.rows[0].id;
+      const quote = await betService.quoteBetBuilder(client, pricedSelections);
       
-      // Registrar items del ticket
-      for (const selection of selectionDetails) {
-        await client.query(
-          `INSERT INTO ticket_items (
-             ticket_id, event_id, odds_id, odds_value, selection, handicap, total, status
-           )
-           VALUES ($1, $2, $3, $4, $5, $6, $7, 'pending')`,
-          [
-            ticketId,
-            selection.event_id,
-            selection.id,
-            selection.price,
-            //selection.market_type,
-            selection.outcome_name,
-            selection.handicap,
-            selection.total,
-          ]
-        );
+      res.status(200).json({
+        success: true,
+        data: {
+          ...quote,
+          odds: fromDecimal(quote.totalOdds, oddsFormat),
+          oddsFormat,
+          selections: pricedSelections.map(s => ({
+            oddsId: s.odds_id,
+            betType: s.bet_type,
+            selection: s.selection,
+            odds: fromDecimal(s.odds_value, oddsFormat),
+            decimalOdds: roundOdds(s.odds_value),
+            handicap: s.handicap,
+            total: s.total
+          }))
+        }
+      });
+    } catch (error) {
+      next(error);
+    } finally {
+      client.release();
+    }
+  }
+
+  // Número de combinadas, stake total y pago máximo de un round robin antes de confirmarlo
+  async quoteRoundRobin(req: Request, res: Response, next: NextFunction) {
+    const client = await pool.connect();
+    
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Datos de round robin inválidos', 400);
       }
       
-      // Actualizar saldo del usuario
-      await client.query(
-        'UPDATE users SET balance = balance - $1 WHERE id = $2',
-        [stakeAmount, userId]
+      const oddsFormat = req.oddsFormat || DEFAULT_ODDS_FORMAT;
+      
+      const pricedSelections = await betService.priceSelections(
+        client,
+        req.body.selections.map((selection: any) => ({ odds_id: selection.oddsId })),
+        'any'
       );
       
-      await client.query('COMMIT');
+      const quote = await betService.quoteRoundRobin(
+        client, req.body.stakeAmount, req.body.sizes, pricedSelections
+      );
       
-      res.status(201).json({
+      res.status(200).json({
         success: true,
-        message: 'Apuesta realizada exitosamente',
         data: {
-          ticketId,
-          stakeAmount,
-          totalOdds,
-          potentialPayout,
-          selections: selectionDetails.map(s => ({
-            eventId: s.event_id,
-            homeTeam: s.home_team,
-            awayTeam: s.away_team,
-            betType: s.market_type,
-            selection: s.outcome_name,
-            odds: s.price,
+          ...quote,
+          lines: quote.lines.map(line => ({
+            ...line,
+            odds: fromDecimal(line.totalOdds, oddsFormat)
+          })),
+          oddsFormat,
+          selections: pricedSelections.map(s => ({
+            oddsId: s.odds_id,
+            betType: s.bet_type,
+            selection: s.selection,
+            odds: fromDecimal(s.odds_value, oddsFormat),
+            decimalOdds: roundOdds(s.odds_value),
             handicap: s.handicap,
             total: s.total
           }))
         }
       });
+    } catch (error) {
+      next(error);
+    } finally {
+      client.release();
+    }
+  }
+
+  // Consultar (y resolver si ya venció el retraso) la aceptación de una apuesta en vivo
+  async getAcceptanceStatus(req: Request, res: Response, next: NextFunction) {
+    const client = await pool.connect();
+    
+    try {
+      await client.query('BEGIN');
+      
+      const ticketId = parseInt(req.params.id);
+      
+      if (isNaN(ticketId)) {
+        throw new AppError('ID de ticket inválido', 400);
+      }
+      
+      const ownerResult = await client.query(
+        'SELECT user_id FROM tickets WHERE id = $1',
+        [ticketId]
+      );
+      
+      if (ownerResult.rows.length === 0 || ownerResult.rows[0].user_id !== req.user!.id) {
+        throw new AppError('Ticket no encontrado', 404);
+      }
+      
+      const result = await inPlayService.processTicket(client, ticketId);
+      await client.query('COMMIT');
+      
+      res.status(200).json({
+        success: true,
+        data: result
+      });
     } catch (error) {
       await client.query('ROLLBACK');
       next(error);
@@ -149,6 +396,24 @@ export class BetController {
       client.release();
     }
   }
+  
+  // Resolver todas las apuestas en vivo cuyo retraso ya venció (tarea programada)
+  async processDueAcceptances(req: Request, res: Response, next: NextFunction) {
+    try {
+      const results = await inPlayService.processDueTickets();
+      
+      res.status(200).json({
+        success: true,
+        data: {
+          processed: results.length,
+          accepted: results.filter(result => result.status === 'pending').length,
+          rejected: results.filter(result => result.status === 'rejected').length
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
 
   async getUserBets(req: Request, res: Response, next: NextFunction) {
     try {
@@ -157,11 +422,13 @@ export class BetController {
       const limit = parseInt(req.query.limit as string || '10');
       const offset = (page - 1) * limit;
       const status = req.query.status as string;
+      const oddsFormat = req.oddsFormat || DEFAULT_ODDS_FORMAT;
       
       let query = `
-        SELECT t.id, t.stake_amount, t.total_odds, t.potential_payout, t.status, t.created_at
+        SELECT t.id, t.ticket_type, t.system_type, t.stake_amount, t.total_odds, t.potential_payout,
+               t.payout_amount, t.status, t.created_at
         FROM tickets t
-        WHERE t.user_id = $1
+        WHERE t.user_id = $1 AND t.parent_ticket_id IS NULL
       `;
       
       const params: any[] = [userId];
@@ -197,7 +464,7 @@ export class BetController {
         `;
         
         const itemsResult = await pool.query(itemsQuery, [ticket.id]);
-        ticket.selections = itemsResult.rows;
+        ticket.selections = itemsResult.rows.map(item => formatSelectionOdds(item, oddsFormat));
       }
       
       res.status(200).json({
@@ -227,7 +494,9 @@ export class BetController {
       }
       
       const query = `
-        SELECT t.id, t.stake_amount, t.total_odds, t.potential_payout, t.status, t.created_at
+        SELECT t.id, t.ticket_type, t.system_type, t.if_condition, t.parent_ticket_id, t.price_adjustment,
+               t.stake_amount, t.total_odds, t.potential_payout, t.payout_amount, t.cashout_amount, t.status, t.accept_after,
+               t.rejection_reason, t.created_at
         FROM tickets t
         WHERE t.id = $1 AND t.user_id = $2
       `;
@@ -240,18 +509,64 @@ export class BetController {
       
       const ticket = result.rows[0];
       
-      // Obtener selecciones del ticket
+      // Obtener selecciones del ticket (en un if-bet, en el orden de la cadena)
       const itemsQuery = `
         SELECT ti.id, ti.bet_type, ti.selection, ti.odds_value, ti.handicap, ti.total, ti.status,
-               e.home_team, e.away_team, e.commence_time, e.status as event_status
+               ti.chain_position, ti.leg_stake, ti.dead_heat_factor,
+               e.event_type, e.name as event_name, e.home_team, e.away_team, e.commence_time,
+               e.status as event_status
         FROM ticket_items ti
         JOIN events e ON ti.event_id = e.id
         WHERE ti.ticket_id = $1
-        ORDER BY e.commence_time
+        ORDER BY ti.chain_position NULLS LAST, e.commence_time
       `;
       
       const itemsResult = await pool.query(itemsQuery, [ticketId]);
-      ticket.selections = itemsResult.rows;
+      ticket.selections = itemsResult.rows.map(
+        item => formatSelectionOdds(item, req.oddsFormat || DEFAULT_ODDS_FORMAT)
+      );
+      // Selecciones anuladas o empatadas que ya no cuentan en la cuota total
+      ticket.voided_items = ticket.selections.filter(
+        (item: any) => item.status === 'push' || item.status === 'void'
+      );
+      ticket.voided_selections = ticket.voided_items.length;
+      ticket.cashouts = await cashoutService.getHistory(ticketId);
+      
+      // Las apuestas de sistema y round robin muestran cada línea con su estado y pago
+      if (ticket.ticket_type === 'system' || ticket.ticket_type === 'round_robin') {
+        const linesResult = await pool.query(
+          `SELECT t.id, t.ticket_type, t.stake_amount, t.total_odds, t.potential_payout,
+                  t.payout_amount, t.status,
+                  array_agg(ti.odds_id ORDER BY ti.id) as odds_ids
+           FROM tickets t
+           JOIN ticket_items ti ON ti.ticket_id = t.id
+           WHERE t.parent_ticket_id = $1
+           GROUP BY t.id
+           ORDER BY t.id`,
+          [ticketId]
+        );
+        ticket.lines = linesResult.rows;
+      }
+      
+      // Un reverse muestra cada orden del if-bet con su cadena de selecciones
+      if (ticket.ticket_type === 'reverse') {
+        const chainsResult = await pool.query(
+          `SELECT t.id, t.stake_amount, t.potential_payout, t.payout_amount, t.status
+           FROM tickets t
+           WHERE t.parent_ticket_id = $1
+           ORDER BY t.id`,
+          [ticketId]
+        );
+        
+        for (const chain of chainsResult.rows) {
+          const legsResult = await pool.query(itemsQuery, [chain.id]);
+          chain.selections = legsResult.rows.map(
+            item => formatSelectionOdds(item, req.oddsFormat || DEFAULT_ODDS_FORMAT)
+          );
+        }
+        
+        ticket.chains = chainsResult.rows;
+      }
       
       res.status(200).json({
         success: true,
@@ -262,6 +577,62 @@ export class BetController {
     }
   }
   
+  // Crear una cotización de cash-out para un ticket pendiente
+  async createCashoutQuote(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user!.id;
+      const ticketId = parseInt(req.params.id);
+      
+      if (isNaN(ticketId)) {
+        throw new AppError('ID de ticket inválido', 400);
+      }
+      
+      const quote = await cashoutService.createQuote(userId, ticketId);
+      
+      res.status(201).json({
+        success: true,
+        data: {
+          quoteId: quote.id,
+          ticketId: quote.ticket_id,
+          amount: parseFloat(quote.amount),
+          expiresAt: quote.expires_at
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+  
+  // Aceptar una cotización de cash-out
+  async acceptCashout(req: Request, res: Response, next: NextFunction) {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Cotización de cash-out inválida', 400);
+      }
+      
+      const userId = req.user!.id;
+      const ticketId = parseInt(req.params.id);
+      
+      if (isNaN(ticketId)) {
+        throw new AppError('ID de ticket inválido', 400);
+      }
+      
+      const { quoteId, fraction } = req.body;
+      const result = await cashoutService.acceptQuote(userId, ticketId, quoteId, fraction ?? 1);
+      
+      res.status(200).json({
+        success: true,
+        message: result.fraction < 1
+          ? 'Cash-out parcial realizado exitosamente'
+          : 'Cash-out realizado exitosamente',
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+  
   // Solo para administradores
   async getAllBets(req: Request, res: Response, next: NextFunction) {
     try {
@@ -352,6 +723,14 @@ export class BetController {
       
       const ticket = ticketResult.rows[0];
       
+      if (PARENT_TICKET_TYPES.includes(ticket.ticket_type) || ticket.parent_ticket_id) {
+        throw new AppError('Las apuestas de sistema se liquidan automáticamente por línea', 400);
+      }
+      
+      if (ticket.ticket_type === 'if_bet') {
+        throw new AppError('Los if-bets se liquidan automáticamente siguiendo su cadena', 400);
+      }
+      
       // Si el ticket ya está en el estado solicitado, no hacer nada
       if (ticket.status === status) {
         return res.status(200).json({
@@ -377,16 +756,20 @@ export class BetController {
       if (status === 'won' && ticket.status === 'pending') {
         await client.query(
           'UPDATE users SET balance = balance + $1 WHERE id = $2',
-          [ticket.potential_payout, ticket.user_id]
+          [freeBetService.winningPayout(ticket), ticket.user_id]
         );
       }
       
-      // Si el ticket se cancela, devolver el importe apostado
+      // Si el ticket se cancela, devolver el importe apostado (o el token de apuesta gratuita)
       if (status === 'canceled' && ticket.status === 'pending') {
-        await client.query(
-          'UPDATE users SET balance = balance + $1 WHERE id = $2',
-          [ticket.stake_amount, ticket.user_id]
-        );
+        await freeBetService.refundStake(client, ticket);
+      }
+      
+      // Los tickets ganados o perdidos cuentan para el rollover del bono activo, los referidos y los puntos
+      if (ticket.status === 'pending') {
+        await bonusService.recordWager(client, { ...ticket, status });
+        await referralService.recordBet(client, { ...ticket, status });
+        await loyaltyService.recordSettledTicket(client, { ...ticket, status });
       }
       
       await client.query('COMMIT');
@@ -0,0 +1,188 @@
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import { BetLimitModel } from '../models/betLimit';
+import { AppError } from '../middlewares/errorHandler';
+
+const betLimitModel = new BetLimitModel();
+
+// Los límites de nivel global no tienen ámbito; market_type restringe cualquier nivel a un mercado
+// y los de nivel market son los de un mercado de un evento (scope_id es el evento)
+const validateScope = (scope: string, scopeId?: number | null, marketType?: string | null): void => {
+  if (scope === 'global' && scopeId) {
+    throw new AppError('Un límite global no admite scope_id', 400);
+  }
+
+  if (scope === 'market' && !marketType) {
+    throw new AppError('Un límite de mercado requiere market_type', 400);
+  }
+
+  if (scope !== 'global' && !scopeId) {
+    throw new AppError(`Un límite de nivel ${scope} requiere scope_id`, 400);
+  }
+};
+
+// El importe mínimo no puede superar al máximo cuando ambos están definidos
+const validateStakeRange = (minStake?: number | string | null, maxStake?: number | string | null): void => {
+  if (minStake === null || minStake === undefined || maxStake === null || maxStake === undefined) {
+    return;
+  }
+
+  if (parseFloat(minStake as string) > parseFloat(maxStake as string)) {
+    throw new AppError('El importe mínimo no puede ser mayor que el máximo', 400);
+  }
+};
+
+class BetLimitController {
+  // Obtener todos los límites (solo admin)
+  async getLimits(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const scope = req.query.scope as string;
+      const scopeId = req.query.scope_id ? parseInt(req.query.scope_id as string) : undefined;
+
+      const limits = await betLimitModel.getAll({ scope, scope_id: scopeId });
+
+      res.status(200).json({
+        success: true,
+        data: limits
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Obtener un límite por ID (solo admin)
+  async getLimitById(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const limitId = parseInt(req.params.id);
+
+      if (isNaN(limitId)) {
+        throw new AppError('ID de límite inválido', 400);
+      }
+
+      const limit = await betLimitModel.findById(limitId);
+
+      if (!limit) {
+        throw new AppError('Límite no encontrado', 404);
+      }
+
+      res.status(200).json({
+        success: true,
+        data: limit
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Crear un límite (solo admin)
+  async createLimit(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Datos de límite inválidos', 400);
+      }
+
+      const { scope, scope_id, market_type, min_stake, max_stake, max_payout, max_event_stake, active } = req.body;
+
+      validateScope(scope, scope_id, market_type);
+      validateStakeRange(min_stake, max_stake);
+
+      const newLimit = await betLimitModel.create({
+        scope,
+        scope_id,
+        market_type,
+        min_stake,
+        max_stake,
+        max_payout,
+        max_event_stake,
+        active
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Límite creado exitosamente',
+        data: newLimit
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Actualizar un límite (solo admin)
+  async updateLimit(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Datos de límite inválidos', 400);
+      }
+
+      const limitId = parseInt(req.params.id);
+
+      if (isNaN(limitId)) {
+        throw new AppError('ID de límite inválido', 400);
+      }
+
+      const existingLimit = await betLimitModel.findById(limitId);
+      if (!existingLimit) {
+        throw new AppError('Límite no encontrado', 404);
+      }
+
+      const { scope, scope_id, market_type, min_stake, max_stake, max_payout, max_event_stake, active } = req.body;
+
+      validateScope(
+        scope ?? existingLimit.scope,
+        scope_id !== undefined ? scope_id : existingLimit.scope_id,
+        market_type !== undefined ? market_type : existingLimit.market_type
+      );
+      validateStakeRange(
+        min_stake !== undefined ? min_stake : existingLimit.min_stake,
+        max_stake !== undefined ? max_stake : existingLimit.max_stake
+      );
+
+      const updatedLimit = await betLimitModel.update(limitId, {
+        scope,
+        scope_id,
+        market_type,
+        min_stake,
+        max_stake,
+        max_payout,
+        max_event_stake,
+        active
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Límite actualizado exitosamente',
+        data: updatedLimit
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Eliminar un límite (solo admin)
+  async deleteLimit(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const limitId = parseInt(req.params.id);
+
+      if (isNaN(limitId)) {
+        throw new AppError('ID de límite inválido', 400);
+      }
+
+      const deleted = await betLimitModel.delete(limitId);
+
+      if (!deleted) {
+        throw new AppError('Límite no encontrado', 404);
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Límite eliminado exitosamente'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new BetLimitController();
@@ -0,0 +1,102 @@
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import betSlipService from '../services/betSlipService';
+import { AppError } from '../middlewares/errorHandler';
+
+class BetSlipController {
+  // Obtener el boleto del usuario con cuotas y estados actualizados
+  async getSlip(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const slip = await betSlipService.getSlip(req.user!.id);
+
+      res.status(200).json({
+        success: true,
+        data: slip
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async addSelection(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Selección inválida', 400);
+      }
+
+      const slip = await betSlipService.addSelection(req.user!.id, req.body.odds_id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Selección añadida al boleto',
+        data: slip
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async removeSelection(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const oddsId = parseInt(req.params.oddsId);
+
+      if (isNaN(oddsId)) {
+        throw new AppError('ID de cuota inválido', 400);
+      }
+
+      const slip = await betSlipService.removeSelection(req.user!.id, oddsId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Selección eliminada del boleto',
+        data: slip
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Actualizar stake, tipo de apuesta o aceptar las cuotas vigentes
+  async updateSlip(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Datos de boleto inválidos', 400);
+      }
+
+      const { stake_amount, system_type, bet_builder, accept_prices } = req.body;
+
+      const slip = await betSlipService.updateSlip(req.user!.id, {
+        stake_amount,
+        system_type,
+        bet_builder,
+        accept_prices
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Boleto actualizado',
+        data: slip
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async clearSlip(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const slip = await betSlipService.clearSlip(req.user!.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Boleto vaciado',
+        data: slip
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new BetSlipController();
@@ -0,0 +1,176 @@
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import bonusCampaignModel from '../models/bonusCampaign';
+import bonusService from '../services/bonusService';
+import { AppError } from '../middlewares/errorHandler';
+
+class BonusController {
+  // Campañas de bono disponibles para nuevos depósitos
+  async getAvailableCampaigns(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const campaigns = await bonusCampaignModel.getAll(true);
+
+      res.status(200).json({
+        success: true,
+        data: campaigns
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Bonos del usuario autenticado con el progreso del rollover
+  async getMyBonuses(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const bonuses = await bonusService.getProgress(req.user!.id);
+
+      res.status(200).json({
+        success: true,
+        data: bonuses
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async forfeitBonus(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const bonusId = parseInt(req.params.id);
+
+      if (isNaN(bonusId)) {
+        throw new AppError('ID de bono inválido', 400);
+      }
+
+      await bonusService.forfeit(req.user!.id, bonusId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Has renunciado al bono; el depósito ya se puede retirar'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // RUTAS ADMINISTRATIVAS
+
+  async getCampaigns(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const campaigns = await bonusCampaignModel.getAll();
+
+      res.status(200).json({
+        success: true,
+        data: campaigns
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async createCampaign(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Datos de campaña inválidos', 400);
+      }
+
+      const {
+        name, match_percentage, max_bonus, min_deposit, rollover_multiplier, min_odds,
+        validity_days, starts_at, ends_at, active, description
+      } = req.body;
+
+      const campaign = await bonusCampaignModel.create({
+        name,
+        match_percentage,
+        max_bonus,
+        min_deposit,
+        rollover_multiplier,
+        min_odds,
+        validity_days,
+        starts_at,
+        ends_at,
+        active,
+        description
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Campaña de bono creada exitosamente',
+        data: campaign
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async updateCampaign(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Datos de campaña inválidos', 400);
+      }
+
+      const campaignId = parseInt(req.params.id);
+
+      if (isNaN(campaignId)) {
+        throw new AppError('ID de campaña inválido', 400);
+      }
+
+      const {
+        name, match_percentage, max_bonus, min_deposit, rollover_multiplier, min_odds,
+        validity_days, starts_at, ends_at, active, description
+      } = req.body;
+
+      const updatedCampaign = await bonusCampaignModel.update(campaignId, {
+        name,
+        match_percentage,
+        max_bonus,
+        min_deposit,
+        rollover_multiplier,
+        min_odds,
+        validity_days,
+        starts_at,
+        ends_at,
+        active,
+        description
+      });
+
+      if (!updatedCampaign) {
+        throw new AppError('Campaña no encontrada', 404);
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Campaña de bono actualizada exitosamente',
+        data: updatedCampaign
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async deleteCampaign(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const campaignId = parseInt(req.params.id);
+
+      if (isNaN(campaignId)) {
+        throw new AppError('ID de campaña inválido', 400);
+      }
+
+      const deleted = await bonusCampaignModel.delete(campaignId);
+
+      if (!deleted) {
+        throw new AppError('Campaña no encontrada', 404);
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Campaña de bono eliminada exitosamente'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new BonusController();
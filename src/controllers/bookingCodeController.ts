@@ -0,0 +1,102 @@
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import bookingCodeService from '../services/bookingCodeService';
+import betSlipService from '../services/betSlipService';
+import bookingCodeModel from '../models/bookingCode';
+import { AppError } from '../middlewares/errorHandler';
+import { DEFAULT_ODDS_FORMAT, fromDecimal } from '../utils/oddsFormat';
+
+class BookingCodeController {
+  // Guardar un boleto bajo un código compartible (usuarios anónimos o autenticados)
+  async createCode(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Selecciones inválidas', 400);
+      }
+
+      const oddsIds: number[] = req.body.selections.map((selection: any) => selection.odds_id);
+      const bookingCode = await bookingCodeService.createCode(req.user?.id ?? null, oddsIds);
+
+      res.status(201).json({
+        success: true,
+        message: 'Código de reserva creado exitosamente',
+        data: {
+          code: bookingCode.code,
+          expires_at: bookingCode.expires_at
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Cargar un código con las selecciones a cuotas actuales
+  async getCode(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const oddsFormat = req.oddsFormat || DEFAULT_ODDS_FORMAT;
+      const { id, ...booking } = await bookingCodeService.loadCode(req.params.code);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          ...booking,
+          odds_format: oddsFormat,
+          selections: booking.selections.map(selection => ({
+            ...selection,
+            price: selection.current_odds !== null ? fromDecimal(selection.current_odds, oddsFormat) : null
+          }))
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Cargar un código en el boleto del usuario
+  async loadIntoSlip(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const slip = await betSlipService.loadBookingCode(req.user!.id, req.params.code);
+
+      res.status(200).json({
+        success: true,
+        message: 'Código de reserva cargado en el boleto',
+        data: slip
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Estadísticas de uso por código (solo admin)
+  async getStatistics(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Parámetros de paginación inválidos', 400);
+      }
+
+      const page = parseInt(req.query.page as string || '1');
+      const limit = parseInt(req.query.limit as string || '20');
+
+      const { codes, total } = await bookingCodeModel.getStatistics(page, limit);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          codes,
+          pagination: {
+            total,
+            page,
+            limit,
+            pages: Math.ceil(total / limit)
+          }
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new BookingCodeController();
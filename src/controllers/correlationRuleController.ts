@@ -0,0 +1,121 @@
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import { CorrelationRuleModel } from '../models/correlationRule';
+import { AppError } from '../middlewares/errorHandler';
+
+const correlationRuleModel = new CorrelationRuleModel();
+
+class CorrelationRuleController {
+  // Obtener las combinaciones aprobadas (solo admin)
+  async getRules(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const sportId = req.query.sport_id ? parseInt(req.query.sport_id as string) : undefined;
+      const rules = await correlationRuleModel.getAll(sportId);
+
+      res.status(200).json({
+        success: true,
+        data: rules
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Aprobar una combinación de mercados del mismo evento (solo admin)
+  async createRule(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Datos de regla inválidos', 400);
+      }
+
+      const { sport_id, market_a, outcome_a, market_b, outcome_b, description, price_factor, active } = req.body;
+
+      const newRule = await correlationRuleModel.create({
+        sport_id,
+        market_a,
+        outcome_a,
+        market_b,
+        outcome_b,
+        description,
+        price_factor,
+        active
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Regla de correlación creada exitosamente',
+        data: newRule
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Actualizar una regla (solo admin)
+  async updateRule(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Datos de regla inválidos', 400);
+      }
+
+      const ruleId = parseInt(req.params.id);
+
+      if (isNaN(ruleId)) {
+        throw new AppError('ID de regla inválido', 400);
+      }
+
+      const { sport_id, market_a, outcome_a, market_b, outcome_b, description, price_factor, active } = req.body;
+
+      const updatedRule = await correlationRuleModel.update(ruleId, {
+        sport_id,
+        market_a,
+        outcome_a,
+        market_b,
+        outcome_b,
+        description,
+        price_factor,
+        active
+      });
+
+      if (!updatedRule) {
+        throw new AppError('Regla de correlación no encontrada', 404);
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Regla de correlación actualizada exitosamente',
+        data: updatedRule
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Eliminar una regla (solo admin)
+  async deleteRule(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const ruleId = parseInt(req.params.id);
+
+      if (isNaN(ruleId)) {
+        throw new AppError('ID de regla inválido', 400);
+      }
+
+      const deleted = await correlationRuleModel.delete(ruleId);
+
+      if (!deleted) {
+        throw new AppError('Regla de correlación no encontrada', 404);
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Regla de correlación eliminada exitosamente'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new CorrelationRuleController();
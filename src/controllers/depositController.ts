@@ -4,6 +4,8 @@ import { DepositModel } from '../models/deposit';
 import { UserModel } from '../models/user';
 import { AppError } from '../middlewares/errorHandler';
 import pool from '../config/database';
+import bonusService from '../services/bonusService';
+import referralService from '../services/referralService';
 
 const depositModel = new DepositModel();
 const userModel = new UserModel();
@@ -18,7 +20,7 @@ class DepositController {
       }
       
       const userId = req.user!.id;
-      const { amount, method, reference_number, transaction_hash, deposit_date } = req.body;
+      const { amount, method, reference_number, transaction_hash, deposit_date, bonus_campaign_id } = req.body;
       
       // Validar método de depósito
       const validMethods = ['bank_transfer', 'mobile_payment', 'binance'];
@@ -35,6 +37,11 @@ class DepositController {
         throw new AppError('Número de referencia requerido para este método de depósito', 400);
       }
       
+      // Validar la campaña de bono elegida
+      if (bonus_campaign_id) {
+        await bonusService.checkEligibility(userId, bonus_campaign_id, amount);
+      }
+      
       // Crear el depósito
       const newDeposit = await depositModel.create({
         user_id: userId,
@@ -43,7 +50,8 @@ class DepositController {
         reference_number,
         transaction_hash,
         status: 'pending',
-        deposit_date: new Date(deposit_date)
+        deposit_date: new Date(deposit_date),
+        bonus_campaign_id: bonus_campaign_id || null
       });
       
       res.status(201).json({
@@ -249,6 +257,12 @@ class DepositController {
       // Si se aprueba el depósito, actualizar el saldo del usuario
       if (status === 'completed') {
         await userModel.updateBalance(deposit.user_id, deposit.amount);
+        
+        // Acreditar el bono de la campaña elegida al depositar
+        await bonusService.awardDepositBonus(client, deposit);
+        
+        // Primer depósito de un usuario referido
+        await referralService.recordDeposit(client, deposit);
       }
       
       await client.query('COMMIT');
@@ -1,24 +1,39 @@
 import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
 import pool from '../config/database';
 import { AppError } from '../middlewares/errorHandler';
 import oddsApiService from '../services/oddsApiService';
+import settlementService from '../services/settlementService';
+import liabilityService from '../services/liabilityService';
+import oddsModel from '../models/odd';
+import eventModel from '../models/event';
+import boostService from '../services/boostService';
+import { DEFAULT_ODDS_FORMAT, formatOdds } from '../utils/oddsFormat';
 import { QueryResult } from 'pg';
 
 export class EventController {
   async getEvents(req: Request, res: Response, next: NextFunction) {
     try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Filtros de eventos inválidos', 400);
+      }
+      
       const sportKey = req.query.sport_key as string;
+      const eventType = req.query.event_type as string;
       const page = parseInt(req.query.page as string || '1');
       const limit = parseInt(req.query.limit as string || '10');
       const offset = (page - 1) * limit;
+      const oddsFormat = req.oddsFormat || DEFAULT_ODDS_FORMAT;
       
+      // Los outrights siguen abiertos hasta su cierre de apuestas
       let query = `
-        SELECT e.id, e.api_event_id, e.home_team, e.away_team, e.commence_time, e.status,
-               s.name as sport, c.name as competition
+        SELECT e.id, e.api_event_id, e.event_type, e.name, e.home_team, e.away_team, e.commence_time,
+               e.betting_closes_at, e.status, s.name as sport, c.name as competition
         FROM events e
         JOIN competitions c ON e.competition_id = c.id
         JOIN sports s ON c.sport_id = s.id
-        WHERE e.status = 'upcoming' AND e.commence_time > NOW()
+        WHERE e.status = 'upcoming' AND COALESCE(e.betting_closes_at, e.commence_time) > NOW()
       `;
       
       const params: any[] = [];
@@ -29,6 +44,11 @@ export class EventController {
         params.push(sportKey);
       }
       
+      if (eventType) {
+        query += ` AND e.event_type = $${paramCounter++}`;
+        params.push(eventType);
+      }
+      
       const countQuery = `
         SELECT COUNT(*) FROM (${query}) as count_query
       `;
@@ -52,7 +72,8 @@ export class EventController {
         `;
         
         const oddsResult = await pool.query(oddsQuery, [event.id]);
-        event.odds = oddsResult.rows;
+        const boostedOdds = await boostService.attachBoosts(event.id, oddsResult.rows, oddsFormat);
+        event.odds = boostedOdds.map(odds => formatOdds(odds, oddsFormat));
       }
       
       res.status(200).json({
@@ -80,8 +101,8 @@ export class EventController {
       }
       
       const query = `
-        SELECT e.id, e.api_event_id, e.home_team, e.away_team, e.commence_time, e.status,
-               s.name as sport, c.name as competition
+        SELECT e.id, e.api_event_id, e.event_type, e.name, e.home_team, e.away_team, e.commence_time,
+               e.betting_closes_at, e.status, s.name as sport, c.name as competition
         FROM events e
         JOIN competitions c ON e.competition_id = c.id
         JOIN sports s ON c.sport_id = s.id
@@ -104,8 +125,19 @@ export class EventController {
         ORDER BY market_type, outcome_name
       `;
       
+      const oddsFormat = req.oddsFormat || DEFAULT_ODDS_FORMAT;
       const oddsResult = await pool.query(oddsQuery, [eventId]);
-      event.odds = oddsResult.rows;
+      const boostedOdds = await boostService.attachBoosts(eventId, oddsResult.rows, oddsFormat);
+      event.odds = boostedOdds.map(odds => formatOdds(odds, oddsFormat));
+      
+      // Ganadores declarados de un outright, con la reducción por dead heat
+      if (event.event_type === 'outright' && event.status === 'completed') {
+        const winnersResult = await pool.query(
+          'SELECT outcome_name, dead_heat_factor FROM outright_results WHERE event_id = $1 ORDER BY outcome_name',
+          [eventId]
+        );
+        event.winners = winnersResult.rows;
+      }
       
       res.status(200).json({
         success: true,
@@ -141,6 +173,182 @@ export class EventController {
     }
   }
 
+  // Registrar el marcador final y liquidar los tickets del evento (solo admin)
+  async settleEvent(req: Request, res: Response, next: NextFunction) {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Marcador inválido', 400);
+      }
+
+      const eventId = parseInt(req.params.id);
+      if (isNaN(eventId)) {
+        throw new AppError('ID de evento inválido', 400);
+      }
+
+      const { score_home, score_away } = req.body;
+      const summary = await settlementService.settleEvent(eventId, score_home, score_away);
+
+      res.status(200).json({
+        success: true,
+        message: `Evento liquidado: ${summary.settled_tickets.length} tickets resueltos`,
+        data: summary
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Declarar el ganador (o ganadores empatados) de un outright y liquidar sus tickets (solo admin)
+  async settleOutright(req: Request, res: Response, next: NextFunction) {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Ganadores inválidos', 400);
+      }
+
+      const eventId = parseInt(req.params.id);
+      if (isNaN(eventId)) {
+        throw new AppError('ID de evento inválido', 400);
+      }
+
+      const summary = await settlementService.settleOutright(eventId, req.body.winners);
+
+      res.status(200).json({
+        success: true,
+        message: `Outright liquidado: ${summary.settled_tickets.length} tickets resueltos`,
+        data: summary
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Cambiar el cierre de apuestas de un outright (solo admin)
+  async setBettingWindow(req: Request, res: Response, next: NextFunction) {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Fecha de cierre inválida', 400);
+      }
+
+      const eventId = parseInt(req.params.id);
+      if (isNaN(eventId)) {
+        throw new AppError('ID de evento inválido', 400);
+      }
+
+      const event = await eventModel.findById(eventId);
+
+      if (!event) {
+        throw new AppError('Evento no encontrado', 404);
+      }
+
+      if (event.event_type !== 'outright') {
+        throw new AppError('Solo los outrights tienen ventana de apuestas propia', 400);
+      }
+
+      const updated = await eventModel.update(eventId, { betting_closes_at: req.body.betting_closes_at });
+
+      res.status(200).json({
+        success: true,
+        message: 'Cierre de apuestas actualizado',
+        data: updated
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Anular las selecciones de un evento aplazado o cancelado (solo admin)
+  async voidEvent(req: Request, res: Response, next: NextFunction) {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Estado de evento inválido', 400);
+      }
+
+      const eventId = parseInt(req.params.id);
+      if (isNaN(eventId)) {
+        throw new AppError('ID de evento inválido', 400);
+      }
+
+      const summary = await settlementService.voidEventSelections(eventId, req.body.status);
+
+      res.status(200).json({
+        success: true,
+        message: `${summary.graded_items} selecciones anuladas`,
+        data: summary
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Suspender o reabrir los mercados de un evento en vivo (solo admin)
+  async setMarketSuspension(req: Request, res: Response, next: NextFunction) {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Datos de suspensión inválidos', 400);
+      }
+
+      const eventId = parseInt(req.params.id);
+      if (isNaN(eventId)) {
+        throw new AppError('ID de evento inválido', 400);
+      }
+
+      const { suspended, market_type } = req.body;
+      const updated = await oddsModel.setSuspended(eventId, suspended, market_type);
+
+      res.status(200).json({
+        success: true,
+        message: `${updated.length} cuotas ${suspended ? 'suspendidas' : 'reabiertas'}`,
+        data: updated
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Exposición por resultado de un evento, separando simples y combinadas (solo admin)
+  async getEventLiability(req: Request, res: Response, next: NextFunction) {
+    try {
+      const eventId = parseInt(req.params.id);
+      if (isNaN(eventId)) {
+        throw new AppError('ID de evento inválido', 400);
+      }
+
+      const liability = await liabilityService.getEventLiability(eventId);
+
+      res.status(200).json({
+        success: true,
+        data: liability
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Eventos abiertos con mayor exposición (solo admin)
+  async getTopExposure(req: Request, res: Response, next: NextFunction) {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Límite inválido', 400);
+      }
+
+      const limit = parseInt(req.query.limit as string || '10');
+      const events = await liabilityService.getTopExposure(limit);
+
+      res.status(200).json({
+        success: true,
+        data: events
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   // Agregar al EventModel existente
   async findByApiId(apiEventId: string): Promise<Event | null> {
     const query = 'SELECT * FROM events WHERE api_event_id = $1';
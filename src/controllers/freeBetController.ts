@@ -0,0 +1,106 @@
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import freeBetModel, { FreeBetStatus } from '../models/freeBet';
+import freeBetService from '../services/freeBetService';
+import { AppError } from '../middlewares/errorHandler';
+
+class FreeBetController {
+  // Apuestas gratuitas del usuario autenticado
+  async getMyFreeBets(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const status = req.query.status as FreeBetStatus | undefined;
+      const freeBets = await freeBetModel.findByUserId(req.user!.id, status);
+
+      res.status(200).json({
+        success: true,
+        data: freeBets
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Emitir una apuesta gratuita a un usuario (solo admin)
+  async issueFreeBet(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Datos de apuesta gratuita inválidos', 400);
+      }
+
+      const { user_id, amount, min_odds, sport_ids, competition_ids, expires_at, description } = req.body;
+
+      const freeBet = await freeBetService.issue(user_id, {
+        amount,
+        min_odds,
+        sport_ids,
+        competition_ids,
+        expires_at,
+        description
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Apuesta gratuita emitida exitosamente',
+        data: freeBet
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Listar apuestas gratuitas emitidas (solo admin)
+  async getAllFreeBets(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const page = parseInt(req.query.page as string || '1');
+      const limit = parseInt(req.query.limit as string || '20');
+
+      const { freeBets, total } = await freeBetModel.getAll(page, limit, {
+        user_id: req.query.user_id ? parseInt(req.query.user_id as string) : undefined,
+        status: req.query.status as string
+      });
+
+      res.status(200).json({
+        success: true,
+        data: {
+          freeBets,
+          pagination: {
+            total,
+            page,
+            limit,
+            pages: Math.ceil(total / limit)
+          }
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Revocar una apuesta gratuita aún no usada (solo admin)
+  async revokeFreeBet(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const freeBetId = parseInt(req.params.id);
+
+      if (isNaN(freeBetId)) {
+        throw new AppError('ID de apuesta gratuita inválido', 400);
+      }
+
+      const revoked = await freeBetModel.revoke(freeBetId);
+
+      if (!revoked) {
+        throw new AppError('Apuesta gratuita no encontrada o ya utilizada', 404);
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Apuesta gratuita revocada',
+        data: revoked
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new FreeBetController();
@@ -84,6 +84,34 @@ class OddsApiController {
     }
   }
 
+  // Sincronizar marcadores en vivo y finales de un deporte
+  async syncScores(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Parámetros de marcadores inválidos', 400);
+      }
+
+      const { sportKey } = req.params;
+      const daysFrom = req.query.daysFrom ? parseInt(req.query.daysFrom as string) : undefined;
+
+      if (!sportKey) {
+        throw new AppError('Sport key es requerido', 400);
+      }
+
+      const results = await oddsApiService.fetchAndSyncScores(sportKey, daysFrom);
+      const completed = results.filter(r => r.status === 'completed').length;
+
+      res.status(200).json({
+        success: true,
+        data: results,
+        message: `${results.length} marcadores procesados, ${completed} eventos finalizados`
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   // Obtener información de uso de la API
   async getApiUsage(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
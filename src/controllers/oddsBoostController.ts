@@ -0,0 +1,175 @@
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import pool from '../config/database';
+import oddsBoostModel from '../models/oddsBoost';
+import { AppError } from '../middlewares/errorHandler';
+import { DEFAULT_ODDS_FORMAT, fromDecimal } from '../utils/oddsFormat';
+
+class OddsBoostController {
+  // Cuotas mejoradas vigentes (público) para destacar en portada
+  async getActiveBoosts(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const oddsFormat = req.oddsFormat || DEFAULT_ODDS_FORMAT;
+      const boosts = await oddsBoostModel.getAll({ active_only: true });
+
+      res.status(200).json({
+        success: true,
+        data: boosts.map(boost => ({
+          id: boost.id,
+          event_id: boost.event_id,
+          home_team: boost.home_team,
+          away_team: boost.away_team,
+          commence_time: boost.commence_time,
+          market_type: boost.market_type,
+          outcome_name: boost.outcome_name,
+          handicap: boost.handicap,
+          total: boost.total,
+          boosted_price: fromDecimal(parseFloat(boost.boosted_odds), oddsFormat),
+          odds_format: oddsFormat,
+          max_stake_per_user: boost.max_stake_per_user,
+          ends_at: boost.ends_at,
+          description: boost.description
+        }))
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Listar todas las mejoras con su presupuesto consumido (solo admin)
+  async getBoosts(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const eventId = req.query.event_id ? parseInt(req.query.event_id as string) : undefined;
+      const boosts = await oddsBoostModel.getAll({ event_id: eventId });
+
+      res.status(200).json({
+        success: true,
+        data: boosts
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Crear una mejora sobre una cuota concreta o un resultado de mercado (solo admin)
+  async createBoost(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Datos de cuota mejorada inválidos', 400);
+      }
+
+      const {
+        odds_id, event_id, market_type, outcome_name, handicap, total, boosted_odds,
+        starts_at, ends_at, max_stake_per_user, budget, description, active
+      } = req.body;
+
+      if (new Date(ends_at) <= new Date(starts_at)) {
+        throw new AppError('La fecha de fin debe ser posterior a la de inicio', 400);
+      }
+
+      let target = { event_id, market_type, outcome_name, handicap, total };
+
+      // Con odds_id el resultado de mercado se toma de la propia cuota
+      if (odds_id) {
+        const oddsResult = await pool.query(
+          'SELECT event_id, market_type, outcome_name, handicap, total FROM odds WHERE id = $1',
+          [odds_id]
+        );
+
+        if (oddsResult.rows.length === 0) {
+          throw new AppError('Cuota no encontrada', 404);
+        }
+
+        target = oddsResult.rows[0];
+      } else if (!event_id || !market_type || !outcome_name) {
+        throw new AppError('Indica odds_id o el evento, mercado y resultado', 400);
+      }
+
+      const boost = await oddsBoostModel.create({
+        odds_id: odds_id ?? null,
+        ...target,
+        boosted_odds,
+        starts_at,
+        ends_at,
+        max_stake_per_user,
+        budget,
+        description,
+        active,
+        created_by: req.user!.id
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Cuota mejorada creada exitosamente',
+        data: boost
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async updateBoost(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Datos de cuota mejorada inválidos', 400);
+      }
+
+      const boostId = parseInt(req.params.id);
+
+      if (isNaN(boostId)) {
+        throw new AppError('ID de cuota mejorada inválido', 400);
+      }
+
+      const { boosted_odds, starts_at, ends_at, max_stake_per_user, budget, description, active } = req.body;
+
+      const updatedBoost = await oddsBoostModel.update(boostId, {
+        boosted_odds,
+        starts_at,
+        ends_at,
+        max_stake_per_user,
+        budget,
+        description,
+        active
+      });
+
+      if (!updatedBoost) {
+        throw new AppError('Cuota mejorada no encontrada', 404);
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Cuota mejorada actualizada exitosamente',
+        data: updatedBoost
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async deleteBoost(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const boostId = parseInt(req.params.id);
+
+      if (isNaN(boostId)) {
+        throw new AppError('ID de cuota mejorada inválido', 400);
+      }
+
+      const deleted = await oddsBoostModel.delete(boostId);
+
+      if (!deleted) {
+        throw new AppError('Cuota mejorada no encontrada', 404);
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Cuota mejorada eliminada exitosamente'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new OddsBoostController();
@@ -0,0 +1,144 @@
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import parlayPromotionModel from '../models/parlayPromotion';
+import { AppError } from '../middlewares/errorHandler';
+
+class ParlayPromotionController {
+  // Promociones de combinada vigentes (público)
+  async getActivePromotions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const promotions = await parlayPromotionModel.getAll(true);
+
+      res.status(200).json({
+        success: true,
+        data: promotions
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Todas las promociones (solo admin)
+  async getPromotions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const promotions = await parlayPromotionModel.getAll();
+
+      res.status(200).json({
+        success: true,
+        data: promotions
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async createPromotion(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Datos de promoción inválidos', 400);
+      }
+
+      const {
+        name, promo_type, min_legs, min_leg_odds, boost_percentage, max_refund,
+        free_bet_validity_days, starts_at, ends_at, active, description
+      } = req.body;
+
+      if (promo_type === 'boost' && !boost_percentage) {
+        throw new AppError('El boost de combinada requiere un porcentaje', 400);
+      }
+
+      const promotion = await parlayPromotionModel.create({
+        name,
+        promo_type,
+        min_legs,
+        min_leg_odds,
+        boost_percentage: promo_type === 'boost' ? boost_percentage : null,
+        max_refund: promo_type === 'insurance' ? max_refund : null,
+        free_bet_validity_days: promo_type === 'insurance' ? free_bet_validity_days : null,
+        starts_at,
+        ends_at,
+        active,
+        description
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Promoción de combinada creada exitosamente',
+        data: promotion
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async updatePromotion(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Datos de promoción inválidos', 400);
+      }
+
+      const promotionId = parseInt(req.params.id);
+
+      if (isNaN(promotionId)) {
+        throw new AppError('ID de promoción inválido', 400);
+      }
+
+      const {
+        name, min_legs, min_leg_odds, boost_percentage, max_refund,
+        free_bet_validity_days, starts_at, ends_at, active, description
+      } = req.body;
+
+      const updatedPromotion = await parlayPromotionModel.update(promotionId, {
+        name,
+        min_legs,
+        min_leg_odds,
+        boost_percentage,
+        max_refund,
+        free_bet_validity_days,
+        starts_at,
+        ends_at,
+        active,
+        description
+      });
+
+      if (!updatedPromotion) {
+        throw new AppError('Promoción no encontrada', 404);
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Promoción de combinada actualizada exitosamente',
+        data: updatedPromotion
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async deletePromotion(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const promotionId = parseInt(req.params.id);
+
+      if (isNaN(promotionId)) {
+        throw new AppError('ID de promoción inválido', 400);
+      }
+
+      const deleted = await parlayPromotionModel.delete(promotionId);
+
+      if (!deleted) {
+        throw new AppError('Promoción no encontrada', 404);
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Promoción de combinada eliminada exitosamente'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new ParlayPromotionController();
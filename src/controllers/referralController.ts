@@ -0,0 +1,34 @@
+import { Request, Response, NextFunction } from 'express';
+import referralService from '../services/referralService';
+
+class ReferralController {
+  // Código de referido, invitados y recompensas del usuario autenticado
+  async getMyReferrals(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const summary = await referralService.getSummary(req.user!.id);
+
+      res.status(200).json({
+        success: true,
+        data: summary
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Invitaciones con señales de fraude (solo admin)
+  async getSuspiciousReferrals(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const referrals = await referralService.getSuspicious();
+
+      res.status(200).json({
+        success: true,
+        data: referrals
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new ReferralController();
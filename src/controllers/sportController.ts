@@ -120,7 +120,7 @@ class SportController {
         throw new AppError('Datos de deporte inválidos', 400);
       }
       
-      const { api_sport_key, name, group_name, description, active } = req.body;
+      const { api_sport_key, name, group_name, description, active, inplay_delay_seconds } = req.body;
       
       // Verificar que no existe un deporte con la misma API key
       const existingSport = await sportModel.findByApiKey(api_sport_key);
@@ -133,7 +133,8 @@ class SportController {
         name,
         group_name,
         description,
-        active
+        active,
+        inplay_delay_seconds
       });
       
       res.status(201).json({
@@ -160,7 +161,7 @@ class SportController {
         throw new AppError('ID de deporte inválido', 400);
       }
       
-      const { api_sport_key, name, group_name, description, active } = req.body;
+      const { api_sport_key, name, group_name, description, active, inplay_delay_seconds } = req.body;
       
       // Verificar que el deporte existe
       const existingSport = await sportModel.findById(sportId);
@@ -181,7 +182,8 @@ class SportController {
         name,
         group_name,
         description,
-        active
+        active,
+        inplay_delay_seconds
       });
       
       res.status(200).json({
@@ -0,0 +1,100 @@
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import teaserPayoutModel from '../models/teaserPayout';
+import { AppError } from '../middlewares/errorHandler';
+
+class TeaserPayoutController {
+  // Tabla de pagos de teasers activa, opcionalmente por deporte (público)
+  async getPayouts(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const sportId = req.query.sport_id ? parseInt(req.query.sport_id as string) : undefined;
+      const payouts = await teaserPayoutModel.getAll(sportId, req.user?.role !== 'admin');
+
+      res.status(200).json({
+        success: true,
+        data: payouts
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async createPayout(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Datos de pago de teaser inválidos', 400);
+      }
+
+      const { sport_id, points, legs, odds, active } = req.body;
+      const payout = await teaserPayoutModel.create({ sport_id, points, legs, odds, active });
+
+      res.status(201).json({
+        success: true,
+        message: 'Pago de teaser creado exitosamente',
+        data: payout
+      });
+    } catch (error: any) {
+      if (error.code === '23505') {
+        next(new AppError('Ya existe un pago para ese deporte, puntos y número de selecciones', 400));
+        return;
+      }
+      next(error);
+    }
+  }
+
+  async updatePayout(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Datos de pago de teaser inválidos', 400);
+      }
+
+      const payoutId = parseInt(req.params.id);
+
+      if (isNaN(payoutId)) {
+        throw new AppError('ID de pago de teaser inválido', 400);
+      }
+
+      const { points, legs, odds, active } = req.body;
+      const updatedPayout = await teaserPayoutModel.update(payoutId, { points, legs, odds, active });
+
+      if (!updatedPayout) {
+        throw new AppError('Pago de teaser no encontrado', 404);
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Pago de teaser actualizado exitosamente',
+        data: updatedPayout
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async deletePayout(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const payoutId = parseInt(req.params.id);
+
+      if (isNaN(payoutId)) {
+        throw new AppError('ID de pago de teaser inválido', 400);
+      }
+
+      const deleted = await teaserPayoutModel.delete(payoutId);
+
+      if (!deleted) {
+        throw new AppError('Pago de teaser no encontrado', 404);
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Pago de teaser eliminado exitosamente'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new TeaserPayoutController();
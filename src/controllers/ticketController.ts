@@ -2,13 +2,26 @@ import { Request, Response, NextFunction } from 'express';
 import { validationResult } from 'express-validator';
 import pool from '../config/database';
 import { AppError } from '../middlewares/errorHandler';
-import { TicketModel } from '../models/ticket';
+import { PARENT_TICKET_TYPES, TicketModel, TicketWithDetails } from '../models/ticket';
 import { TicketItemModel } from '../models/ticketItem';
-import { UserModel } from '../models/user';
+import bookingCodeModel from '../models/bookingCode';
+import settlementService from '../services/settlementService';
+import betService from '../services/betService';
+import freeBetService from '../services/freeBetService';
+import bonusService from '../services/bonusService';
+import referralService from '../services/referralService';
+import loyaltyService from '../services/loyaltyService';
+import { DEFAULT_ODDS_FORMAT, formatSelectionOdds, OddsFormat, toDecimal } from '../utils/oddsFormat';
 
 const ticketModel = new TicketModel();
 const ticketItemModel = new TicketItemModel();
-const userModel = new UserModel();
+
+// Presentar las cuotas de las selecciones (y de las líneas de un sistema) en el formato pedido
+const formatTicketOdds = (ticket: TicketWithDetails, format: OddsFormat): TicketWithDetails => ({
+  ...ticket,
+  selections: ticket.selections?.map(selection => formatSelectionOdds(selection, format)),
+  lines: ticket.lines?.map(line => formatTicketOdds(line, format))
+});
 
 class TicketController {
   // Crear un nuevo ticket de apuesta
@@ -25,76 +38,65 @@ class TicketController {
       }
       
       const userId = req.user!.id;
-      const { stake_amount, selections } = req.body;
+      const { stake_amount, system_type, free_bet_id, booking_code } = req.body;
+      // Las cuotas enviadas por el cliente se interpretan en el formato indicado o en el del usuario
+      const oddsFormat: OddsFormat = req.body.odds_format || req.oddsFormat || DEFAULT_ODDS_FORMAT;
       
       // Validar que hay selecciones
-      if (!selections || !Array.isArray(selections) || selections.length === 0) {
+      if (!req.body.selections || !Array.isArray(req.body.selections) || req.body.selections.length === 0) {
         console.error('No selections provided');
         throw new AppError('Debe incluir al menos una selección', 400);
       }
       
-      // Verificar saldo del usuario
-      const user = await userModel.findById(userId);
+      // La cuota enviada es la que vio el usuario; el precio se toma siempre de la tabla odds
+      const seenSelections = req.body.selections.map((selection: any) => {
+        const seenOdds = toDecimal(selection.odds_value, oddsFormat);
+        
+        if (isNaN(seenOdds) || seenOdds <= 1) {
+          throw new AppError(`Valor de cuota inválido: ${selection.odds_value}`, 400);
+        }
+        
+        return { odds_id: Number(selection.odds_id), seen_odds: seenOdds };
+      });
       
-      if (!user) {
-        throw new AppError('Usuario no encontrado', 404);
-      }      
-
-      const userBalance = user.balance as number;
-
-      if (userBalance < stake_amount) {
-        console.error('Insufficient balance:', user.balance);
-        throw new AppError('Saldo insuficiente para realizar esta apuesta', 400);
-      }
+      const booking = booking_code ? await bookingCodeModel.findByCode(booking_code) : null;
       
-      // Calcular cuota total y ganancia potencial
-      let totalOdds = 1;
-      for (const selection of selections) {
-        totalOdds *= parseFloat(selection.odds_value);
+      if (booking_code && !booking) {
+        throw new AppError('Código de reserva no encontrado', 404);
       }
       
-      const potentialPayout = stake_amount * totalOdds;
-      
-      // Crear el ticket
-      const newTicket = await ticketModel.create({
-        user_id: userId,
-        stake_amount,
-        total_odds: totalOdds,
-        potential_payout: potentialPayout,
-        status: 'pending'
+      // La colocación comparte el flujo de POST /bets: bloqueo del usuario, límites, cuotas mejoradas,
+      // apuestas gratuitas y atribución al código de reserva
+      const placed = await betService.placeBet(client, userId, {
+        stakeAmount: stake_amount,
+        selections: seenSelections,
+        systemType: system_type,
+        oddsChangePolicy: req.body.odds_change_policy || 'none',
+        bookingCodeId: booking?.id,
+        freeBetId: free_bet_id
       });
       
-      // Crear los items del ticket
-      if (typeof newTicket.id !== 'number') {
-        throw new AppError('ID de ticket inválido al crear items', 500);
+      await client.query('COMMIT');
+      
+      if (placed.system) {
+        res.status(201).json({
+          success: true,
+          message: 'Apuesta de sistema realizada exitosamente',
+          data: placed.system
+        });
+        return;
       }
-      const ticketItems = selections.map((selection: any) => ({
-        ticket_id: newTicket.id as number,
-        event_id: selection.event_id,
-        odds_id: selection.odds_id,
-        selection: selection.selection,
-        odds_value: parseFloat(selection.odds_value),
-        status: "pending" as "pending"
-      }));
-      
-      await ticketItemModel.createMany(ticketItems);
-      
-      // Descontar el monto del saldo del usuario
-      const updateBalanceQuery = `
-        UPDATE users 
-        SET balance = balance - $1 
-        WHERE id = $2
-      `;
-      await client.query(updateBalanceQuery, [stake_amount, userId]);
       
-      await client.query('COMMIT');
+      const { ticketId, status } = placed;
       
       // Obtener el ticket completo con detalles
-      const ticketWithDetails = await ticketModel.findByIdWithDetails(newTicket.id!);
+      const ticketWithDetails = await ticketModel.findByIdWithDetails(ticketId);
       
       res.status(201).json({
         success: true,
-        message: 'Apuesta realizada exitosamente',
+        message: status === 'pending_acceptance'
+          ? 'Apuesta en vivo en espera de aceptación'
+          : 'Apuesta realizada exitosamente',
         data: ticketWithDetails
       });
     } catch (error) {
@@ -114,11 +116,12 @@ class TicketController {
       const status = req.query.status as string;
       
       const { tickets, total } = await ticketModel.findByUserId(userId, page, limit, status);
+      const oddsFormat = req.oddsFormat || DEFAULT_ODDS_FORMAT;
       
       res.status(200).json({
         success: true,
         data: {
-          tickets,
+          tickets: tickets.map(ticket => formatTicketOdds(ticket, oddsFormat)),
           pagination: {
             total,
             page,
@@ -153,9 +156,13 @@ class TicketController {
         throw new AppError('No autorizado para ver este ticket', 403);
       }
       
+      if (PARENT_TICKET_TYPES.includes(ticket.ticket_type!)) {
+        ticket.lines = await ticketModel.findLines(ticketId);
+      }
+      
       res.status(200).json({
         success: true,
-        data: ticket
+        data: formatTicketOdds(ticket, req.oddsFormat || DEFAULT_ODDS_FORMAT)
       });
     } catch (error) {
       next(error);
@@ -228,9 +235,13 @@ class TicketController {
         throw new AppError('Ticket no encontrado', 404);
       }
       
+      if (PARENT_TICKET_TYPES.includes(ticket.ticket_type!)) {
+        ticket.lines = await ticketModel.findLines(ticketId);
+      }
+      
       res.status(200).json({
         success: true,
-        data: ticket
+        data: formatTicketOdds(ticket, req.oddsFormat || DEFAULT_ODDS_FORMAT)
       });
     } catch (error) {
       next(error);
@@ -262,6 +273,14 @@ class TicketController {
         throw new AppError('Ticket no encontrado', 404);
       }
       
+      if (PARENT_TICKET_TYPES.includes(ticket.ticket_type!) || ticket.parent_ticket_id) {
+        throw new AppError('Las apuestas de sistema se liquidan automáticamente por línea', 400);
+      }
+      
+      if (ticket.ticket_type === 'if_bet') {
+        throw new AppError('Los if-bets se liquidan automáticamente siguiendo su cadena', 400);
+      }
+      
       // Si el ticket ya está en el estado solicitado, no hacer nada
       if (ticket.status === status) {
         await client.query('ROLLBACK');
@@ -291,19 +310,19 @@ class TicketController {
           SET balance = balance + $1 
           WHERE id = $2
         `;
-        await client.query(updateBalanceQuery, [ticket.potential_payout, ticket.user_id]);
+        await client.query(updateBalanceQuery, [freeBetService.winningPayout(ticket), ticket.user_id]);
       }
       
-      // Si el ticket se cancela, devolver el stake al usuario
+      // Si el ticket se cancela, devolver el stake (o el token de apuesta gratuita) al usuario
       if (status === 'canceled') {
-        const updateBalanceQuery = `
-          UPDATE users 
-          SET balance = balance + $1 
-          WHERE id = $2
-        `;
-        await client.query(updateBalanceQuery, [ticket.stake_amount, ticket.user_id]);
+        await freeBetService.refundStake(client, ticket);
       }
       
+      // Los tickets ganados o perdidos cuentan para el rollover del bono activo, los referidos y los puntos
+      await bonusService.recordWager(client, { ...ticket, status });
+      await referralService.recordBet(client, { ...ticket, status });
+      await loyaltyService.recordSettledTicket(client, { ...ticket, status });
+      
       await client.query('COMMIT');
       
       res.status(200).json({
@@ -319,6 +338,29 @@ class TicketController {
     }
   }
   
+  // Anular una selección de un ticket y recalcular sus cuotas (solo admin)
+  async voidTicketItem(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const itemId = parseInt(req.params.itemId);
+
+      if (isNaN(itemId)) {
+        throw new AppError('ID de selección inválido', 400);
+      }
+
+      const settled = await settlementService.voidTicketItem(itemId);
+
+      res.status(200).json({
+        success: true,
+        message: settled
+          ? `Selección anulada, ticket resuelto como ${settled.status}`
+          : 'Selección anulada, cuotas del ticket recalculadas',
+        data: settled
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+  
   // Eliminar ticket (solo admin)
   async deleteTicket(req: Request, res: Response, next: NextFunction): Promise<void> {
     const client = await pool.connect();
@@ -338,19 +380,30 @@ class TicketController {
         throw new AppError('Ticket no encontrado', 404);
       }
       
+      // Las líneas de un sistema solo se eliminan junto con su ticket padre
+      if (ticket.parent_ticket_id) {
+        throw new AppError('Elimina el ticket de sistema completo, no una de sus líneas', 400);
+      }
+      
+      if (PARENT_TICKET_TYPES.includes(ticket.ticket_type!)) {
+        const settledLines = await client.query(
+          `SELECT COUNT(*) FROM tickets WHERE parent_ticket_id = $1 AND status <> 'pending'`,
+          [ticketId]
+        );
+        
+        if (parseInt(settledLines.rows[0].count, 10) > 0) {
+          throw new AppError('No se puede eliminar un ticket de sistema con líneas ya liquidadas', 400);
+        }
+      }
+      
       // Solo se pueden eliminar tickets pendientes o cancelados
       if (!['pending', 'canceled'].includes(ticket.status!)) {
         throw new AppError('Solo se pueden eliminar tickets pendientes o cancelados', 400);
       }
       
-      // Si el ticket está pendiente, devolver el stake al usuario
+      // Si el ticket está pendiente, devolver el stake (o el token de apuesta gratuita) al usuario
       if (ticket.status === 'pending') {
-        const updateBalanceQuery = `
-          UPDATE users 
-          SET balance = balance + $1 
-          WHERE id = $2
-        `;
-        await client.query(updateBalanceQuery, [ticket.stake_amount, ticket.user_id]);
+        await freeBetService.refundStake(client, ticket);
       }
       
       // Eliminar items del ticket
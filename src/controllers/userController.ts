@@ -4,6 +4,8 @@ import bcrypt from 'bcryptjs';
 import { UserModel } from '../models/user';
 import { BankDetailModel } from '../models/bankDetail';
 import { CryptoDetailModel } from '../models/cryptoDetail';
+import freeBetModel from '../models/freeBet';
+import loyaltyService from '../services/loyaltyService';
 import { AppError } from '../middlewares/errorHandler';
 import pool from '../config/database';
 
@@ -24,10 +26,16 @@ class UserController {
       
       // No devolver la contraseña
       const { password, ...userWithoutPassword } = user;
+      const freeBets = await freeBetModel.findByUserId(userId, 'available');
+      const loyalty = await loyaltyService.getStatus(userId);
       
       res.status(200).json({
         success: true,
-        data: userWithoutPassword
+        data: {
+          ...userWithoutPassword,
+          free_bets: freeBets,
+          loyalty
+        }
       });
     } catch (error) {
       next(error);
@@ -43,7 +51,7 @@ class UserController {
       }
       
       const userId = req.user!.id;
-      const { first_name, last_name, email, phone, country } = req.body;
+      const { first_name, last_name, email, phone, country, odds_format } = req.body;
       
       // Verificar que el correo no esté en uso por otro usuario
       if (email) {
@@ -58,7 +66,8 @@ class UserController {
         last_name,
         email,
         phone,
-        country
+        country,
+        odds_format
       });
       
       if (!updatedUser) {
@@ -0,0 +1,134 @@
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import vipTierModel from '../models/vipTier';
+import { AppError } from '../middlewares/errorHandler';
+
+class VipTierController {
+  // Niveles VIP con sus beneficios
+  async getTiers(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const tiers = await vipTierModel.getAll();
+
+      res.status(200).json({
+        success: true,
+        data: tiers
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Usuarios por nivel (solo admin)
+  async getDistribution(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const distribution = await vipTierModel.getDistribution();
+
+      res.status(200).json({
+        success: true,
+        data: distribution
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async createTier(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Datos de nivel VIP inválidos', 400);
+      }
+
+      const { name, min_points, cashback_percentage, limit_multiplier, withdrawal_priority, description } = req.body;
+
+      const tier = await vipTierModel.create({
+        name,
+        min_points,
+        cashback_percentage,
+        limit_multiplier,
+        withdrawal_priority,
+        description
+      });
+
+      // Los usuarios que ya superan el umbral pasan al nuevo nivel
+      await vipTierModel.reassignAll();
+
+      res.status(201).json({
+        success: true,
+        message: 'Nivel VIP creado exitosamente',
+        data: tier
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async updateTier(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Datos de nivel VIP inválidos', 400);
+      }
+
+      const tierId = parseInt(req.params.id);
+
+      if (isNaN(tierId)) {
+        throw new AppError('ID de nivel VIP inválido', 400);
+      }
+
+      const { name, min_points, cashback_percentage, limit_multiplier, withdrawal_priority, description } = req.body;
+
+      const updatedTier = await vipTierModel.update(tierId, {
+        name,
+        min_points,
+        cashback_percentage,
+        limit_multiplier,
+        withdrawal_priority,
+        description
+      });
+
+      if (!updatedTier) {
+        throw new AppError('Nivel VIP no encontrado', 404);
+      }
+
+      if (min_points !== undefined) {
+        await vipTierModel.reassignAll();
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Nivel VIP actualizado exitosamente',
+        data: updatedTier
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async deleteTier(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const tierId = parseInt(req.params.id);
+
+      if (isNaN(tierId)) {
+        throw new AppError('ID de nivel VIP inválido', 400);
+      }
+
+      const deleted = await vipTierModel.delete(tierId);
+
+      if (!deleted) {
+        throw new AppError('Nivel VIP no encontrado', 404);
+      }
+
+      await vipTierModel.reassignAll();
+
+      res.status(200).json({
+        success: true,
+        message: 'Nivel VIP eliminado exitosamente'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new VipTierController();
@@ -5,6 +5,7 @@ import { AppError } from '../middlewares/errorHandler';
 import { UserModel } from '../models/user';
 import { BankDetailModel } from '../models/bankDetail';
 import { CryptoDetailModel } from '../models/cryptoDetail';
+import bonusService from '../services/bonusService';
 
 const userModel = new UserModel();
 const bankDetailModel = new BankDetailModel();
@@ -36,6 +37,15 @@ class WithdrawalController {
         throw new AppError('Saldo insuficiente para realizar el retiro', 400);
       }
       
+      // Los depósitos con un bono activo quedan bloqueados hasta completar el rollover
+      const withdrawable = await bonusService.getWithdrawableBalance(client, userId);
+      if (withdrawable < amount) {
+        throw new AppError(
+          `Solo puedes retirar ${withdrawable}: el resto está bloqueado por un bono activo pendiente de rollover`,
+          400
+        );
+      }
+      
       // Validar método de retiro y detalles correspondientes
       if (method === 'mobile_payment') {
         if (!bank_detail_id) {
@@ -145,10 +155,12 @@ class WithdrawalController {
       let query = `
         SELECT w.*, 
                u.username, u.email,
+               vt.name as vip_tier, COALESCE(vt.withdrawal_priority, 0) as withdrawal_priority,
                bd.bank_name, bd.account_number, bd.registered_phone,
                cd.wallet_address, cd.network
         FROM withdrawals w
         JOIN users u ON w.user_id = u.id
+        LEFT JOIN vip_tiers vt ON u.vip_tier_id = vt.id
         LEFT JOIN bank_details bd ON w.bank_detail_id = bd.id
         LEFT JOIN crypto_details cd ON w.crypto_detail_id = cd.id
         WHERE 1=1
@@ -168,8 +180,11 @@ class WithdrawalController {
       const countResult = await pool.query(countQuery, queryParams);
       const total = parseInt(countResult.rows[0].count, 10);
       
-      // Añadir ordenamiento y paginación
-      query += ` ORDER BY w.created_at DESC LIMIT $${paramCounter++} OFFSET $${paramCounter++}`;
+      // Añadir ordenamiento y paginación (los pendientes de niveles VIP con prioridad primero)
+      const orderBy = status === 'pending'
+        ? 'COALESCE(vt.withdrawal_priority, 0) DESC, w.created_at DESC'
+        : 'w.created_at DESC';
+      query += ` ORDER BY ${orderBy} LIMIT $${paramCounter++} OFFSET $${paramCounter++}`;
       queryParams.push(limit, offset);
       
       const result = await pool.query(query, queryParams);
@@ -1,11 +1,26 @@
 import app from './app';
 import dotenv from 'dotenv';
+import inPlayService from './services/inPlayService';
 
 dotenv.config();
 
 const PORT = process.env.PORT || 5000;
+// Frecuencia con la que se resuelven las apuestas en vivo en espera de aceptación (0 la desactiva).
+// Solo sirve con un proceso de larga duración: en Vercel no se arranca y los tickets los resuelve
+// la cron de /api/cron/in-play-acceptance y la consulta GET /bets/:id/acceptance.
+const ACCEPTANCE_INTERVAL_MS = process.env.VERCEL
+  ? 0
+  : parseInt(process.env.INPLAY_ACCEPTANCE_INTERVAL_MS || '1000', 10);
 
 app.listen(PORT, () => {
   console.log(`Servidor ejecutándose en el puerto ${PORT}`);
   console.log(`API disponible en http://localhost:${PORT}/api`);
+
+  if (ACCEPTANCE_INTERVAL_MS > 0) {
+    setInterval(() => {
+      inPlayService.processDueTickets().catch(error => {
+        console.error('Error procesando apuestas en vivo pendientes:', error);
+      });
+    }, ACCEPTANCE_INTERVAL_MS);
+  }
 });
\ No newline at end of file
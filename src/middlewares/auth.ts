@@ -5,6 +5,8 @@ import dotenv from 'dotenv';
 dotenv.config();
 
 const JWT_SECRET = process.env.JWT_SECRET || 'oracle-sport-secret-key';
+// Secreto que envía el planificador de tareas (cron de Vercel) en la cabecera Authorization
+const CRON_SECRET = process.env.CRON_SECRET || '';
 
 interface TokenPayload {
   id: number;
@@ -66,6 +68,19 @@ export const authorizeAdmin = (req: Request, res: Response, next: NextFunction):
   next(); // Continuar al siguiente middleware
 };
 
+// Tareas programadas: requieren "Bearer <CRON_SECRET>"; sin secreto configurado se rechazan
+export const authorizeCron = (req: Request, res: Response, next: NextFunction): void => {
+  if (!CRON_SECRET || req.headers['authorization'] !== `Bearer ${CRON_SECRET}`) {
+    res.status(401).json({ 
+      success: false, 
+      message: 'Acceso denegado. Tarea programada no autorizada.' 
+    });
+    return;
+  }
+
+  next();
+};
+
 // Middleware opcional para autenticación (no requiere token)
 export const optionalAuth = (req: Request, res: Response, next: NextFunction): void => {
   const authHeader = req.headers['authorization'];
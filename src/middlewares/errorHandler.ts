@@ -3,11 +3,14 @@ import { Request, Response, NextFunction, ErrorRequestHandler } from 'express';
 export class AppError extends Error {
   statusCode: number;
   isOperational: boolean;
+  // Información estructurada adicional para el cliente (p. ej. cuotas que cambiaron)
+  details?: any;
 
-  constructor(message: string, statusCode: number) {
+  constructor(message: string, statusCode: number, details?: any) {
     super(message);
     this.statusCode = statusCode;
     this.isOperational = true;
+    this.details = details;
 
     Error.captureStackTrace(this, this.constructor);
   }
@@ -24,6 +27,7 @@ export const errorHandler: ErrorRequestHandler = (
     res.status(err.statusCode).json({
       success: false,
       message: err.message,
+      ...(err.details !== undefined && { details: err.details }),
     });
   } else {
     console.error('Error no controlado:', err);
@@ -0,0 +1,51 @@
+import { Request, Response, NextFunction } from 'express';
+import pool from '../config/database';
+import { DEFAULT_ODDS_FORMAT, isOddsFormat, OddsFormat } from '../utils/oddsFormat';
+
+// Extender la interfaz Request con el formato de cuotas de la petición
+declare global {
+  namespace Express {
+    interface Request {
+      oddsFormat?: OddsFormat;
+    }
+  }
+}
+
+// Resolver el formato de cuotas: parámetro odds_format de la petición,
+// preferencia del usuario autenticado o formato por defecto
+export const resolveOddsFormat = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const requested = req.query.odds_format;
+
+  if (requested !== undefined) {
+    if (!isOddsFormat(requested)) {
+      res.status(400).json({
+        success: false,
+        message: 'Formato de cuotas inválido'
+      });
+      return;
+    }
+
+    req.oddsFormat = requested;
+    next();
+    return;
+  }
+
+  req.oddsFormat = DEFAULT_ODDS_FORMAT;
+
+  if (!req.user) {
+    next();
+    return;
+  }
+
+  try {
+    const result = await pool.query('SELECT odds_format FROM users WHERE id = $1', [req.user.id]);
+
+    if (result.rows.length && isOddsFormat(result.rows[0].odds_format)) {
+      req.oddsFormat = result.rows[0].odds_format;
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,153 @@
+import { Pool, QueryResult } from 'pg';
+import pool from '../config/database';
+
+export type BetLimitScope = 'global' | 'sport' | 'competition' | 'event' | 'market' | 'user';
+
+// De menos a más específico: el límite más específico prevalece
+export const BET_LIMIT_SCOPES: BetLimitScope[] = ['global', 'sport', 'competition', 'event', 'market', 'user'];
+
+export interface BetLimit {
+  id?: number;
+  scope: BetLimitScope;
+  scope_id?: number | null;
+  market_type?: string | null;
+  min_stake?: string | null;
+  max_stake?: string | null;
+  max_payout?: string | null;
+  max_event_stake?: string | null;
+  active?: boolean;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export class BetLimitModel {
+  private db: Pool;
+
+  constructor() {
+    this.db = pool;
+  }
+
+  async create(limit: BetLimit): Promise<BetLimit> {
+    const query = `
+      INSERT INTO bet_limits
+        (scope, scope_id, market_type, min_stake, max_stake, max_payout, max_event_stake, active)
+      VALUES
+        ($1, $2, $3, $4, $5, $6, $7, $8)
+      RETURNING *
+    `;
+
+    const values = [
+      limit.scope,
+      limit.scope_id ?? null,
+      limit.market_type ?? null,
+      limit.min_stake ?? null,
+      limit.max_stake ?? null,
+      limit.max_payout ?? null,
+      limit.max_event_stake ?? null,
+      limit.active !== undefined ? limit.active : true
+    ];
+
+    const result: QueryResult = await this.db.query(query, values);
+    return result.rows[0];
+  }
+
+  async findById(id: number): Promise<BetLimit | null> {
+    const query = 'SELECT * FROM bet_limits WHERE id = $1';
+    const result: QueryResult = await this.db.query(query, [id]);
+
+    return result.rows.length ? result.rows[0] : null;
+  }
+
+  async getAll(filters?: { scope?: string; scope_id?: number }): Promise<BetLimit[]> {
+    let whereClause = 'WHERE 1=1';
+    const queryParams: any[] = [];
+    let paramCounter = 1;
+
+    if (filters?.scope) {
+      whereClause += ` AND scope = $${paramCounter++}`;
+      queryParams.push(filters.scope);
+    }
+
+    if (filters?.scope_id) {
+      whereClause += ` AND scope_id = $${paramCounter++}`;
+      queryParams.push(filters.scope_id);
+    }
+
+    const query = `
+      SELECT * FROM bet_limits
+      ${whereClause}
+      ORDER BY scope, scope_id NULLS FIRST, market_type NULLS FIRST
+    `;
+
+    const result: QueryResult = await this.db.query(query, queryParams);
+    return result.rows;
+  }
+
+  // Límites activos que aplican a una selección de un usuario. Un market_type en cualquier nivel
+  // restringe el límite a ese mercado; los de nivel market son los de un mercado de un evento.
+  async findApplicable(
+    userId: number,
+    target: { sport_id: number; competition_id: number; event_id: number; market_type: string }
+  ): Promise<BetLimit[]> {
+    const query = `
+      SELECT * FROM bet_limits
+      WHERE active = true
+        AND (market_type IS NULL OR market_type = $4)
+        AND (
+          scope = 'global' OR
+          (scope = 'sport' AND scope_id = $1) OR
+          (scope = 'competition' AND scope_id = $2) OR
+          (scope IN ('event', 'market') AND scope_id = $3) OR
+          (scope = 'user' AND scope_id = $5)
+        )
+    `;
+
+    const values = [target.sport_id, target.competition_id, target.event_id, target.market_type, userId];
+
+    const result: QueryResult = await this.db.query(query, values);
+    return result.rows;
+  }
+
+  async update(id: number, limitData: Partial<BetLimit>): Promise<BetLimit | null> {
+    const fields: (keyof BetLimit)[] = [
+      'scope', 'scope_id', 'market_type', 'min_stake', 'max_stake', 'max_payout', 'max_event_stake', 'active'
+    ];
+
+    const queryParts: string[] = [];
+    const values: any[] = [];
+    let paramCounter = 1;
+
+    for (const field of fields) {
+      if (limitData[field] !== undefined) {
+        queryParts.push(`${field} = $${paramCounter++}`);
+        values.push(limitData[field]);
+      }
+    }
+
+    if (queryParts.length === 0) {
+      return this.findById(id);
+    }
+
+    queryParts.push('updated_at = NOW()');
+    values.push(id);
+
+    const query = `
+      UPDATE bet_limits
+      SET ${queryParts.join(', ')}
+      WHERE id = $${paramCounter}
+      RETURNING *
+    `;
+
+    const result: QueryResult = await this.db.query(query, values);
+    return result.rows.length ? result.rows[0] : null;
+  }
+
+  async delete(id: number): Promise<boolean> {
+    const query = 'DELETE FROM bet_limits WHERE id = $1 RETURNING id';
+    const result: QueryResult = await this.db.query(query, [id]);
+
+    return result.rows.length > 0;
+  }
+}
+
+export default new BetLimitModel();
@@ -0,0 +1,157 @@
+import { Pool, PoolClient, QueryResult } from 'pg';
+import pool from '../config/database';
+
+// Boleto en preparación de un usuario, compartido entre dispositivos
+export interface BetSlip {
+  id?: number;
+  user_id: number;
+  stake_amount?: string | null;
+  system_type?: string | null;
+  bet_builder?: boolean;
+  // Código de reserva cargado en el boleto
+  booking_code_id?: number | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+// Selección del boleto. Guarda los datos del mercado porque la sincronización
+// de cuotas puede borrar la fila de odds referenciada.
+export interface BetSlipSelection {
+  id?: number;
+  slip_id: number;
+  odds_id: number;
+  event_id: number;
+  market_type: string;
+  outcome_name: string;
+  handicap?: number | null;
+  total?: number | null;
+  // Cuota decimal aceptada por el usuario
+  seen_odds: string;
+  created_at?: Date;
+}
+
+export interface NewBetSlipSelection extends Omit<BetSlipSelection, 'seen_odds'> {
+  seen_odds: number;
+}
+
+export class BetSlipModel {
+  private db: Pool;
+
+  constructor() {
+    this.db = pool;
+  }
+
+  async findByUserId(userId: number): Promise<BetSlip | null> {
+    const query = 'SELECT * FROM bet_slips WHERE user_id = $1';
+    const result: QueryResult = await this.db.query(query, [userId]);
+
+    return result.rows.length ? result.rows[0] : null;
+  }
+
+  // Bloquear el boleto dentro de una transacción para colocarlo una sola vez
+  async lockByUserId(client: PoolClient, userId: number): Promise<BetSlip | null> {
+    const query = 'SELECT * FROM bet_slips WHERE user_id = $1 FOR UPDATE';
+    const result: QueryResult = await client.query(query, [userId]);
+
+    return result.rows.length ? result.rows[0] : null;
+  }
+
+  // Obtener el boleto del usuario, creándolo vacío si aún no existe
+  async findOrCreate(userId: number): Promise<BetSlip> {
+    const query = `
+      INSERT INTO bet_slips (user_id)
+      VALUES ($1)
+      ON CONFLICT (user_id) DO UPDATE SET user_id = EXCLUDED.user_id
+      RETURNING *
+    `;
+
+    const result: QueryResult = await this.db.query(query, [userId]);
+    return result.rows[0];
+  }
+
+  async update(id: number, slipData: Partial<BetSlip>): Promise<BetSlip | null> {
+    const fields: (keyof BetSlip)[] = ['stake_amount', 'system_type', 'bet_builder', 'booking_code_id'];
+
+    const queryParts: string[] = [];
+    const values: any[] = [];
+    let paramCounter = 1;
+
+    for (const field of fields) {
+      if (slipData[field] !== undefined) {
+        queryParts.push(`${field} = $${paramCounter++}`);
+        values.push(slipData[field]);
+      }
+    }
+
+    queryParts.push('updated_at = NOW()');
+    values.push(id);
+
+    const query = `
+      UPDATE bet_slips
+      SET ${queryParts.join(', ')}
+      WHERE id = $${paramCounter}
+      RETURNING *
+    `;
+
+    const result: QueryResult = await this.db.query(query, values);
+    return result.rows.length ? result.rows[0] : null;
+  }
+
+  async getSelections(slipId: number, client: Pool | PoolClient = this.db): Promise<BetSlipSelection[]> {
+    const query = 'SELECT * FROM bet_slip_selections WHERE slip_id = $1 ORDER BY created_at, id';
+    const result: QueryResult = await client.query(query, [slipId]);
+
+    return result.rows;
+  }
+
+  // Añadir una selección; si ya estaba, se actualiza la cuota aceptada
+  async addSelection(selection: NewBetSlipSelection): Promise<BetSlipSelection> {
+    const query = `
+      INSERT INTO bet_slip_selections
+        (slip_id, odds_id, event_id, market_type, outcome_name, handicap, total, seen_odds)
+      VALUES
+        ($1, $2, $3, $4, $5, $6, $7, $8)
+      ON CONFLICT (slip_id, odds_id) DO UPDATE SET seen_odds = EXCLUDED.seen_odds
+      RETURNING *
+    `;
+
+    const values = [
+      selection.slip_id,
+      selection.odds_id,
+      selection.event_id,
+      selection.market_type,
+      selection.outcome_name,
+      selection.handicap ?? null,
+      selection.total ?? null,
+      selection.seen_odds
+    ];
+
+    const result: QueryResult = await this.db.query(query, values);
+    return result.rows[0];
+  }
+
+  async removeSelection(slipId: number, oddsId: number): Promise<boolean> {
+    const query = 'DELETE FROM bet_slip_selections WHERE slip_id = $1 AND odds_id = $2 RETURNING id';
+    const result: QueryResult = await this.db.query(query, [slipId, oddsId]);
+
+    return result.rows.length > 0;
+  }
+
+  async updateSeenOdds(selectionId: number, seenOdds: number): Promise<void> {
+    await this.db.query(
+      'UPDATE bet_slip_selections SET seen_odds = $1 WHERE id = $2',
+      [seenOdds, selectionId]
+    );
+  }
+
+  // Vaciar el boleto; acepta el cliente de una transacción para hacerlo al colocar la apuesta
+  async clear(slipId: number, client: Pool | PoolClient = this.db): Promise<void> {
+    await client.query('DELETE FROM bet_slip_selections WHERE slip_id = $1', [slipId]);
+    await client.query(
+      'UPDATE bet_slips SET stake_amount = NULL, system_type = NULL, bet_builder = false, booking_code_id = NULL, updated_at = NOW() WHERE id = $1',
+      [slipId]
+    );
+  }
+}
+
+export default new BetSlipModel();
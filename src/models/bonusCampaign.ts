@@ -0,0 +1,134 @@
+import { Pool, QueryResult } from 'pg';
+import pool from '../config/database';
+
+// Campaña de bono por depósito: porcentaje del depósito hasta un máximo,
+// liberado al saldo cuando se apuesta rollover_multiplier veces el bono
+export interface BonusCampaign {
+  id?: number;
+  name: string;
+  match_percentage: string;
+  max_bonus: string;
+  min_deposit: string;
+  rollover_multiplier: string;
+  // Cuota total mínima para que un ticket cuente para el rollover
+  min_odds?: string | null;
+  // Días para completar el rollover desde que se acredita el bono
+  validity_days: number;
+  starts_at?: Date | null;
+  ends_at?: Date | null;
+  active?: boolean;
+  description?: string | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+// Condición de campaña disponible para nuevos depósitos
+const AVAILABLE_CAMPAIGN_CONDITION = `
+  active = true
+  AND (starts_at IS NULL OR starts_at <= NOW())
+  AND (ends_at IS NULL OR ends_at > NOW())
+`;
+
+export class BonusCampaignModel {
+  private db: Pool;
+
+  constructor() {
+    this.db = pool;
+  }
+
+  async create(campaign: BonusCampaign): Promise<BonusCampaign> {
+    const query = `
+      INSERT INTO bonus_campaigns
+        (name, match_percentage, max_bonus, min_deposit, rollover_multiplier, min_odds,
+         validity_days, starts_at, ends_at, active, description)
+      VALUES
+        ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+      RETURNING *
+    `;
+
+    const values = [
+      campaign.name,
+      campaign.match_percentage,
+      campaign.max_bonus,
+      campaign.min_deposit,
+      campaign.rollover_multiplier,
+      campaign.min_odds ?? null,
+      campaign.validity_days,
+      campaign.starts_at ?? null,
+      campaign.ends_at ?? null,
+      campaign.active ?? true,
+      campaign.description ?? null
+    ];
+
+    const result: QueryResult = await this.db.query(query, values);
+    return result.rows[0];
+  }
+
+  async findById(id: number): Promise<BonusCampaign | null> {
+    const query = 'SELECT * FROM bonus_campaigns WHERE id = $1';
+    const result: QueryResult = await this.db.query(query, [id]);
+
+    return result.rows.length ? result.rows[0] : null;
+  }
+
+  // Campaña por ID solo si admite depósitos en este momento
+  async findAvailableById(id: number): Promise<BonusCampaign | null> {
+    const query = `SELECT * FROM bonus_campaigns WHERE id = $1 AND ${AVAILABLE_CAMPAIGN_CONDITION}`;
+    const result: QueryResult = await this.db.query(query, [id]);
+
+    return result.rows.length ? result.rows[0] : null;
+  }
+
+  async getAll(availableOnly: boolean = false): Promise<BonusCampaign[]> {
+    const query = availableOnly
+      ? `SELECT * FROM bonus_campaigns WHERE ${AVAILABLE_CAMPAIGN_CONDITION} ORDER BY id`
+      : 'SELECT * FROM bonus_campaigns ORDER BY created_at DESC';
+
+    const result: QueryResult = await this.db.query(query);
+    return result.rows;
+  }
+
+  async update(id: number, campaignData: Partial<BonusCampaign>): Promise<BonusCampaign | null> {
+    const fields: (keyof BonusCampaign)[] = [
+      'name', 'match_percentage', 'max_bonus', 'min_deposit', 'rollover_multiplier', 'min_odds',
+      'validity_days', 'starts_at', 'ends_at', 'active', 'description'
+    ];
+
+    const queryParts: string[] = [];
+    const values: any[] = [];
+    let paramCounter = 1;
+
+    for (const field of fields) {
+      if (campaignData[field] !== undefined) {
+        queryParts.push(`${field} = $${paramCounter++}`);
+        values.push(campaignData[field]);
+      }
+    }
+
+    if (queryParts.length === 0) {
+      return this.findById(id);
+    }
+
+    queryParts.push('updated_at = NOW()');
+    values.push(id);
+
+    const query = `
+      UPDATE bonus_campaigns
+      SET ${queryParts.join(', ')}
+      WHERE id = $${paramCounter}
+      RETURNING *
+    `;
+
+    const result: QueryResult = await this.db.query(query, values);
+    return result.rows.length ? result.rows[0] : null;
+  }
+
+  async delete(id: number): Promise<boolean> {
+    const query = 'DELETE FROM bonus_campaigns WHERE id = $1 RETURNING id';
+    const result: QueryResult = await this.db.query(query, [id]);
+
+    return result.rows.length > 0;
+  }
+}
+
+export default new BonusCampaignModel();
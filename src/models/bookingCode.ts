@@ -0,0 +1,132 @@
+import { Pool, PoolClient, QueryResult } from 'pg';
+import pool from '../config/database';
+
+// Código compartible de un boleto. Caduca al cerrarse las apuestas del primer evento.
+export interface BookingCode {
+  id?: number;
+  code: string;
+  user_id?: number | null;
+  expires_at: Date;
+  loads_count?: number;
+  created_at?: Date;
+}
+
+// Selección guardada con los datos del mercado para poder recotizarla
+// aunque la sincronización haya reemplazado la fila de odds
+export interface BookingCodeSelection {
+  id?: number;
+  booking_code_id?: number;
+  odds_id: number;
+  event_id: number;
+  market_type: string;
+  outcome_name: string;
+  handicap?: number | null;
+  total?: number | null;
+}
+
+export class BookingCodeModel {
+  private db: Pool;
+
+  constructor() {
+    this.db = pool;
+  }
+
+  // Crear el código con sus selecciones dentro de la transacción del cliente
+  async create(client: PoolClient, bookingCode: BookingCode, selections: BookingCodeSelection[]): Promise<BookingCode> {
+    const result: QueryResult = await client.query(
+      `INSERT INTO booking_codes (code, user_id, expires_at)
+       VALUES ($1, $2, $3)
+       RETURNING *`,
+      [bookingCode.code, bookingCode.user_id ?? null, bookingCode.expires_at]
+    );
+
+    const created = result.rows[0];
+
+    for (const selection of selections) {
+      await client.query(
+        `INSERT INTO booking_code_selections
+           (booking_code_id, odds_id, event_id, market_type, outcome_name, handicap, total)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+        [
+          created.id,
+          selection.odds_id,
+          selection.event_id,
+          selection.market_type,
+          selection.outcome_name,
+          selection.handicap ?? null,
+          selection.total ?? null
+        ]
+      );
+    }
+
+    return created;
+  }
+
+  async findByCode(code: string): Promise<BookingCode | null> {
+    const query = 'SELECT * FROM booking_codes WHERE code = $1';
+    const result: QueryResult = await this.db.query(query, [code.toUpperCase()]);
+
+    return result.rows.length ? result.rows[0] : null;
+  }
+
+  async getSelections(bookingCodeId: number): Promise<BookingCodeSelection[]> {
+    const query = 'SELECT * FROM booking_code_selections WHERE booking_code_id = $1 ORDER BY id';
+    const result: QueryResult = await this.db.query(query, [bookingCodeId]);
+
+    return result.rows;
+  }
+
+  // Si el código sigue vigente y alguna de las cuotas corresponde a una de sus selecciones
+  // (mismo evento, mercado, resultado y línea, aunque la sincronización haya reemplazado la fila)
+  async matchesSelections(client: PoolClient, bookingCodeId: number, oddsIds: number[]): Promise<boolean> {
+    const result: QueryResult = await client.query(
+      `SELECT 1
+       FROM booking_codes bc
+       JOIN booking_code_selections s ON s.booking_code_id = bc.id
+       JOIN odds o ON o.event_id = s.event_id AND o.market_type = s.market_type
+         AND o.outcome_name = s.outcome_name
+         AND o.handicap IS NOT DISTINCT FROM s.handicap AND o.total IS NOT DISTINCT FROM s.total
+       WHERE bc.id = $1 AND bc.expires_at > NOW() AND o.id = ANY($2::int[])
+       LIMIT 1`,
+      [bookingCodeId, oddsIds]
+    );
+
+    return result.rows.length > 0;
+  }
+
+  async incrementLoads(id: number): Promise<void> {
+    await this.db.query('UPDATE booking_codes SET loads_count = loads_count + 1 WHERE id = $1', [id]);
+  }
+
+  // Cargas, tickets y stake por código (solo tickets principales)
+  async getStatistics(page: number = 1, limit: number = 20): Promise<{ codes: any[], total: number }> {
+    const offset = (page - 1) * limit;
+
+    const countResult: QueryResult = await this.db.query('SELECT COUNT(*) FROM booking_codes');
+    const total = parseInt(countResult.rows[0].count, 10);
+
+    const query = `
+      SELECT bc.id, bc.code, bc.created_at, bc.expires_at, bc.loads_count,
+             u.username as created_by,
+             (SELECT COUNT(*) FROM booking_code_selections s WHERE s.booking_code_id = bc.id) as selections_count,
+             COUNT(t.id) as tickets_count,
+             COUNT(DISTINCT t.user_id) as bettors_count,
+             COALESCE(SUM(t.stake_amount), 0) as total_stake
+      FROM booking_codes bc
+      LEFT JOIN users u ON bc.user_id = u.id
+      LEFT JOIN tickets t ON t.booking_code_id = bc.id AND t.parent_ticket_id IS NULL
+      GROUP BY bc.id, u.username
+      ORDER BY tickets_count DESC, bc.created_at DESC
+      LIMIT $1 OFFSET $2
+    `;
+
+    const result: QueryResult = await this.db.query(query, [limit, offset]);
+
+    return {
+      codes: result.rows,
+      total
+    };
+  }
+}
+
+export default new BookingCodeModel();
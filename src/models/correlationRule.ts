@@ -0,0 +1,121 @@
+import { Pool, QueryResult } from 'pg';
+import pool from '../config/database';
+
+// Combinación de dos selecciones del mismo evento aprobada por el negocio.
+// outcome_* nulo admite cualquier resultado del mercado; sport_id nulo aplica a todos los deportes.
+// price_factor ajusta el producto de las dos cuotas al cotizar un bet builder.
+export interface CorrelationRule {
+  id?: number;
+  sport_id?: number | null;
+  market_a: string;
+  outcome_a?: string | null;
+  market_b: string;
+  outcome_b?: string | null;
+  description?: string | null;
+  price_factor?: string;
+  active?: boolean;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export class CorrelationRuleModel {
+  private db: Pool;
+
+  constructor() {
+    this.db = pool;
+  }
+
+  async create(rule: CorrelationRule): Promise<CorrelationRule> {
+    const query = `
+      INSERT INTO correlation_rules
+        (sport_id, market_a, outcome_a, market_b, outcome_b, description, price_factor, active)
+      VALUES
+        ($1, $2, $3, $4, $5, $6, $7, $8)
+      RETURNING *
+    `;
+
+    const values = [
+      rule.sport_id ?? null,
+      rule.market_a,
+      rule.outcome_a ?? null,
+      rule.market_b,
+      rule.outcome_b ?? null,
+      rule.description ?? null,
+      rule.price_factor ?? 1,
+      rule.active !== undefined ? rule.active : true
+    ];
+
+    const result: QueryResult = await this.db.query(query, values);
+    return result.rows[0];
+  }
+
+  async findById(id: number): Promise<CorrelationRule | null> {
+    const query = 'SELECT * FROM correlation_rules WHERE id = $1';
+    const result: QueryResult = await this.db.query(query, [id]);
+
+    return result.rows.length ? result.rows[0] : null;
+  }
+
+  async getAll(sportId?: number): Promise<CorrelationRule[]> {
+    const query = sportId
+      ? 'SELECT * FROM correlation_rules WHERE sport_id = $1 OR sport_id IS NULL ORDER BY id'
+      : 'SELECT * FROM correlation_rules ORDER BY id';
+
+    const result: QueryResult = await this.db.query(query, sportId ? [sportId] : []);
+    return result.rows;
+  }
+
+  // Reglas activas que aplican a un deporte
+  async findActiveBySport(sportId: number): Promise<CorrelationRule[]> {
+    const query = `
+      SELECT * FROM correlation_rules
+      WHERE active = true AND (sport_id = $1 OR sport_id IS NULL)
+    `;
+
+    const result: QueryResult = await this.db.query(query, [sportId]);
+    return result.rows;
+  }
+
+  async update(id: number, ruleData: Partial<CorrelationRule>): Promise<CorrelationRule | null> {
+    const fields: (keyof CorrelationRule)[] = [
+      'sport_id', 'market_a', 'outcome_a', 'market_b', 'outcome_b', 'description', 'price_factor', 'active'
+    ];
+
+    const queryParts: string[] = [];
+    const values: any[] = [];
+    let paramCounter = 1;
+
+    for (const field of fields) {
+      if (ruleData[field] !== undefined) {
+        queryParts.push(`${field} = $${paramCounter++}`);
+        values.push(ruleData[field]);
+      }
+    }
+
+    if (queryParts.length === 0) {
+      return this.findById(id);
+    }
+
+    queryParts.push('updated_at = NOW()');
+    values.push(id);
+
+    const query = `
+      UPDATE correlation_rules
+      SET ${queryParts.join(', ')}
+      WHERE id = $${paramCounter}
+      RETURNING *
+    `;
+
+    const result: QueryResult = await this.db.query(query, values);
+    return result.rows.length ? result.rows[0] : null;
+  }
+
+  async delete(id: number): Promise<boolean> {
+    const query = 'DELETE FROM correlation_rules WHERE id = $1 RETURNING id';
+    const result: QueryResult = await this.db.query(query, [id]);
+
+    return result.rows.length > 0;
+  }
+}
+
+export default new CorrelationRuleModel();
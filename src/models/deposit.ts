@@ -10,6 +10,8 @@ export interface Deposit {
   transaction_hash?: string;
   status?: 'pending' | 'completed' | 'rejected';
   deposit_date: Date;
+  // Campaña de bono elegida por el usuario; se acredita al completarse
+  bonus_campaign_id?: number | null;
   created_at?: Date;
   updated_at?: Date;
 }
@@ -31,9 +33,9 @@ export class DepositModel {
   async create(deposit: Deposit): Promise<Deposit> {
     const query = `
       INSERT INTO deposits 
-        (user_id, amount, method, reference_number, transaction_hash, status, deposit_date)
+        (user_id, amount, method, reference_number, transaction_hash, status, deposit_date, bonus_campaign_id)
       VALUES 
-        ($1, $2, $3, $4, $5, $6, $7)
+        ($1, $2, $3, $4, $5, $6, $7, $8)
       RETURNING *
     `;
     
@@ -44,7 +46,8 @@ export class DepositModel {
       deposit.reference_number || null,
       deposit.transaction_hash || null,
       deposit.status || 'pending',
-      deposit.deposit_date
+      deposit.deposit_date,
+      deposit.bonus_campaign_id ?? null
     ];
     
     const result: QueryResult = await this.db.query(query, values);
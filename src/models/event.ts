@@ -1,14 +1,26 @@
 import { Pool, QueryResult } from 'pg';
 import pool from '../config/database';
+import { DEFAULT_ODDS_FORMAT, formatOdds, OddsFormat } from '../utils/oddsFormat';
+
+// Partido entre dos equipos o mercado de ganador de una competición sin equipos
+export type EventType = 'match' | 'outright';
 
 export interface Event {
   id?: number;
   competition_id: number;
   api_event_id?: string;
-  home_team: string;
-  away_team: string;
+  event_type?: EventType;
+  // Título de un outright ("Ganador de La Liga")
+  name?: string | null;
+  home_team: string | null;
+  away_team: string | null;
   commence_time: Date;
+  // Cierre de apuestas de un outright; si falta se usa commence_time
+  betting_closes_at?: Date | null;
   status?: 'upcoming' | 'live' | 'completed' | 'postponed' | 'canceled';
+  result?: 'home' | 'away' | 'draw' | null;
+  score_home?: number | null;
+  score_away?: number | null;
   created_at?: Date;
   updated_at?: Date;
 }
@@ -24,7 +36,9 @@ export interface EventOdds {
   id: number;
   market_type: string;
   outcome_name: string;
-  price: number;
+  price: number | string;
+  decimal_price?: number;
+  odds_format?: OddsFormat;
   handicap?: number;
   total?: number;
 }
@@ -57,18 +71,21 @@ export class EventModel {
   async create(event: Event): Promise<Event> {
     const query = `
       INSERT INTO events 
-        (competition_id, api_event_id, home_team, away_team, commence_time, status)
+        (competition_id, api_event_id, event_type, name, home_team, away_team, commence_time, betting_closes_at, status)
       VALUES 
-        ($1, $2, $3, $4, $5, $6)
+        ($1, $2, $3, $4, $5, $6, $7, $8, $9)
       RETURNING *
     `;
     
     const values = [
       event.competition_id,
       event.api_event_id,
+      event.event_type || 'match',
+      event.name ?? null,
       event.home_team,
       event.away_team,
       event.commence_time,
+      event.betting_closes_at ?? null,
       event.status || 'upcoming'
     ];
     
@@ -83,7 +100,15 @@ export class EventModel {
     return result.rows.length ? result.rows[0] : null;
   }
 
-  async findByIdWithDetails(id: number): Promise<EventWithDetails | null> {
+  // Las cuotas se almacenan en formato americano; se devuelven en el formato pedido junto a su valor decimal
+  private formatEventOdds<T extends { odds?: EventOdds[] | null }>(event: T, oddsFormat: OddsFormat): T {
+    return {
+      ...event,
+      odds: event.odds ? event.odds.map(odds => formatOdds(odds, oddsFormat)) : event.odds
+    };
+  }
+
+  async findByIdWithDetails(id: number, oddsFormat: OddsFormat = DEFAULT_ODDS_FORMAT): Promise<EventWithDetails | null> {
     const query = `
       SELECT e.*, 
              json_build_object(
@@ -108,20 +133,24 @@ export class EventModel {
                  'total', o.total
                )
              ) FILTER (WHERE o.id IS NOT NULL) as odds,
-             COUNT(DISTINCT ti.ticket_id) as tickets_count,
-             COALESCE(SUM(DISTINCT t.stake_amount), 0) as total_stake
+             (
+               SELECT COUNT(*) FROM tickets t
+               WHERE t.id IN (SELECT ti.ticket_id FROM ticket_items ti WHERE ti.event_id = e.id)
+             ) as tickets_count,
+             (
+               SELECT COALESCE(SUM(t.stake_amount), 0) FROM tickets t
+               WHERE t.id IN (SELECT ti.ticket_id FROM ticket_items ti WHERE ti.event_id = e.id)
+             ) as total_stake
       FROM events e
       JOIN competitions c ON e.competition_id = c.id
       JOIN sports s ON c.sport_id = s.id
       LEFT JOIN odds o ON e.id = o.event_id
-      LEFT JOIN ticket_items ti ON e.id = ti.event_id
-      LEFT JOIN tickets t ON ti.ticket_id = t.id
       WHERE e.id = $1
       GROUP BY e.id, c.id, c.name, c.country, c.sport_id, s.id, s.name, s.api_sport_key, s.group_name
     `;
     
     const result: QueryResult = await this.db.query(query, [id]);
-    return result.rows.length ? result.rows[0] : null;
+    return result.rows.length ? this.formatEventOdds(result.rows[0], oddsFormat) : null;
   }
 
   async findByApiId(apiEventId: string): Promise<Event | null> {
@@ -177,7 +206,8 @@ export class EventModel {
       date_from?: Date;
       date_to?: Date;
       search?: string;
-    }
+    },
+    oddsFormat: OddsFormat = DEFAULT_ODDS_FORMAT
   ): Promise<{ events: EventWithDetails[], total: number }> {
     const offset = (page - 1) * limit;
     
@@ -252,14 +282,18 @@ export class EventModel {
                  'total', o.total
                )
              ) FILTER (WHERE o.id IS NOT NULL) as odds,
-             COUNT(DISTINCT ti.ticket_id) as tickets_count,
-             COALESCE(SUM(DISTINCT t.stake_amount), 0) as total_stake
+             (
+               SELECT COUNT(*) FROM tickets t
+               WHERE t.id IN (SELECT ti.ticket_id FROM ticket_items ti WHERE ti.event_id = e.id)
+             ) as tickets_count,
+             (
+               SELECT COALESCE(SUM(t.stake_amount), 0) FROM tickets t
+               WHERE t.id IN (SELECT ti.ticket_id FROM ticket_items ti WHERE ti.event_id = e.id)
+             ) as total_stake
       FROM events e
       JOIN competitions c ON e.competition_id = c.id
       JOIN sports s ON c.sport_id = s.id
       LEFT JOIN odds o ON e.id = o.event_id
-      LEFT JOIN ticket_items ti ON e.id = ti.event_id
-      LEFT JOIN tickets t ON ti.ticket_id = t.id
       ${whereClause}
       GROUP BY e.id, c.id, c.name, c.country, c.sport_id, s.id, s.name, s.api_sport_key, s.group_name
       ORDER BY e.commence_time ASC
@@ -271,7 +305,7 @@ export class EventModel {
     const result: QueryResult = await this.db.query(query, queryParams);
     
     return {
-      events: result.rows,
+      events: result.rows.map(event => this.formatEventOdds(event, oddsFormat)),
       total
     };
   }
@@ -371,9 +405,11 @@ export class EventModel {
     const { 
       competition_id, 
       api_event_id, 
+      name,
       home_team, 
       away_team, 
       commence_time, 
+      betting_closes_at,
       status 
     } = eventData;
     
@@ -391,6 +427,11 @@ export class EventModel {
       values.push(api_event_id);
     }
     
+    if (name !== undefined) {
+      queryParts.push(`name = $${paramCounter++}`);
+      values.push(name);
+    }
+    
     if (home_team) {
       queryParts.push(`home_team = $${paramCounter++}`);
       values.push(home_team);
@@ -406,6 +447,11 @@ export class EventModel {
       values.push(commence_time);
     }
     
+    if (betting_closes_at !== undefined) {
+      queryParts.push(`betting_closes_at = $${paramCounter++}`);
+      values.push(betting_closes_at);
+    }
+    
     if (status) {
       queryParts.push(`status = $${paramCounter++}`);
       values.push(status);
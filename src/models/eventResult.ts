@@ -0,0 +1,58 @@
+import { Pool, PoolClient, QueryResult } from 'pg';
+import pool from '../config/database';
+
+export interface EventResult {
+  id?: number;
+  event_id: number;
+  home_score: number | null;
+  away_score: number | null;
+  completed: boolean;
+  last_update?: Date | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export class EventResultModel {
+  private db: Pool;
+
+  constructor() {
+    this.db = pool;
+  }
+
+  async findByEventId(eventId: number): Promise<EventResult | null> {
+    const query = 'SELECT * FROM event_results WHERE event_id = $1';
+    const result: QueryResult = await this.db.query(query, [eventId]);
+
+    return result.rows.length ? result.rows[0] : null;
+  }
+
+  // Upsert para sincronización de marcadores con API externa.
+  // Con el cliente de una transacción el marcador se guarda junto con la liquidación.
+  async upsert(eventResult: EventResult, client: Pool | PoolClient = this.db): Promise<EventResult> {
+    const query = `
+      INSERT INTO event_results (event_id, home_score, away_score, completed, last_update)
+      VALUES ($1, $2, $3, $4, $5)
+      ON CONFLICT (event_id)
+      DO UPDATE SET
+        home_score = EXCLUDED.home_score,
+        away_score = EXCLUDED.away_score,
+        completed = EXCLUDED.completed,
+        last_update = EXCLUDED.last_update,
+        updated_at = NOW()
+      RETURNING *
+    `;
+
+    const values = [
+      eventResult.event_id,
+      eventResult.home_score,
+      eventResult.away_score,
+      eventResult.completed,
+      eventResult.last_update || null
+    ];
+
+    const result: QueryResult = await client.query(query, values);
+    return result.rows[0];
+  }
+}
+
+export default new EventResultModel();
@@ -0,0 +1,181 @@
+import { Pool, PoolClient, QueryResult } from 'pg';
+import pool from '../config/database';
+
+export type FreeBetStatus = 'available' | 'used' | 'expired' | 'revoked';
+
+// Origen del token: emitido por un admin o por una promoción automática
+export type FreeBetSource = 'admin' | 'promotion';
+
+export interface FreeBet {
+  id?: number;
+  user_id: number;
+  amount: string;
+  // Cuota total mínima del ticket en que se use
+  min_odds?: string | null;
+  // Deportes/competiciones permitidos; nulo admite cualquiera
+  sport_ids?: number[] | null;
+  competition_ids?: number[] | null;
+  expires_at: Date;
+  status?: FreeBetStatus;
+  source?: FreeBetSource;
+  description?: string | null;
+  ticket_id?: number | null;
+  used_at?: Date | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+// Datos de un token nuevo; pg devuelve las columnas numeric como texto, pero se insertan como número
+export interface NewFreeBet extends Omit<FreeBet, 'amount' | 'min_odds'> {
+  amount: number;
+  min_odds?: number | null;
+}
+
+export class FreeBetModel {
+  private db: Pool;
+
+  constructor() {
+    this.db = pool;
+  }
+
+  async create(freeBet: NewFreeBet, client: Pool | PoolClient = this.db): Promise<FreeBet> {
+    const query = `
+      INSERT INTO free_bets
+        (user_id, amount, min_odds, sport_ids, competition_ids, expires_at, status, source, description)
+      VALUES
+        ($1, $2, $3, $4, $5, $6, 'available', $7, $8)
+      RETURNING *
+    `;
+
+    const values = [
+      freeBet.user_id,
+      freeBet.amount,
+      freeBet.min_odds ?? null,
+      freeBet.sport_ids?.length ? freeBet.sport_ids : null,
+      freeBet.competition_ids?.length ? freeBet.competition_ids : null,
+      freeBet.expires_at,
+      freeBet.source || 'admin',
+      freeBet.description ?? null
+    ];
+
+    const result: QueryResult = await client.query(query, values);
+    return result.rows[0];
+  }
+
+  async findById(id: number): Promise<FreeBet | null> {
+    const query = 'SELECT * FROM free_bets WHERE id = $1';
+    const result: QueryResult = await this.db.query(query, [id]);
+
+    return result.rows.length ? result.rows[0] : null;
+  }
+
+  // Tokens de un usuario; los vencidos se marcan como expirados antes de listarlos
+  async findByUserId(userId: number, status?: FreeBetStatus): Promise<FreeBet[]> {
+    await this.expireOverdue();
+
+    const query = status
+      ? 'SELECT * FROM free_bets WHERE user_id = $1 AND status = $2 ORDER BY expires_at'
+      : 'SELECT * FROM free_bets WHERE user_id = $1 ORDER BY created_at DESC';
+
+    const result: QueryResult = await this.db.query(query, status ? [userId, status] : [userId]);
+    return result.rows;
+  }
+
+  async getAll(
+    page: number = 1,
+    limit: number = 20,
+    filters?: { user_id?: number; status?: string }
+  ): Promise<{ freeBets: FreeBet[], total: number }> {
+    await this.expireOverdue();
+
+    const offset = (page - 1) * limit;
+    let whereClause = 'WHERE 1=1';
+    const queryParams: any[] = [];
+    let paramCounter = 1;
+
+    if (filters?.user_id) {
+      whereClause += ` AND fb.user_id = $${paramCounter++}`;
+      queryParams.push(filters.user_id);
+    }
+
+    if (filters?.status) {
+      whereClause += ` AND fb.status = $${paramCounter++}`;
+      queryParams.push(filters.status);
+    }
+
+    const countResult: QueryResult = await this.db.query(
+      `SELECT COUNT(*) FROM free_bets fb ${whereClause}`,
+      queryParams
+    );
+    const total = parseInt(countResult.rows[0].count, 10);
+
+    const query = `
+      SELECT fb.*, u.username
+      FROM free_bets fb
+      JOIN users u ON fb.user_id = u.id
+      ${whereClause}
+      ORDER BY fb.created_at DESC
+      LIMIT $${paramCounter++} OFFSET $${paramCounter++}
+    `;
+
+    queryParams.push(limit, offset);
+
+    const result: QueryResult = await this.db.query(query, queryParams);
+
+    return {
+      freeBets: result.rows,
+      total
+    };
+  }
+
+  // Bloquear un token para usarlo en una apuesta
+  async lockForUse(client: PoolClient, id: number): Promise<(FreeBet & { expired: boolean }) | null> {
+    const result: QueryResult = await client.query(
+      'SELECT *, expires_at <= NOW() as expired FROM free_bets WHERE id = $1 FOR UPDATE',
+      [id]
+    );
+
+    return result.rows.length ? result.rows[0] : null;
+  }
+
+  async markUsed(client: PoolClient, id: number, ticketId: number): Promise<void> {
+    await client.query(
+      `UPDATE free_bets
+       SET status = 'used', ticket_id = $1, used_at = NOW(), updated_at = NOW()
+       WHERE id = $2`,
+      [ticketId, id]
+    );
+  }
+
+  // Devolver el token al usuario (ticket anulado); si ya venció queda expirado
+  async restore(client: PoolClient, id: number): Promise<void> {
+    await client.query(
+      `UPDATE free_bets
+       SET status = CASE WHEN expires_at <= NOW() THEN 'expired' ELSE 'available' END,
+           ticket_id = NULL, used_at = NULL, updated_at = NOW()
+       WHERE id = $1`,
+      [id]
+    );
+  }
+
+  async revoke(id: number): Promise<FreeBet | null> {
+    const query = `
+      UPDATE free_bets
+      SET status = 'revoked', updated_at = NOW()
+      WHERE id = $1 AND status = 'available'
+      RETURNING *
+    `;
+
+    const result: QueryResult = await this.db.query(query, [id]);
+    return result.rows.length ? result.rows[0] : null;
+  }
+
+  async expireOverdue(): Promise<void> {
+    await this.db.query(
+      `UPDATE free_bets SET status = 'expired', updated_at = NOW()
+       WHERE status = 'available' AND expires_at <= NOW()`
+    );
+  }
+}
+
+export default new FreeBetModel();
@@ -0,0 +1,56 @@
+import { Pool, PoolClient, QueryResult } from 'pg';
+import pool from '../config/database';
+
+// Puntos (y reembolso por nivel VIP) obtenidos por un ticket liquidado
+export interface LoyaltyTransaction {
+  id?: number;
+  user_id: number;
+  ticket_id: number;
+  points: number;
+  cashback_amount?: number;
+  vip_tier_id?: number | null;
+  created_at?: Date;
+}
+
+export class LoyaltyTransactionModel {
+  private db: Pool;
+
+  constructor() {
+    this.db = pool;
+  }
+
+  // Registrar los puntos de un ticket; devuelve null si el ticket ya se había contado
+  async create(client: PoolClient, transaction: LoyaltyTransaction): Promise<LoyaltyTransaction | null> {
+    const query = `
+      INSERT INTO loyalty_transactions (user_id, ticket_id, points, cashback_amount, vip_tier_id)
+      VALUES ($1, $2, $3, $4, $5)
+      ON CONFLICT (ticket_id) DO NOTHING
+      RETURNING *
+    `;
+
+    const values = [
+      transaction.user_id,
+      transaction.ticket_id,
+      transaction.points,
+      transaction.cashback_amount ?? 0,
+      transaction.vip_tier_id ?? null
+    ];
+
+    const result: QueryResult = await client.query(query, values);
+    return result.rows.length ? result.rows[0] : null;
+  }
+
+  async findByUserId(userId: number, limit: number = 20): Promise<LoyaltyTransaction[]> {
+    const query = `
+      SELECT * FROM loyalty_transactions
+      WHERE user_id = $1
+      ORDER BY created_at DESC
+      LIMIT $2
+    `;
+
+    const result: QueryResult = await this.db.query(query, [userId, limit]);
+    return result.rows;
+  }
+}
+
+export default new LoyaltyTransactionModel();
@@ -13,6 +13,8 @@ export interface Odds {
   updated_at?: Date;
   bookmaker?: string | 'Corredor Virtual',
   last_update?: Date;
+  suspended?: boolean;
+  status_updated_at?: Date | null;
 }
 
 export interface OddsWithEvent extends Odds {
@@ -393,6 +395,27 @@ export class OddsModel {
     }
   }
 
+  // Suspender o reabrir los mercados de un evento (todos o uno concreto).
+  // status_updated_at permite rechazar apuestas en vivo aceptadas durante el cambio.
+  async setSuspended(eventId: number, suspended: boolean, marketType?: string): Promise<Odds[]> {
+    let query = `
+      UPDATE odds
+      SET suspended = $1, status_updated_at = NOW(), updated_at = NOW()
+      WHERE event_id = $2 AND suspended IS DISTINCT FROM $1
+    `;
+    const values: any[] = [suspended, eventId];
+
+    if (marketType) {
+      query += ' AND market_type = $3';
+      values.push(marketType);
+    }
+
+    query += ' RETURNING *';
+
+    const result: QueryResult = await this.db.query(query, values);
+    return result.rows;
+  }
+
   // Método para limpiar cuotas obsoletas
   async cleanupExpiredOdds(hours: number = 24): Promise<number> {
     const query = `
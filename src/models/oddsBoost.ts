@@ -0,0 +1,244 @@
+import { Pool, PoolClient, QueryResult } from 'pg';
+import pool from '../config/database';
+
+// Cuota mejorada sobre una fila de odds concreta o, si odds_id es nulo, sobre un resultado
+// de mercado del evento (sobrevive a la sincronización que reemplaza las filas de odds).
+// budget limita el coste total de la mejora: lo pagado de más frente a la cuota original.
+export interface OddsBoost {
+  id?: number;
+  odds_id?: number | null;
+  event_id: number;
+  market_type: string;
+  outcome_name: string;
+  handicap?: number | null;
+  total?: number | null;
+  // Cuota decimal mejorada
+  boosted_odds: string;
+  starts_at: Date;
+  ends_at: Date;
+  max_stake_per_user?: string | null;
+  budget?: string | null;
+  budget_used?: string;
+  description?: string | null;
+  active?: boolean;
+  created_by?: number | null;
+  created_at?: Date;
+  updated_at?: Date;
+  // Datos del evento incluidos en los listados
+  home_team?: string;
+  away_team?: string;
+  commence_time?: Date;
+}
+
+export interface OddsBoostUsage {
+  boost_id: number;
+  user_id: number;
+  ticket_id: number;
+  stake_amount: number;
+  cost: number;
+}
+
+// Condición de vigencia de una mejora (alias b)
+const ACTIVE_BOOST_CONDITION = `
+  b.active = true AND NOW() BETWEEN b.starts_at AND b.ends_at
+  AND (b.budget IS NULL OR b.budget_used < b.budget)
+`;
+
+// Relación entre una mejora (alias b) y una fila de odds (alias o)
+const BOOST_MATCHES_ODDS = `
+  (b.odds_id = o.id OR (
+    b.odds_id IS NULL AND b.event_id = o.event_id AND b.market_type = o.market_type
+    AND b.outcome_name = o.outcome_name
+    AND b.handicap IS NOT DISTINCT FROM o.handicap AND b.total IS NOT DISTINCT FROM o.total
+  ))
+`;
+
+export class OddsBoostModel {
+  private db: Pool;
+
+  constructor() {
+    this.db = pool;
+  }
+
+  async create(boost: OddsBoost): Promise<OddsBoost> {
+    const query = `
+      INSERT INTO odds_boosts
+        (odds_id, event_id, market_type, outcome_name, handicap, total, boosted_odds,
+         starts_at, ends_at, max_stake_per_user, budget, description, active, created_by)
+      VALUES
+        ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+      RETURNING *
+    `;
+
+    const values = [
+      boost.odds_id ?? null,
+      boost.event_id,
+      boost.market_type,
+      boost.outcome_name,
+      boost.handicap ?? null,
+      boost.total ?? null,
+      boost.boosted_odds,
+      boost.starts_at,
+      boost.ends_at,
+      boost.max_stake_per_user ?? null,
+      boost.budget ?? null,
+      boost.description ?? null,
+      boost.active !== undefined ? boost.active : true,
+      boost.created_by ?? null
+    ];
+
+    const result: QueryResult = await this.db.query(query, values);
+    return result.rows[0];
+  }
+
+  async findById(id: number): Promise<OddsBoost | null> {
+    const query = 'SELECT * FROM odds_boosts WHERE id = $1';
+    const result: QueryResult = await this.db.query(query, [id]);
+
+    return result.rows.length ? result.rows[0] : null;
+  }
+
+  async getAll(filters?: { event_id?: number; active_only?: boolean }): Promise<OddsBoost[]> {
+    let whereClause = 'WHERE 1=1';
+    const queryParams: any[] = [];
+    let paramCounter = 1;
+
+    if (filters?.event_id) {
+      whereClause += ` AND b.event_id = $${paramCounter++}`;
+      queryParams.push(filters.event_id);
+    }
+
+    if (filters?.active_only) {
+      whereClause += ` AND ${ACTIVE_BOOST_CONDITION}`;
+    }
+
+    const query = `
+      SELECT b.*, e.home_team, e.away_team, e.commence_time
+      FROM odds_boosts b
+      JOIN events e ON b.event_id = e.id
+      ${whereClause}
+      ORDER BY b.starts_at DESC
+    `;
+
+    const result: QueryResult = await this.db.query(query, queryParams);
+    return result.rows;
+  }
+
+  // Mejoras vigentes de las cuotas de un evento, con la fila de odds a la que aplican
+  async findActiveByEvent(eventId: number): Promise<(OddsBoost & { matched_odds_id: number })[]> {
+    const query = `
+      SELECT b.*, o.id as matched_odds_id
+      FROM odds_boosts b
+      JOIN odds o ON ${BOOST_MATCHES_ODDS}
+      WHERE o.event_id = $1 AND ${ACTIVE_BOOST_CONDITION}
+      ORDER BY b.boosted_odds DESC
+    `;
+
+    const result: QueryResult = await this.db.query(query, [eventId]);
+    return result.rows;
+  }
+
+  // Mejora vigente con mejor cuota para una fila de odds
+  async findActiveForOdds(client: Pool | PoolClient, oddsId: number): Promise<OddsBoost | null> {
+    const query = `
+      SELECT b.*
+      FROM odds_boosts b
+      JOIN odds o ON ${BOOST_MATCHES_ODDS}
+      WHERE o.id = $1 AND ${ACTIVE_BOOST_CONDITION}
+      ORDER BY b.boosted_odds DESC
+      LIMIT 1
+    `;
+
+    const result: QueryResult = await client.query(query, [oddsId]);
+    return result.rows.length ? result.rows[0] : null;
+  }
+
+  async lockForUse(client: PoolClient, id: number): Promise<OddsBoost | null> {
+    const result: QueryResult = await client.query(
+      'SELECT * FROM odds_boosts WHERE id = $1 FOR UPDATE',
+      [id]
+    );
+
+    return result.rows.length ? result.rows[0] : null;
+  }
+
+  async getUserStake(client: PoolClient, boostId: number, userId: number): Promise<number> {
+    const result: QueryResult = await client.query(
+      `SELECT COALESCE(SUM(stake_amount), 0) as staked
+       FROM odds_boost_usages WHERE boost_id = $1 AND user_id = $2`,
+      [boostId, userId]
+    );
+
+    return parseFloat(result.rows[0].staked);
+  }
+
+  async recordUsage(client: PoolClient, usage: OddsBoostUsage): Promise<void> {
+    await client.query(
+      `INSERT INTO odds_boost_usages (boost_id, user_id, ticket_id, stake_amount, cost)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [usage.boost_id, usage.user_id, usage.ticket_id, usage.stake_amount, usage.cost]
+    );
+
+    await client.query(
+      'UPDATE odds_boosts SET budget_used = budget_used + $1, updated_at = NOW() WHERE id = $2',
+      [usage.cost, usage.boost_id]
+    );
+  }
+
+  // Borrar los usos de un ticket y devolver su coste al presupuesto de cada mejora
+  async releaseUsage(client: PoolClient, ticketId: number): Promise<void> {
+    await client.query(
+      `WITH released AS (
+         DELETE FROM odds_boost_usages WHERE ticket_id = $1 RETURNING boost_id, cost
+       )
+       UPDATE odds_boosts b
+       SET budget_used = GREATEST(b.budget_used - r.cost, 0), updated_at = NOW()
+       FROM (SELECT boost_id, SUM(cost) as cost FROM released GROUP BY boost_id) r
+       WHERE b.id = r.boost_id`,
+      [ticketId]
+    );
+  }
+
+  async update(id: number, boostData: Partial<OddsBoost>): Promise<OddsBoost | null> {
+    const fields: (keyof OddsBoost)[] = [
+      'boosted_odds', 'starts_at', 'ends_at', 'max_stake_per_user', 'budget', 'description', 'active'
+    ];
+
+    const queryParts: string[] = [];
+    const values: any[] = [];
+    let paramCounter = 1;
+
+    for (const field of fields) {
+      if (boostData[field] !== undefined) {
+        queryParts.push(`${field} = $${paramCounter++}`);
+        values.push(boostData[field]);
+      }
+    }
+
+    if (queryParts.length === 0) {
+      return this.findById(id);
+    }
+
+    queryParts.push('updated_at = NOW()');
+    values.push(id);
+
+    const query = `
+      UPDATE odds_boosts
+      SET ${queryParts.join(', ')}
+      WHERE id = $${paramCounter}
+      RETURNING *
+    `;
+
+    const result: QueryResult = await this.db.query(query, values);
+    return result.rows.length ? result.rows[0] : null;
+  }
+
+  async delete(id: number): Promise<boolean> {
+    const query = 'DELETE FROM odds_boosts WHERE id = $1 RETURNING id';
+    const result: QueryResult = await this.db.query(query, [id]);
+
+    return result.rows.length > 0;
+  }
+}
+
+export default new OddsBoostModel();
@@ -0,0 +1,156 @@
+import { Pool, PoolClient, QueryResult } from 'pg';
+import pool from '../config/database';
+
+// boost: porcentaje extra sobre las ganancias; insurance: devuelve el importe como apuesta
+// gratuita si falla exactamente una selección
+export type ParlayPromotionType = 'boost' | 'insurance';
+
+export const PARLAY_PROMOTION_TYPES: ParlayPromotionType[] = ['boost', 'insurance'];
+
+export interface ParlayPromotion {
+  id?: number;
+  name: string;
+  promo_type: ParlayPromotionType;
+  min_legs: number;
+  // Cuota decimal mínima de cada selección para que la combinada califique
+  min_leg_odds?: string | null;
+  boost_percentage?: string | null;
+  // Importe máximo devuelto por el seguro; nulo devuelve el importe completo
+  max_refund?: string | null;
+  free_bet_validity_days?: number | null;
+  starts_at?: Date | null;
+  ends_at?: Date | null;
+  active?: boolean;
+  description?: string | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+// Condición de promoción vigente (alias p)
+const ACTIVE_PROMOTION_CONDITION = `
+  p.active = true
+  AND (p.starts_at IS NULL OR p.starts_at <= NOW())
+  AND (p.ends_at IS NULL OR p.ends_at > NOW())
+`;
+
+export class ParlayPromotionModel {
+  private db: Pool;
+
+  constructor() {
+    this.db = pool;
+  }
+
+  async create(promotion: ParlayPromotion): Promise<ParlayPromotion> {
+    const query = `
+      INSERT INTO parlay_promotions
+        (name, promo_type, min_legs, min_leg_odds, boost_percentage, max_refund,
+         free_bet_validity_days, starts_at, ends_at, active, description)
+      VALUES
+        ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+      RETURNING *
+    `;
+
+    const values = [
+      promotion.name,
+      promotion.promo_type,
+      promotion.min_legs,
+      promotion.min_leg_odds ?? null,
+      promotion.boost_percentage ?? null,
+      promotion.max_refund ?? null,
+      promotion.free_bet_validity_days ?? null,
+      promotion.starts_at ?? null,
+      promotion.ends_at ?? null,
+      promotion.active ?? true,
+      promotion.description ?? null
+    ];
+
+    const result: QueryResult = await this.db.query(query, values);
+    return result.rows[0];
+  }
+
+  async findById(id: number, client: Pool | PoolClient = this.db): Promise<ParlayPromotion | null> {
+    const query = 'SELECT * FROM parlay_promotions WHERE id = $1';
+    const result: QueryResult = await client.query(query, [id]);
+
+    return result.rows.length ? result.rows[0] : null;
+  }
+
+  async getAll(activeOnly: boolean = false): Promise<ParlayPromotion[]> {
+    const query = activeOnly
+      ? `SELECT p.* FROM parlay_promotions p WHERE ${ACTIVE_PROMOTION_CONDITION} ORDER BY p.promo_type, p.min_legs`
+      : 'SELECT * FROM parlay_promotions ORDER BY created_at DESC';
+
+    const result: QueryResult = await this.db.query(query);
+    return result.rows;
+  }
+
+  // Mejor promoción vigente de un tipo para una combinada: mayor porcentaje en los boosts
+  // y mayor devolución en los seguros
+  async findBestApplicable(
+    client: PoolClient,
+    promoType: ParlayPromotionType,
+    legs: number,
+    minLegOdds: number
+  ): Promise<ParlayPromotion | null> {
+    const orderBy = promoType === 'boost'
+      ? 'p.boost_percentage DESC NULLS LAST'
+      : 'p.max_refund DESC NULLS FIRST';
+
+    const query = `
+      SELECT p.* FROM parlay_promotions p
+      WHERE ${ACTIVE_PROMOTION_CONDITION}
+        AND p.promo_type = $1
+        AND p.min_legs <= $2
+        AND (p.min_leg_odds IS NULL OR p.min_leg_odds <= $3)
+      ORDER BY ${orderBy}, p.min_legs DESC
+      LIMIT 1
+    `;
+
+    const result: QueryResult = await client.query(query, [promoType, legs, minLegOdds]);
+    return result.rows.length ? result.rows[0] : null;
+  }
+
+  async update(id: number, promotionData: Partial<ParlayPromotion>): Promise<ParlayPromotion | null> {
+    const fields: (keyof ParlayPromotion)[] = [
+      'name', 'min_legs', 'min_leg_odds', 'boost_percentage', 'max_refund',
+      'free_bet_validity_days', 'starts_at', 'ends_at', 'active', 'description'
+    ];
+
+    const queryParts: string[] = [];
+    const values: any[] = [];
+    let paramCounter = 1;
+
+    for (const field of fields) {
+      if (promotionData[field] !== undefined) {
+        queryParts.push(`${field} = $${paramCounter++}`);
+        values.push(promotionData[field]);
+      }
+    }
+
+    if (queryParts.length === 0) {
+      return this.findById(id);
+    }
+
+    queryParts.push('updated_at = NOW()');
+    values.push(id);
+
+    const query = `
+      UPDATE parlay_promotions
+      SET ${queryParts.join(', ')}
+      WHERE id = $${paramCounter}
+      RETURNING *
+    `;
+
+    const result: QueryResult = await this.db.query(query, values);
+    return result.rows.length ? result.rows[0] : null;
+  }
+
+  async delete(id: number): Promise<boolean> {
+    const query = 'DELETE FROM parlay_promotions WHERE id = $1 RETURNING id';
+    const result: QueryResult = await this.db.query(query, [id]);
+
+    return result.rows.length > 0;
+  }
+}
+
+export default new ParlayPromotionModel();
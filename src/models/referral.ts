@@ -0,0 +1,160 @@
+import { Pool, PoolClient, QueryResult } from 'pg';
+import pool from '../config/database';
+
+export type ReferralStatus = 'pending' | 'rewarded';
+
+// Usuario registrado con el código de otro. La recompensa se acredita al referente
+// cuando el referido completa su primer depósito y su primera apuesta que califican.
+export interface Referral {
+  id?: number;
+  referrer_id: number;
+  referred_id: number;
+  status?: ReferralStatus;
+  first_deposit_id?: number | null;
+  first_deposit_at?: Date | null;
+  first_ticket_id?: number | null;
+  first_bet_at?: Date | null;
+  reward_amount?: string | null;
+  rewarded_at?: Date | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export interface SuspiciousReferral {
+  referral_id: number;
+  referrer_id: number;
+  referrer_username: string;
+  referred_id: number;
+  referred_username: string;
+  status: ReferralStatus;
+  created_at: Date;
+  // Usuarios de la cadena de invitaciones, del primer referente al referido
+  chain: string[];
+  chain_depth: number;
+  shared_ip: boolean;
+  shared_phone: boolean;
+  referrer_burst: number;
+  minutes_to_reward: number | null;
+}
+
+export class ReferralModel {
+  private db: Pool;
+
+  constructor() {
+    this.db = pool;
+  }
+
+  async create(referral: Referral, client: Pool | PoolClient = this.db): Promise<Referral> {
+    const query = `
+      INSERT INTO referrals (referrer_id, referred_id, status)
+      VALUES ($1, $2, 'pending')
+      RETURNING *
+    `;
+
+    const result: QueryResult = await client.query(query, [referral.referrer_id, referral.referred_id]);
+    return result.rows[0];
+  }
+
+  // Referidos de un usuario con sus datos básicos
+  async findByReferrer(referrerId: number): Promise<Referral[]> {
+    const query = `
+      SELECT r.*, u.username as referred_username
+      FROM referrals r
+      JOIN users u ON r.referred_id = u.id
+      WHERE r.referrer_id = $1
+      ORDER BY r.created_at DESC
+    `;
+
+    const result: QueryResult = await this.db.query(query, [referrerId]);
+    return result.rows;
+  }
+
+  // Bloquear la invitación pendiente de un usuario referido
+  async lockPendingByReferred(client: PoolClient, referredId: number): Promise<Referral | null> {
+    const result: QueryResult = await client.query(
+      `SELECT * FROM referrals WHERE referred_id = $1 AND status = 'pending' FOR UPDATE`,
+      [referredId]
+    );
+
+    return result.rows.length ? result.rows[0] : null;
+  }
+
+  async recordDeposit(client: PoolClient, id: number, depositId: number): Promise<void> {
+    await client.query(
+      `UPDATE referrals
+       SET first_deposit_id = $1, first_deposit_at = NOW(), updated_at = NOW()
+       WHERE id = $2 AND first_deposit_id IS NULL`,
+      [depositId, id]
+    );
+  }
+
+  async recordBet(client: PoolClient, id: number, ticketId: number): Promise<void> {
+    await client.query(
+      `UPDATE referrals
+       SET first_ticket_id = $1, first_bet_at = NOW(), updated_at = NOW()
+       WHERE id = $2 AND first_ticket_id IS NULL`,
+      [ticketId, id]
+    );
+  }
+
+  async markRewarded(client: PoolClient, id: number, amount: number): Promise<void> {
+    await client.query(
+      `UPDATE referrals
+       SET status = 'rewarded', reward_amount = $1, rewarded_at = NOW(), updated_at = NOW()
+       WHERE id = $2`,
+      [amount, id]
+    );
+  }
+
+  // Invitaciones con señales de fraude: IP de registro o teléfono compartidos con el referente,
+  // cadenas de invitaciones profundas, ráfagas de referidos en 24 h o recompensas muy rápidas
+  async findSuspicious(options: { minDepth: number; minBurst: number; minMinutesToReward: number }): Promise<SuspiciousReferral[]> {
+    const query = `
+      WITH RECURSIVE chain AS (
+        SELECT id, referred_by, ARRAY[username::text] as path, 0 as depth
+        FROM users
+        WHERE referred_by IS NULL
+        UNION ALL
+        SELECT u.id, u.referred_by, c.path || u.username::text, c.depth + 1
+        FROM users u
+        JOIN chain c ON u.referred_by = c.id
+        WHERE c.depth < 20
+      ),
+      flagged AS (
+        SELECT r.id as referral_id, r.referrer_id, ref.username as referrer_username,
+               r.referred_id, usr.username as referred_username, r.status, r.created_at,
+               c.path as chain, c.depth as chain_depth,
+               (usr.registration_ip IS NOT NULL AND usr.registration_ip = ref.registration_ip) as shared_ip,
+               (usr.phone = ref.phone) as shared_phone,
+               (
+                 SELECT COUNT(*) FROM referrals x
+                 WHERE x.referrer_id = r.referrer_id
+                   AND x.created_at BETWEEN r.created_at - INTERVAL '24 hours' AND r.created_at + INTERVAL '24 hours'
+               )::int as referrer_burst,
+               CASE WHEN r.rewarded_at IS NOT NULL
+                    THEN FLOOR(EXTRACT(EPOCH FROM (r.rewarded_at - usr.created_at)) / 60)::int
+               END as minutes_to_reward
+        FROM referrals r
+        JOIN users ref ON r.referrer_id = ref.id
+        JOIN users usr ON r.referred_id = usr.id
+        LEFT JOIN chain c ON c.id = r.referred_id
+      )
+      SELECT * FROM flagged
+      WHERE shared_ip OR shared_phone
+         OR chain_depth >= $1
+         OR referrer_burst >= $2
+         OR minutes_to_reward < $3
+      ORDER BY created_at DESC
+    `;
+
+    const result: QueryResult = await this.db.query(query, [
+      options.minDepth,
+      options.minBurst,
+      options.minMinutesToReward
+    ]);
+
+    return result.rows;
+  }
+}
+
+export default new ReferralModel();
@@ -8,6 +8,8 @@ export interface Sport {
   group_name: string;
   description?: string;
   active?: boolean;
+  // Segundos de espera antes de aceptar una apuesta en vivo
+  inplay_delay_seconds?: number;
   created_at?: Date;
   updated_at?: Date;
 }
@@ -22,9 +24,9 @@ export class SportModel {
   async create(sport: Sport): Promise<Sport> {
     const query = `
       INSERT INTO sports 
-        (api_sport_key, name, group_name, description, active)
+        (api_sport_key, name, group_name, description, active, inplay_delay_seconds)
       VALUES 
-        ($1, $2, $3, $4, $5)
+        ($1, $2, $3, $4, $5, $6)
       RETURNING *
     `;
     
@@ -33,7 +35,8 @@ export class SportModel {
       sport.name,
       sport.group_name,
       sport.description || '',
-      sport.active !== undefined ? sport.active : true
+      sport.active !== undefined ? sport.active : true,
+      sport.inplay_delay_seconds ?? 5
     ];
     
     const result: QueryResult = await this.db.query(query, values);
@@ -108,7 +111,7 @@ export class SportModel {
   }
 
   async update(id: number, sportData: Partial<Sport>): Promise<Sport | null> {
-    const { api_sport_key, name, group_name, description, active } = sportData;
+    const { api_sport_key, name, group_name, description, active, inplay_delay_seconds } = sportData;
     
     const queryParts = [];
     const values = [];
@@ -139,6 +142,11 @@ export class SportModel {
       values.push(active);
     }
     
+    if (inplay_delay_seconds !== undefined) {
+      queryParts.push(`inplay_delay_seconds = $${paramCounter++}`);
+      values.push(inplay_delay_seconds);
+    }
+    
     queryParts.push(`updated_at = $${paramCounter++}`);
     values.push(new Date());
     
@@ -0,0 +1,123 @@
+import { Pool, PoolClient, QueryResult } from 'pg';
+import pool from '../config/database';
+
+// Cuota decimal de un teaser según deporte, puntos movidos y número de selecciones
+export interface TeaserPayout {
+  id?: number;
+  sport_id: number;
+  points: string;
+  legs: number;
+  odds: string;
+  active?: boolean;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export class TeaserPayoutModel {
+  private db: Pool;
+
+  constructor() {
+    this.db = pool;
+  }
+
+  async create(payout: TeaserPayout): Promise<TeaserPayout> {
+    const query = `
+      INSERT INTO teaser_payouts (sport_id, points, legs, odds, active)
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING *
+    `;
+
+    const values = [payout.sport_id, payout.points, payout.legs, payout.odds, payout.active ?? true];
+
+    const result: QueryResult = await this.db.query(query, values);
+    return result.rows[0];
+  }
+
+  async findById(id: number): Promise<TeaserPayout | null> {
+    const query = 'SELECT * FROM teaser_payouts WHERE id = $1';
+    const result: QueryResult = await this.db.query(query, [id]);
+
+    return result.rows.length ? result.rows[0] : null;
+  }
+
+  // Tabla de pagos, opcionalmente de un deporte
+  async getAll(sportId?: number, activeOnly: boolean = false): Promise<TeaserPayout[]> {
+    let query = `
+      SELECT tp.*, s.name as sport_name
+      FROM teaser_payouts tp
+      JOIN sports s ON tp.sport_id = s.id
+      WHERE 1=1
+    `;
+    const queryParams: any[] = [];
+
+    if (sportId) {
+      queryParams.push(sportId);
+      query += ` AND tp.sport_id = $${queryParams.length}`;
+    }
+
+    if (activeOnly) {
+      query += ' AND tp.active = true';
+    }
+
+    query += ' ORDER BY s.name, tp.points, tp.legs';
+
+    const result: QueryResult = await this.db.query(query, queryParams);
+    return result.rows;
+  }
+
+  async findActive(
+    client: Pool | PoolClient,
+    sportId: number,
+    points: number,
+    legs: number
+  ): Promise<TeaserPayout | null> {
+    const result: QueryResult = await client.query(
+      `SELECT * FROM teaser_payouts
+       WHERE sport_id = $1 AND points = $2 AND legs = $3 AND active = true`,
+      [sportId, points, legs]
+    );
+
+    return result.rows.length ? result.rows[0] : null;
+  }
+
+  async update(id: number, payoutData: Partial<TeaserPayout>): Promise<TeaserPayout | null> {
+    const fields: (keyof TeaserPayout)[] = ['points', 'legs', 'odds', 'active'];
+
+    const queryParts: string[] = [];
+    const values: any[] = [];
+    let paramCounter = 1;
+
+    for (const field of fields) {
+      if (payoutData[field] !== undefined) {
+        queryParts.push(`${field} = $${paramCounter++}`);
+        values.push(payoutData[field]);
+      }
+    }
+
+    if (queryParts.length === 0) {
+      return this.findById(id);
+    }
+
+    queryParts.push('updated_at = NOW()');
+    values.push(id);
+
+    const query = `
+      UPDATE teaser_payouts
+      SET ${queryParts.join(', ')}
+      WHERE id = $${paramCounter}
+      RETURNING *
+    `;
+
+    const result: QueryResult = await this.db.query(query, values);
+    return result.rows.length ? result.rows[0] : null;
+  }
+
+  async delete(id: number): Promise<boolean> {
+    const query = 'DELETE FROM teaser_payouts WHERE id = $1 RETURNING id';
+    const result: QueryResult = await this.db.query(query, [id]);
+
+    return result.rows.length > 0;
+  }
+}
+
+export default new TeaserPayoutModel();
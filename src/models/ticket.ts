@@ -1,21 +1,88 @@
 import { Pool, QueryResult } from 'pg';
 import pool from '../config/database';
+import { TicketItemWithDetails } from './ticketItem';
+
+export type TicketStatus =
+  | 'pending'
+  | 'pending_acceptance'
+  | 'rejected'
+  | 'won'
+  | 'lost'
+  | 'canceled'
+  | 'void'
+  | 'cashed_out';
+
+export type TicketType =
+  | 'single'
+  | 'accumulator'
+  | 'system'
+  | 'round_robin'
+  | 'bet_builder'
+  | 'teaser'
+  | 'if_bet'
+  | 'reverse';
+
+// Tickets padre sin selecciones propias: se resuelven al liquidarse todas sus líneas (tickets hijos)
+export const PARENT_TICKET_TYPES: TicketType[] = ['system', 'round_robin', 'reverse'];
+
+// Condición de un if-bet para apostar la siguiente selección de la cadena
+export type IfBetCondition = 'win' | 'win_or_push';
+
+export const IF_BET_CONDITIONS: IfBetCondition[] = ['win', 'win_or_push'];
 
 export interface Ticket {
   id?: number;
   user_id: number;
+  ticket_type?: TicketType;
+  system_type?: string | null;
+  parent_ticket_id?: number | null;
+  price_adjustment?: number | null;
+  // Puntos movidos en cada selección de un teaser
+  teaser_points?: number | null;
+  if_condition?: IfBetCondition | null;
+  accept_after?: Date | null;
+  rejection_reason?: string | null;
+  booking_code_id?: number | null;
+  free_bet_id?: number | null;
+  // Promociones de combinada aplicadas al colocar el ticket
+  parlay_boost_promotion_id?: number | null;
+  parlay_boost_percentage?: number | null;
+  insurance_promotion_id?: number | null;
+  insurance_free_bet_id?: number | null;
   stake_amount: number;
   total_odds: number;
   potential_payout: number;
-  status?: 'pending' | 'won' | 'lost' | 'canceled';
+  payout_amount?: number | null;
+  cashout_amount?: number | null;
+  status?: TicketStatus;
   created_at?: Date;
   updated_at?: Date;
 }
 
+// Ticket leído de la base de datos: pg devuelve las columnas numeric como texto
+export interface TicketRow extends Omit<
+  Ticket,
+  'id' | 'stake_amount' | 'total_odds' | 'potential_payout' | 'payout_amount' | 'cashout_amount' |
+  'price_adjustment' | 'teaser_points' | 'parlay_boost_percentage'
+> {
+  id: number;
+  stake_amount: string;
+  total_odds: string;
+  potential_payout: string;
+  payout_amount?: string | null;
+  cashout_amount?: string | null;
+  price_adjustment?: string | null;
+  teaser_points?: string | null;
+  parlay_boost_percentage?: string | null;
+}
+
 export interface TicketWithDetails extends Ticket {
   username?: string;
   email?: string;
   selections?: any[];
+  voided_selections?: number;
+  voided_items?: TicketItemWithDetails[];
+  lines?: TicketWithDetails[];
 }
 
 export class TicketModel {
@@ -28,9 +95,9 @@ export class TicketModel {
   async create(ticket: Ticket): Promise<Ticket> {
     const query = `
       INSERT INTO tickets 
-        (user_id, stake_amount, total_odds, potential_payout, status)
+        (user_id, stake_amount, total_odds, potential_payout, status, ticket_type)
       VALUES 
-        ($1, $2, $3, $4, $5)
+        ($1, $2, $3, $4, $5, $6)
       RETURNING *
     `;
     
@@ -39,14 +106,15 @@ export class TicketModel {
       ticket.stake_amount,
       ticket.total_odds,
       ticket.potential_payout,
-      ticket.status || 'pending'
+      ticket.status || 'pending',
+      ticket.ticket_type || 'accumulator'
     ];
     
     const result: QueryResult = await this.db.query(query, values);
     return result.rows[0];
   }
 
-  async findById(id: number): Promise<Ticket | null> {
+  async findById(id: number): Promise<TicketRow | null> {
     const query = 'SELECT * FROM tickets WHERE id = $1';
     const result: QueryResult = await this.db.query(query, [id]);
     
@@ -64,11 +132,16 @@ export class TicketModel {
                  'status', ti.status,
                  'event_id', ti.event_id,
                  'odds_id', ti.odds_id,
+                 'handicap', ti.handicap,
+                 'total', ti.total,
+                 'chain_position', ti.chain_position,
+                 'leg_stake', ti.leg_stake,
                  'home_team', e.home_team,
                  'away_team', e.away_team,
                  'commence_time', e.commence_time
-               )
-             ) as selections
+               ) ORDER BY ti.chain_position NULLS LAST, ti.id
+             ) as selections,
+             COUNT(ti.id) FILTER (WHERE ti.status IN ('push', 'void'))::int as voided_selections
       FROM tickets t
       JOIN users u ON t.user_id = u.id
       LEFT JOIN ticket_items ti ON t.id = ti.ticket_id
@@ -81,6 +154,33 @@ export class TicketModel {
     return result.rows.length ? result.rows[0] : null;
   }
 
+  // Líneas (tickets hijos) de una apuesta de sistema o los if-bets de un reverse
+  async findLines(parentTicketId: number): Promise<TicketWithDetails[]> {
+    const query = `
+      SELECT t.*,
+             json_agg(
+               json_build_object(
+                 'id', ti.id,
+                 'selection', ti.selection,
+                 'odds_value', ti.odds_value,
+                 'status', ti.status,
+                 'event_id', ti.event_id,
+                 'odds_id', ti.odds_id,
+                 'chain_position', ti.chain_position,
+                 'leg_stake', ti.leg_stake
+               ) ORDER BY ti.chain_position NULLS LAST, ti.id
+             ) as selections
+      FROM tickets t
+      LEFT JOIN ticket_items ti ON t.id = ti.ticket_id
+      WHERE t.parent_ticket_id = $1
+      GROUP BY t.id
+      ORDER BY t.id
+    `;
+    
+    const result: QueryResult = await this.db.query(query, [parentTicketId]);
+    return result.rows;
+  }
+
   async findByUserId(
     userId: number, 
     page: number = 1, 
@@ -89,7 +189,8 @@ export class TicketModel {
   ): Promise<{ tickets: TicketWithDetails[], total: number }> {
     const offset = (page - 1) * limit;
     
-    let whereClause = 'WHERE t.user_id = $1';
+    // Las líneas de un sistema se muestran dentro de su ticket padre
+    let whereClause = 'WHERE t.user_id = $1 AND t.parent_ticket_id IS NULL';
     const queryParams: any[] = [userId];
     let paramCounter = 2;
     
@@ -221,7 +322,7 @@ export class TicketModel {
     };
   }
 
-  async updateStatus(id: number, status: 'pending' | 'won' | 'lost' | 'canceled'): Promise<Ticket | null> {
+  async updateStatus(id: number, status: TicketStatus): Promise<Ticket | null> {
     const query = `
       UPDATE tickets 
       SET status = $1, updated_at = NOW() 
@@ -241,27 +342,43 @@ export class TicketModel {
   }
 
   async getStatistics(userId?: number): Promise<any> {
-    let query = `
+    const whereClause = userId ? 'WHERE user_id = $1' : '';
+    const queryParams: any[] = userId ? [userId] : [];
+    // Las líneas de un sistema ya están contabilizadas en su ticket padre
+    const ticketsWhere = userId
+      ? 'WHERE user_id = $1 AND parent_ticket_id IS NULL'
+      : 'WHERE parent_ticket_id IS NULL';
+    
+    // Los cash-outs parciales reducen stake_amount, se suman desde el historial
+    const query = `
       SELECT 
         COUNT(*) as total_tickets,
         COUNT(*) FILTER (WHERE status = 'pending') as pending_tickets,
         COUNT(*) FILTER (WHERE status = 'won') as won_tickets,
         COUNT(*) FILTER (WHERE status = 'lost') as lost_tickets,
         COUNT(*) FILTER (WHERE status = 'canceled') as canceled_tickets,
-        COALESCE(SUM(stake_amount), 0) as total_stake,
-        COALESCE(SUM(potential_payout) FILTER (WHERE status = 'won'), 0) as total_winnings,
+        COUNT(*) FILTER (WHERE status = 'void') as void_tickets,
+        COUNT(*) FILTER (WHERE status = 'cashed_out') as cashed_out_tickets,
+        COUNT(*) FILTER (WHERE status = 'rejected') as rejected_tickets,
+        COUNT(*) FILTER (WHERE ticket_type = 'bet_builder') as bet_builder_tickets,
+        COALESCE(SUM(stake_amount), 0) + (
+          SELECT COALESCE(SUM(stake_amount), 0) FROM ticket_cashouts
+          ${whereClause ? `${whereClause} AND` : 'WHERE'} partial = true
+        ) as total_stake,
+        COALESCE(SUM(COALESCE(payout_amount, potential_payout)) FILTER (WHERE status = 'won'), 0) as total_winnings,
+        (
+          SELECT COALESCE(SUM(amount), 0) FROM ticket_cashouts ${whereClause}
+        ) as total_cashout,
+        (
+          SELECT COUNT(*) FROM ticket_cashouts
+          ${whereClause ? `${whereClause} AND` : 'WHERE'} partial = true
+        ) as partial_cashouts,
         COALESCE(AVG(stake_amount), 0) as average_stake,
         COALESCE(AVG(total_odds), 0) as average_odds
       FROM tickets
+      ${ticketsWhere}
     `;
     
-    const queryParams: any[] = [];
-    
-    if (userId) {
-      query += ' WHERE user_id = $1';
-      queryParams.push(userId);
-    }
-    
     const result: QueryResult = await this.db.query(query, queryParams);
     return result.rows[0];
   }
@@ -1,6 +1,8 @@
 import { Pool, QueryResult } from 'pg';
 import pool from '../config/database';
 
+export type TicketItemStatus = 'pending' | 'won' | 'lost' | 'canceled' | 'push' | 'void';
+
 export interface TicketItem {
   id?: number;
   ticket_id: number;
@@ -8,7 +10,7 @@ export interface TicketItem {
   odds_id: number;
   selection: string;
   odds_value: number;
-  status?: 'pending' | 'won' | 'lost' | 'canceled';
+  status?: TicketItemStatus;
   created_at?: Date;
   updated_at?: Date;
 }
@@ -133,7 +135,7 @@ export class TicketItemModel {
     return result.rows;
   }
 
-  async updateStatus(id: number, status: 'pending' | 'won' | 'lost' | 'canceled'): Promise<TicketItem | null> {
+  async updateStatus(id: number, status: TicketItemStatus): Promise<TicketItem | null> {
     const query = `
       UPDATE ticket_items 
       SET status = $1, updated_at = NOW() 
@@ -145,7 +147,7 @@ export class TicketItemModel {
     return result.rows.length ? result.rows[0] : null;
   }
 
-  async updateStatusByTicketId(ticketId: number, status: 'pending' | 'won' | 'lost' | 'canceled'): Promise<TicketItem[]> {
+  async updateStatusByTicketId(ticketId: number, status: TicketItemStatus): Promise<TicketItem[]> {
     const query = `
       UPDATE ticket_items 
       SET status = $1, updated_at = NOW() 
@@ -157,7 +159,7 @@ export class TicketItemModel {
     return result.rows;
   }
 
-  async updateStatusByEventId(eventId: number, status: 'pending' | 'won' | 'lost' | 'canceled'): Promise<TicketItem[]> {
+  async updateStatusByEventId(eventId: number, status: TicketItemStatus): Promise<TicketItem[]> {
     const query = `
       UPDATE ticket_items 
       SET status = $1, updated_at = NOW() 
@@ -190,6 +192,7 @@ export class TicketItemModel {
         COUNT(*) FILTER (WHERE status = 'pending') as pending_selections,
         COUNT(*) FILTER (WHERE status = 'won') as won_selections,
         COUNT(*) FILTER (WHERE status = 'lost') as lost_selections,
+        COUNT(*) FILTER (WHERE status IN ('push', 'void')) as voided_selections,
         COALESCE(AVG(odds_value), 0) as average_odds
       FROM ticket_items
       WHERE event_id = $1
@@ -1,6 +1,7 @@
 import { Pool, QueryResult } from 'pg';
 import pool from '../config/database';
 import bcrypt from 'bcryptjs';
+import { OddsFormat } from '../utils/oddsFormat';
 
 export interface User {
   id?: number;
@@ -13,7 +14,16 @@ export interface User {
   phone: string;
   country: string;
   balance?: number;
+  // Bonos pendientes de rollover: no se pueden apostar ni retirar
+  bonus_balance?: number;
   role?: string;
+  odds_format?: OddsFormat;
+  // Código propio para invitar a otros usuarios y quién invitó a este
+  referral_code?: string | null;
+  referred_by?: number | null;
+  registration_ip?: string | null;
+  loyalty_points?: number;
+  vip_tier_id?: number | null;
   created_at?: Date;
   updated_at?: Date;
 }
@@ -30,9 +40,10 @@ export class UserModel {
     
     const query = `
       INSERT INTO users 
-        (username, password, first_name, last_name, identification_number, email, phone, country, role, balance)
+        (username, password, first_name, last_name, identification_number, email, phone, country, role, balance,
+         referral_code, referred_by, registration_ip)
       VALUES 
-        ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+        ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
       RETURNING *
     `;
     
@@ -46,7 +57,10 @@ export class UserModel {
       user.phone,
       user.country,
       user.role || 'user',
-      user.balance || 0
+      user.balance || 0,
+      user.referral_code ?? null,
+      user.referred_by ?? null,
+      user.registration_ip ?? null
     ];
     
     const result: QueryResult = await this.db.query(query, values);
@@ -76,7 +90,7 @@ export class UserModel {
 
   async update(id: number, userData: Partial<User>): Promise<User | null> {
     // No permitir actualizar username o role a través de esta función
-    const { password, first_name, last_name, email, phone, country } = userData;
+    const { password, first_name, last_name, email, phone, country, odds_format } = userData;
     
     let hashedPassword: string | undefined;
     if (password) {
@@ -112,6 +126,11 @@ export class UserModel {
       values.push(country);
     }
     
+    if (odds_format) {
+      queryParts.push(`odds_format = $${paramCounter++}`);
+      values.push(odds_format);
+    }
+    
     if (hashedPassword) {
       queryParts.push(`password = $${paramCounter++}`);
       values.push(hashedPassword);
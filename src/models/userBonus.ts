@@ -0,0 +1,171 @@
+import { Pool, PoolClient, QueryResult } from 'pg';
+import pool from '../config/database';
+
+export type UserBonusStatus = 'active' | 'completed' | 'expired' | 'forfeited';
+
+// Bono acreditado a un usuario por un depósito. Mientras está activo, el importe
+// vive en users.bonus_balance y el depósito que lo originó no se puede retirar.
+export interface UserBonus {
+  id?: number;
+  user_id: number;
+  campaign_id: number;
+  deposit_id: number;
+  deposit_amount: string;
+  bonus_amount: string;
+  wagering_required: string;
+  wagering_progress?: string;
+  min_odds?: string | null;
+  status?: UserBonusStatus;
+  expires_at: Date;
+  completed_at?: Date | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export interface NewUserBonus extends Omit<UserBonus, 'deposit_amount' | 'bonus_amount' | 'wagering_required' | 'wagering_progress'> {
+  deposit_amount: number;
+  bonus_amount: number;
+  wagering_required: number;
+}
+
+export class UserBonusModel {
+  private db: Pool;
+
+  constructor() {
+    this.db = pool;
+  }
+
+  async create(client: PoolClient, bonus: NewUserBonus): Promise<UserBonus> {
+    const query = `
+      INSERT INTO user_bonuses
+        (user_id, campaign_id, deposit_id, deposit_amount, bonus_amount,
+         wagering_required, min_odds, status, expires_at)
+      VALUES
+        ($1, $2, $3, $4, $5, $6, $7, 'active', $8)
+      RETURNING *
+    `;
+
+    const values = [
+      bonus.user_id,
+      bonus.campaign_id,
+      bonus.deposit_id,
+      bonus.deposit_amount,
+      bonus.bonus_amount,
+      bonus.wagering_required,
+      bonus.min_odds ?? null,
+      bonus.expires_at
+    ];
+
+    const result: QueryResult = await client.query(query, values);
+    return result.rows[0];
+  }
+
+  // Bonos de un usuario con el nombre de la campaña; los vencidos se expiran antes de listarlos
+  async findByUserId(userId: number): Promise<(UserBonus & { campaign_name: string })[]> {
+    await this.expireOverdue();
+
+    const query = `
+      SELECT ub.*, bc.name as campaign_name
+      FROM user_bonuses ub
+      JOIN bonus_campaigns bc ON ub.campaign_id = bc.id
+      WHERE ub.user_id = $1
+      ORDER BY ub.created_at DESC
+    `;
+
+    const result: QueryResult = await this.db.query(query, [userId]);
+    return result.rows;
+  }
+
+  async hasActive(userId: number): Promise<boolean> {
+    const result: QueryResult = await this.db.query(
+      `SELECT 1 FROM user_bonuses WHERE user_id = $1 AND status = 'active' AND expires_at > NOW()`,
+      [userId]
+    );
+
+    return result.rows.length > 0;
+  }
+
+  // Bloquear el bono activo y vigente del usuario
+  async lockActiveByUser(client: PoolClient, userId: number): Promise<UserBonus | null> {
+    const result: QueryResult = await client.query(
+      `SELECT * FROM user_bonuses
+       WHERE user_id = $1 AND status = 'active' AND expires_at > NOW()
+       FOR UPDATE`,
+      [userId]
+    );
+
+    return result.rows.length ? result.rows[0] : null;
+  }
+
+  async lockById(client: PoolClient, id: number): Promise<UserBonus | null> {
+    const result: QueryResult = await client.query(
+      'SELECT * FROM user_bonuses WHERE id = $1 FOR UPDATE',
+      [id]
+    );
+
+    return result.rows.length ? result.rows[0] : null;
+  }
+
+  // Registrar un ticket liquidado en el rollover; devuelve false si ya se había contado
+  async addWager(client: PoolClient, bonusId: number, ticketId: number, amount: number): Promise<boolean> {
+    const inserted: QueryResult = await client.query(
+      `INSERT INTO bonus_wagers (user_bonus_id, ticket_id, amount)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (user_bonus_id, ticket_id) DO NOTHING
+       RETURNING id`,
+      [bonusId, ticketId, amount]
+    );
+
+    if (inserted.rows.length === 0) {
+      return false;
+    }
+
+    await client.query(
+      `UPDATE user_bonuses
+       SET wagering_progress = wagering_progress + $1, updated_at = NOW()
+       WHERE id = $2`,
+      [amount, bonusId]
+    );
+
+    return true;
+  }
+
+  async close(client: PoolClient, id: number, status: Exclude<UserBonusStatus, 'active'>): Promise<void> {
+    await client.query(
+      `UPDATE user_bonuses
+       SET status = $1, completed_at = CASE WHEN $1 = 'completed' THEN NOW() ELSE completed_at END,
+           updated_at = NOW()
+       WHERE id = $2`,
+      [status, id]
+    );
+  }
+
+  // Importe de depósitos bloqueado por bonos activos
+  async getLockedAmount(client: Pool | PoolClient, userId: number): Promise<number> {
+    const result: QueryResult = await client.query(
+      `SELECT COALESCE(SUM(deposit_amount), 0) as locked
+       FROM user_bonuses
+       WHERE user_id = $1 AND status = 'active' AND expires_at > NOW()`,
+      [userId]
+    );
+
+    return parseFloat(result.rows[0].locked);
+  }
+
+  // Expirar los bonos cuyo plazo de rollover venció y retirar su importe del saldo de bono
+  async expireOverdue(): Promise<void> {
+    await this.db.query(
+      `WITH expired AS (
+         UPDATE user_bonuses SET status = 'expired', updated_at = NOW()
+         WHERE status = 'active' AND expires_at <= NOW()
+         RETURNING user_id, bonus_amount
+       )
+       UPDATE users u
+       SET bonus_balance = GREATEST(u.bonus_balance - e.amount, 0)
+       FROM (SELECT user_id, SUM(bonus_amount) as amount FROM expired GROUP BY user_id) e
+       WHERE u.id = e.user_id`
+    );
+  }
+}
+
+export default new UserBonusModel();
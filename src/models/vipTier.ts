@@ -0,0 +1,144 @@
+import { Pool, PoolClient, QueryResult } from 'pg';
+import pool from '../config/database';
+
+// Nivel VIP alcanzado al acumular min_points puntos de fidelidad
+export interface VipTier {
+  id?: number;
+  name: string;
+  min_points: number;
+  // Porcentaje del importe devuelto en cada ticket perdido
+  cashback_percentage: string;
+  // Multiplicador de los límites máximos de apuesta no específicos del usuario
+  limit_multiplier: string;
+  // Prioridad en la cola de retiros pendientes (mayor se procesa antes)
+  withdrawal_priority: number;
+  description?: string | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export interface TierDistribution {
+  tier_id: number | null;
+  tier_name: string | null;
+  min_points: number | null;
+  users: number;
+  total_points: number;
+}
+
+export class VipTierModel {
+  private db: Pool;
+
+  constructor() {
+    this.db = pool;
+  }
+
+  async create(tier: VipTier): Promise<VipTier> {
+    const query = `
+      INSERT INTO vip_tiers
+        (name, min_points, cashback_percentage, limit_multiplier, withdrawal_priority, description)
+      VALUES
+        ($1, $2, $3, $4, $5, $6)
+      RETURNING *
+    `;
+
+    const values = [
+      tier.name,
+      tier.min_points,
+      tier.cashback_percentage ?? 0,
+      tier.limit_multiplier ?? 1,
+      tier.withdrawal_priority ?? 0,
+      tier.description ?? null
+    ];
+
+    const result: QueryResult = await this.db.query(query, values);
+    return result.rows[0];
+  }
+
+  async findById(id: number, client: Pool | PoolClient = this.db): Promise<VipTier | null> {
+    const query = 'SELECT * FROM vip_tiers WHERE id = $1';
+    const result: QueryResult = await client.query(query, [id]);
+
+    return result.rows.length ? result.rows[0] : null;
+  }
+
+  async getAll(): Promise<VipTier[]> {
+    const result: QueryResult = await this.db.query('SELECT * FROM vip_tiers ORDER BY min_points ASC');
+    return result.rows;
+  }
+
+  // Usuarios y puntos por nivel, incluidos los que aún no alcanzan ninguno
+  async getDistribution(): Promise<TierDistribution[]> {
+    const query = `
+      SELECT vt.id as tier_id, vt.name as tier_name, vt.min_points,
+             COUNT(u.id)::int as users,
+             COALESCE(SUM(u.loyalty_points), 0)::int as total_points
+      FROM vip_tiers vt
+      LEFT JOIN users u ON u.vip_tier_id = vt.id
+      GROUP BY vt.id
+      UNION ALL
+      SELECT NULL, NULL, NULL, COUNT(*)::int, COALESCE(SUM(loyalty_points), 0)::int
+      FROM users
+      WHERE vip_tier_id IS NULL
+      ORDER BY min_points ASC NULLS FIRST
+    `;
+
+    const result: QueryResult = await this.db.query(query);
+    return result.rows;
+  }
+
+  async update(id: number, tierData: Partial<VipTier>): Promise<VipTier | null> {
+    const fields: (keyof VipTier)[] = [
+      'name', 'min_points', 'cashback_percentage', 'limit_multiplier', 'withdrawal_priority', 'description'
+    ];
+
+    const queryParts: string[] = [];
+    const values: any[] = [];
+    let paramCounter = 1;
+
+    for (const field of fields) {
+      if (tierData[field] !== undefined) {
+        queryParts.push(`${field} = $${paramCounter++}`);
+        values.push(tierData[field]);
+      }
+    }
+
+    if (queryParts.length === 0) {
+      return this.findById(id);
+    }
+
+    queryParts.push('updated_at = NOW()');
+    values.push(id);
+
+    const query = `
+      UPDATE vip_tiers
+      SET ${queryParts.join(', ')}
+      WHERE id = $${paramCounter}
+      RETURNING *
+    `;
+
+    const result: QueryResult = await this.db.query(query, values);
+    return result.rows.length ? result.rows[0] : null;
+  }
+
+  async delete(id: number): Promise<boolean> {
+    const query = 'DELETE FROM vip_tiers WHERE id = $1 RETURNING id';
+    const result: QueryResult = await this.db.query(query, [id]);
+
+    return result.rows.length > 0;
+  }
+
+  // Reasignar el nivel de todos los usuarios tras cambiar los umbrales
+  async reassignAll(): Promise<void> {
+    await this.db.query(
+      `UPDATE users u
+       SET vip_tier_id = (
+         SELECT vt.id FROM vip_tiers vt
+         WHERE vt.min_points <= u.loyalty_points
+         ORDER BY vt.min_points DESC
+         LIMIT 1
+       )`
+    );
+  }
+}
+
+export default new VipTierModel();
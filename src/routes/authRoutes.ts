@@ -15,7 +15,8 @@ router.post(
     body('identification_number').isString().notEmpty(),
     body('email').isEmail(),
     body('phone').isString().notEmpty(),
-    body('country').isString().notEmpty()
+    body('country').isString().notEmpty(),
+    body('referral_code').optional().isAlphanumeric().isLength({ max: 20 })
   ],
   authController.register
 );
@@ -0,0 +1,53 @@
+import express from 'express';
+import { body, query } from 'express-validator';
+import betLimitController from '../controllers/betLimitController';
+import { authenticateToken, authorizeAdmin } from '../middlewares/auth';
+import { BET_LIMIT_SCOPES } from '../models/betLimit';
+
+const router = express.Router();
+
+// Todas las rutas requieren autenticación y rol de admin
+router.use(authenticateToken, authorizeAdmin);
+
+const limitValidators = [
+  body('scope_id').optional({ values: 'null' }).isInt({ min: 1 }).withMessage('ID de ámbito inválido'),
+  body('market_type').optional({ values: 'null' }).isString().notEmpty().withMessage('Tipo de mercado inválido'),
+  body('min_stake').optional({ values: 'null' }).isFloat({ min: 0 }).withMessage('Importe mínimo inválido'),
+  body('max_stake').optional({ values: 'null' }).isFloat({ min: 0 }).withMessage('Importe máximo inválido'),
+  body('max_payout').optional({ values: 'null' }).isFloat({ min: 0 }).withMessage('Pago máximo inválido'),
+  body('max_event_stake').optional({ values: 'null' }).isFloat({ min: 0 }).withMessage('Acumulado máximo inválido'),
+  body('active').optional().isBoolean().withMessage('Estado activo debe ser booleano')
+];
+
+router.get(
+  '/',
+  [
+    query('scope').optional().isIn(BET_LIMIT_SCOPES).withMessage('Nivel de límite inválido'),
+    query('scope_id').optional().isInt({ min: 1 }).withMessage('ID de ámbito inválido')
+  ],
+  betLimitController.getLimits
+);
+
+router.get('/:id', betLimitController.getLimitById);
+
+router.post(
+  '/',
+  [
+    body('scope').isIn(BET_LIMIT_SCOPES).withMessage('Nivel de límite inválido'),
+    ...limitValidators
+  ],
+  betLimitController.createLimit
+);
+
+router.put(
+  '/:id',
+  [
+    body('scope').optional().isIn(BET_LIMIT_SCOPES).withMessage('Nivel de límite inválido'),
+    ...limitValidators
+  ],
+  betLimitController.updateLimit
+);
+
+router.delete('/:id', betLimitController.deleteLimit);
+
+export default router;
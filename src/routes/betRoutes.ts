@@ -2,6 +2,9 @@ import express from 'express';
 import { body } from 'express-validator';
 import betController from '../controllers/betController';
 import { authenticateToken, authorizeAdmin } from '../middlewares/auth';
+import { resolveOddsFormat } from '../middlewares/oddsFormat';
+import { ODDS_CHANGE_POLICIES } from '../services/betService';
+import { IF_BET_CONDITIONS } from '../models/ticket';
 import { asyncHandler } from '../middlewares/errorHandler'
 
 const router = express.Router();
@@ -13,15 +16,71 @@ router.use(authenticateToken);
 router.post(
   '/',
   [
-    body('stakeAmount').isNumeric().toFloat().isFloat({ min: 1 }),
+    // Con apuesta gratuita el importe lo fija el token
+    body('stakeAmount').if(body('freeBetId').not().exists()).isNumeric().toFloat().isFloat({ min: 1 }),
+    body('freeBetId').optional().isInt({ min: 1 }).toInt(),
     body('selections').isArray({ min: 1 }),
-    body('selections.*.oddsId').isInt().toInt()
+    body('selections.*.oddsId').isInt().toInt(),
+    // La cuota vista es obligatoria salvo que se acepte cualquier cambio de precio
+    body('selections.*.odds').if(body('oddsChangePolicy').not().equals('any')).notEmpty(),
+    body('oddsChangePolicy').optional().isIn(ODDS_CHANGE_POLICIES),
+    body('systemType').optional().matches(/^([a-z0-9_]+|\d+\/\d+)$/i),
+    body('roundRobinSizes').optional().isArray({ min: 1 }),
+    body('roundRobinSizes.*').isInt({ min: 2 }).toInt(),
+    body('betBuilder').optional().isBoolean().toBoolean(),
+    body('teaserPoints').optional().isFloat({ gt: 0 }).toFloat(),
+    body('ifBetCondition').optional().isIn(IF_BET_CONDITIONS),
+    body('reverse').optional().isBoolean().toBoolean(),
+    body('bookingCode').optional().isAlphanumeric()
   ],
+  resolveOddsFormat,
   betController.placeBet
 );
 
-router.get('/', betController.getUserBets);
-router.get('/:id', betController.getTicketById);
+router.post(
+  '/validate',
+  [
+    body('selections').isArray({ min: 1 }),
+    body('selections.*.oddsId').isInt().toInt()
+  ],
+  betController.validateSlip
+);
+
+router.post(
+  '/builder/quote',
+  [
+    body('selections').isArray({ min: 2 }),
+    body('selections.*.oddsId').isInt().toInt()
+  ],
+  resolveOddsFormat,
+  betController.quoteBetBuilder
+);
+
+router.post(
+  '/round-robin/quote',
+  [
+    body('stakeAmount').isNumeric().toFloat().isFloat({ min: 1 }),
+    body('sizes').isArray({ min: 1 }),
+    body('sizes.*').isInt({ min: 2 }).toInt(),
+    body('selections').isArray({ min: 3 }),
+    body('selections.*.oddsId').isInt().toInt()
+  ],
+  resolveOddsFormat,
+  betController.quoteRoundRobin
+);
+
+router.get('/', resolveOddsFormat, betController.getUserBets);
+router.get('/:id', resolveOddsFormat, betController.getTicketById);
+router.get('/:id/acceptance', betController.getAcceptanceStatus);
+router.post('/:id/cashout/quote', betController.createCashoutQuote);
+router.post(
+  '/:id/cashout',
+  [
+    body('quoteId').isInt({ min: 1 }).toInt(),
+    body('fraction').optional().isFloat({ gt: 0, max: 1 }).toFloat()
+  ],
+  betController.acceptCashout
+);
 
 // Rutas para administradores
 router.get('/admin/all', authorizeAdmin, betController.getAllBets);
@@ -0,0 +1,49 @@
+import express from 'express';
+import { body } from 'express-validator';
+import betSlipController from '../controllers/betSlipController';
+import betController from '../controllers/betController';
+import { authenticateToken } from '../middlewares/auth';
+import { resolveOddsFormat } from '../middlewares/oddsFormat';
+import { ODDS_CHANGE_POLICIES } from '../services/betService';
+
+const router = express.Router();
+
+// Todas las rutas requieren autenticación
+router.use(authenticateToken);
+
+router.get('/', betSlipController.getSlip);
+
+router.put(
+  '/',
+  [
+    body('stake_amount').optional({ values: 'null' }).isFloat({ min: 1 }).toFloat().withMessage('Monto de apuesta inválido'),
+    body('system_type').optional({ values: 'null' }).matches(/^([a-z0-9_]+|\d+\/\d+)$/i).withMessage('Tipo de sistema inválido'),
+    body('bet_builder').optional().isBoolean().toBoolean().withMessage('bet_builder debe ser booleano'),
+    body('accept_prices').optional().isBoolean().toBoolean().withMessage('accept_prices debe ser booleano')
+  ],
+  betSlipController.updateSlip
+);
+
+router.delete('/', betSlipController.clearSlip);
+
+router.post(
+  '/selections',
+  [
+    body('odds_id').isInt({ min: 1 }).toInt().withMessage('ID de cuota inválido')
+  ],
+  betSlipController.addSelection
+);
+
+router.delete('/selections/:oddsId', betSlipController.removeSelection);
+
+// Convertir el boleto en un ticket con el flujo normal de apuestas
+router.post(
+  '/place',
+  [
+    body('oddsChangePolicy').optional().isIn(ODDS_CHANGE_POLICIES)
+  ],
+  resolveOddsFormat,
+  betController.placeSlip
+);
+
+export default router;
@@ -0,0 +1,39 @@
+import express from 'express';
+import { body } from 'express-validator';
+import bonusController from '../controllers/bonusController';
+import { authenticateToken, authorizeAdmin } from '../middlewares/auth';
+
+const router = express.Router();
+
+// Todas las rutas requieren autenticación
+router.use(authenticateToken);
+
+router.get('/', bonusController.getMyBonuses);
+router.get('/campaigns', bonusController.getAvailableCampaigns);
+router.post('/:id/forfeit', bonusController.forfeitBonus);
+
+// Rutas para administradores
+const campaignValidators = (optional: boolean) => {
+  const field = (name: string) => (optional ? body(name).optional() : body(name));
+
+  return [
+    field('name').isString().trim().notEmpty().withMessage('Nombre inválido'),
+    field('match_percentage').isFloat({ gt: 0 }).toFloat().withMessage('Porcentaje inválido'),
+    field('max_bonus').isFloat({ gt: 0 }).toFloat().withMessage('Bono máximo inválido'),
+    field('min_deposit').isFloat({ min: 0 }).toFloat().withMessage('Depósito mínimo inválido'),
+    field('rollover_multiplier').isFloat({ min: 0 }).toFloat().withMessage('Rollover inválido'),
+    field('validity_days').isInt({ min: 1 }).toInt().withMessage('Días de validez inválidos'),
+    body('min_odds').optional({ values: 'null' }).isFloat({ gt: 1 }).toFloat().withMessage('Cuota mínima inválida'),
+    body('starts_at').optional({ values: 'null' }).isISO8601().toDate().withMessage('Fecha de inicio inválida'),
+    body('ends_at').optional({ values: 'null' }).isISO8601().toDate().withMessage('Fecha de fin inválida'),
+    body('active').optional().isBoolean(),
+    body('description').optional({ values: 'null' }).isString()
+  ];
+};
+
+router.get('/admin/campaigns', authorizeAdmin, bonusController.getCampaigns);
+router.post('/admin/campaigns', authorizeAdmin, campaignValidators(false), bonusController.createCampaign);
+router.put('/admin/campaigns/:id', authorizeAdmin, campaignValidators(true), bonusController.updateCampaign);
+router.delete('/admin/campaigns/:id', authorizeAdmin, bonusController.deleteCampaign);
+
+export default router;
@@ -0,0 +1,36 @@
+import express from 'express';
+import { body, query } from 'express-validator';
+import bookingCodeController from '../controllers/bookingCodeController';
+import { authenticateToken, authorizeAdmin, optionalAuth } from '../middlewares/auth';
+import { resolveOddsFormat } from '../middlewares/oddsFormat';
+
+const router = express.Router();
+
+// Estadísticas por código (solo admin); antes de /:code para no confundirse con un código
+router.get(
+  '/admin/stats',
+  authenticateToken,
+  authorizeAdmin,
+  [
+    query('page').optional().isInt({ min: 1 }).withMessage('Página debe ser un número positivo'),
+    query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Límite debe ser entre 1 y 100')
+  ],
+  bookingCodeController.getStatistics
+);
+
+// Crear y consultar códigos no requiere cuenta
+router.post(
+  '/',
+  optionalAuth,
+  [
+    body('selections').isArray({ min: 1, max: 20 }).withMessage('Se requieren entre 1 y 20 selecciones'),
+    body('selections.*.odds_id').isInt({ min: 1 }).toInt().withMessage('ID de cuota inválido')
+  ],
+  bookingCodeController.createCode
+);
+
+router.get('/:code', optionalAuth, resolveOddsFormat, bookingCodeController.getCode);
+
+router.post('/:code/slip', authenticateToken, bookingCodeController.loadIntoSlip);
+
+export default router;
@@ -0,0 +1,51 @@
+import express from 'express';
+import { body, query } from 'express-validator';
+import correlationRuleController from '../controllers/correlationRuleController';
+import { authenticateToken, authorizeAdmin } from '../middlewares/auth';
+
+const router = express.Router();
+
+// Todas las rutas requieren autenticación y rol de admin
+router.use(authenticateToken, authorizeAdmin);
+
+router.get(
+  '/',
+  [
+    query('sport_id').optional().isInt({ min: 1 }).withMessage('ID de deporte inválido')
+  ],
+  correlationRuleController.getRules
+);
+
+router.post(
+  '/',
+  [
+    body('sport_id').optional({ values: 'null' }).isInt({ min: 1 }).withMessage('ID de deporte inválido'),
+    body('market_a').isString().notEmpty().withMessage('Mercado A requerido'),
+    body('outcome_a').optional({ values: 'null' }).isString().withMessage('Resultado A inválido'),
+    body('market_b').isString().notEmpty().withMessage('Mercado B requerido'),
+    body('outcome_b').optional({ values: 'null' }).isString().withMessage('Resultado B inválido'),
+    body('description').optional({ values: 'null' }).isString().withMessage('Descripción inválida'),
+    body('price_factor').optional().isFloat({ gt: 0 }).withMessage('Factor de precio debe ser mayor que 0'),
+    body('active').optional().isBoolean().withMessage('Estado activo debe ser booleano')
+  ],
+  correlationRuleController.createRule
+);
+
+router.put(
+  '/:id',
+  [
+    body('sport_id').optional({ values: 'null' }).isInt({ min: 1 }).withMessage('ID de deporte inválido'),
+    body('market_a').optional().isString().notEmpty().withMessage('Mercado A inválido'),
+    body('outcome_a').optional({ values: 'null' }).isString().withMessage('Resultado A inválido'),
+    body('market_b').optional().isString().notEmpty().withMessage('Mercado B inválido'),
+    body('outcome_b').optional({ values: 'null' }).isString().withMessage('Resultado B inválido'),
+    body('description').optional({ values: 'null' }).isString().withMessage('Descripción inválida'),
+    body('price_factor').optional().isFloat({ gt: 0 }).withMessage('Factor de precio debe ser mayor que 0'),
+    body('active').optional().isBoolean().withMessage('Estado activo debe ser booleano')
+  ],
+  correlationRuleController.updateRule
+);
+
+router.delete('/:id', correlationRuleController.deleteRule);
+
+export default router;
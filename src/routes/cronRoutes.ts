@@ -0,0 +1,12 @@
+import express from 'express';
+import betController from '../controllers/betController';
+import { authorizeCron } from '../middlewares/auth';
+
+const router = express.Router();
+
+// Tareas programadas (cron de Vercel, ver vercel.json). Se invocan con GET.
+router.use(authorizeCron);
+
+router.get('/in-play-acceptance', betController.processDueAcceptances);
+
+export default router;
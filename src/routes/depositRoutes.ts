@@ -33,7 +33,12 @@ router.post(
     body('deposit_date')
       .isISO8601()
       .toDate()
-      .withMessage('Fecha de depósito inválida')
+      .withMessage('Fecha de depósito inválida'),
+    body('bonus_campaign_id')
+      .optional({ values: 'null' })
+      .isInt({ min: 1 })
+      .toInt()
+      .withMessage('Campaña de bono inválida')
   ],
   depositController.createDeposit
 );
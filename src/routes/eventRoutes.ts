@@ -1,12 +1,40 @@
 import express from 'express';
+import { body, query } from 'express-validator';
 import eventController from '../controllers/eventController';
-import { authenticateToken, authorizeAdmin } from '../middlewares/auth';
+import { authenticateToken, authorizeAdmin, optionalAuth } from '../middlewares/auth';
+import { resolveOddsFormat } from '../middlewares/oddsFormat';
 
 const router = express.Router();
 
+// Exposición de la casa (solo admin); antes de /:id para no confundirse con un ID
+router.get(
+  '/admin/exposure',
+  authenticateToken,
+  authorizeAdmin,
+  [
+    query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Límite debe ser entre 1 y 100')
+  ],
+  eventController.getTopExposure
+);
+
+router.get(
+  '/:id/liability',
+  authenticateToken,
+  authorizeAdmin,
+  eventController.getEventLiability
+);
+
 // Rutas públicas
-router.get('/', eventController.getEvents);
-router.get('/:id', eventController.getEventById);
+router.get(
+  '/',
+  optionalAuth,
+  [
+    query('event_type').optional().isIn(['match', 'outright']).withMessage('Tipo de evento inválido')
+  ],
+  resolveOddsFormat,
+  eventController.getEvents
+);
+router.get('/:id', optionalAuth, resolveOddsFormat, eventController.getEventById);
 
 // Rutas administrativas (protegidas)
 router.post(
@@ -16,4 +44,57 @@ router.post(
   eventController.refreshEvents
 );
 
+router.post(
+  '/:id/settle',
+  authenticateToken,
+  authorizeAdmin,
+  [
+    body('score_home').isInt({ min: 0 }).toInt().withMessage('Marcador local inválido'),
+    body('score_away').isInt({ min: 0 }).toInt().withMessage('Marcador visitante inválido')
+  ],
+  eventController.settleEvent
+);
+
+router.post(
+  '/:id/settle-outright',
+  authenticateToken,
+  authorizeAdmin,
+  [
+    body('winners').isArray({ min: 1 }).withMessage('Se requiere al menos un ganador'),
+    body('winners.*').isString().trim().notEmpty().withMessage('Nombre de participante inválido')
+  ],
+  eventController.settleOutright
+);
+
+router.put(
+  '/:id/betting-window',
+  authenticateToken,
+  authorizeAdmin,
+  [
+    body('betting_closes_at').isISO8601().toDate().withMessage('Fecha de cierre inválida')
+  ],
+  eventController.setBettingWindow
+);
+
+router.post(
+  '/:id/void',
+  authenticateToken,
+  authorizeAdmin,
+  [
+    body('status').isIn(['postponed', 'canceled']).withMessage('Estado de evento inválido')
+  ],
+  eventController.voidEvent
+);
+
+router.put(
+  '/:id/suspension',
+  authenticateToken,
+  authorizeAdmin,
+  [
+    body('suspended').isBoolean().toBoolean().withMessage('Estado de suspensión inválido'),
+    body('market_type').optional().isIn(['h2h', 'spread', 'totals', 'outright']).withMessage('Tipo de mercado inválido')
+  ],
+  eventController.setMarketSuspension
+);
+
 export default router;
\ No newline at end of file
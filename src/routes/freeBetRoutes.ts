@@ -0,0 +1,51 @@
+import express from 'express';
+import { body, query } from 'express-validator';
+import freeBetController from '../controllers/freeBetController';
+import { authenticateToken, authorizeAdmin } from '../middlewares/auth';
+
+const router = express.Router();
+
+const FREE_BET_STATUSES = ['available', 'used', 'expired', 'revoked'];
+
+// Todas las rutas requieren autenticación
+router.use(authenticateToken);
+
+router.get(
+  '/',
+  [
+    query('status').optional().isIn(FREE_BET_STATUSES).withMessage('Estado inválido')
+  ],
+  freeBetController.getMyFreeBets
+);
+
+// Rutas para administradores
+router.get(
+  '/admin',
+  authorizeAdmin,
+  [
+    query('status').optional().isIn(FREE_BET_STATUSES).withMessage('Estado inválido'),
+    query('user_id').optional().isInt({ min: 1 }).withMessage('ID de usuario inválido')
+  ],
+  freeBetController.getAllFreeBets
+);
+
+router.post(
+  '/admin',
+  authorizeAdmin,
+  [
+    body('user_id').isInt({ min: 1 }).toInt().withMessage('ID de usuario inválido'),
+    body('amount').isFloat({ gt: 0 }).toFloat().withMessage('Importe inválido'),
+    body('min_odds').optional({ values: 'null' }).isFloat({ gt: 1 }).toFloat().withMessage('Cuota mínima inválida'),
+    body('sport_ids').optional({ values: 'null' }).isArray().withMessage('Deportes inválidos'),
+    body('sport_ids.*').isInt({ min: 1 }).toInt(),
+    body('competition_ids').optional({ values: 'null' }).isArray().withMessage('Competiciones inválidas'),
+    body('competition_ids.*').isInt({ min: 1 }).toInt(),
+    body('expires_at').isISO8601().toDate().withMessage('Fecha de caducidad inválida'),
+    body('description').optional({ values: 'null' }).isString()
+  ],
+  freeBetController.issueFreeBet
+);
+
+router.delete('/admin/:id', authorizeAdmin, freeBetController.revokeFreeBet);
+
+export default router;
@@ -9,6 +9,18 @@ import betRoutes from './betRoutes';
 import depositRoutes from './depositRoutes';
 import withdrawalRoutes from './withdrawalRoutes';
 import oddsRoutes from './oddsApiRoutes';
+import betLimitRoutes from './betLimitRoutes';
+import correlationRuleRoutes from './correlationRuleRoutes';
+import betSlipRoutes from './betSlipRoutes';
+import bookingCodeRoutes from './bookingCodeRoutes';
+import freeBetRoutes from './freeBetRoutes';
+import oddsBoostRoutes from './oddsBoostRoutes';
+import bonusRoutes from './bonusRoutes';
+import referralRoutes from './referralRoutes';
+import vipTierRoutes from './vipTierRoutes';
+import parlayPromotionRoutes from './parlayPromotionRoutes';
+import teaserPayoutRoutes from './teaserPayoutRoutes';
+import cronRoutes from './cronRoutes';
 
 const router = express.Router();
 
@@ -25,5 +37,19 @@ router.use('/bets', betRoutes);
 router.use('/deposits', depositRoutes);
 router.use('/withdrawals', withdrawalRoutes);
 router.use('/odds-api', oddsRoutes);
+router.use('/bet-limits', betLimitRoutes);
+router.use('/correlation-rules', correlationRuleRoutes);
+router.use('/bet-slip', betSlipRoutes);
+router.use('/booking-codes', bookingCodeRoutes);
+router.use('/free-bets', freeBetRoutes);
+router.use('/odds-boosts', oddsBoostRoutes);
+router.use('/bonuses', bonusRoutes);
+router.use('/referrals', referralRoutes);
+router.use('/vip-tiers', vipTierRoutes);
+router.use('/parlay-promotions', parlayPromotionRoutes);
+router.use('/teaser-payouts', teaserPayoutRoutes);
+
+// Tareas programadas
+router.use('/cron', cronRoutes);
 
 export default router;
@@ -1,5 +1,5 @@
 import express from 'express';
-import { param } from 'express-validator';
+import { param, query } from 'express-validator';
 import oddsApiController from '../controllers/oddsApiController';
 import { authenticateToken, authorizeAdmin } from '../middlewares/auth';
 
@@ -16,6 +16,15 @@ router.post('/sync/all',
   oddsApiController.syncAllMainSports
 );
 
+router.post('/scores/:sportKey',
+  authenticateToken,
+  authorizeAdmin,
+  [
+    query('daysFrom').optional().isInt({ min: 1, max: 3 }).withMessage('daysFrom debe ser entre 1 y 3')
+  ],
+  oddsApiController.syncScores
+);
+
 router.get('/usage', 
   authenticateToken, 
   authorizeAdmin, 
@@ -0,0 +1,63 @@
+import express from 'express';
+import { body, query } from 'express-validator';
+import oddsBoostController from '../controllers/oddsBoostController';
+import { authenticateToken, authorizeAdmin, optionalAuth } from '../middlewares/auth';
+import { resolveOddsFormat } from '../middlewares/oddsFormat';
+
+const router = express.Router();
+
+// Ruta pública: mejoras vigentes
+router.get('/active', optionalAuth, resolveOddsFormat, oddsBoostController.getActiveBoosts);
+
+// Rutas administrativas (protegidas)
+router.get(
+  '/',
+  authenticateToken,
+  authorizeAdmin,
+  [
+    query('event_id').optional().isInt({ min: 1 }).withMessage('ID de evento inválido')
+  ],
+  oddsBoostController.getBoosts
+);
+
+router.post(
+  '/',
+  authenticateToken,
+  authorizeAdmin,
+  [
+    body('odds_id').optional({ values: 'null' }).isInt({ min: 1 }).toInt().withMessage('ID de cuota inválido'),
+    body('event_id').optional().isInt({ min: 1 }).toInt().withMessage('ID de evento inválido'),
+    body('market_type').optional().isIn(['h2h', 'spread', 'totals', 'outright']).withMessage('Tipo de mercado inválido'),
+    body('outcome_name').optional().isString().notEmpty().withMessage('Resultado inválido'),
+    body('handicap').optional({ values: 'null' }).isFloat().toFloat(),
+    body('total').optional({ values: 'null' }).isFloat().toFloat(),
+    body('boosted_odds').isFloat({ gt: 1 }).toFloat().withMessage('Cuota mejorada (decimal) inválida'),
+    body('starts_at').isISO8601().toDate().withMessage('Fecha de inicio inválida'),
+    body('ends_at').isISO8601().toDate().withMessage('Fecha de fin inválida'),
+    body('max_stake_per_user').optional({ values: 'null' }).isFloat({ gt: 0 }).toFloat().withMessage('Importe máximo inválido'),
+    body('budget').optional({ values: 'null' }).isFloat({ gt: 0 }).toFloat().withMessage('Presupuesto inválido'),
+    body('description').optional({ values: 'null' }).isString(),
+    body('active').optional().isBoolean()
+  ],
+  oddsBoostController.createBoost
+);
+
+router.put(
+  '/:id',
+  authenticateToken,
+  authorizeAdmin,
+  [
+    body('boosted_odds').optional().isFloat({ gt: 1 }).toFloat().withMessage('Cuota mejorada (decimal) inválida'),
+    body('starts_at').optional().isISO8601().toDate().withMessage('Fecha de inicio inválida'),
+    body('ends_at').optional().isISO8601().toDate().withMessage('Fecha de fin inválida'),
+    body('max_stake_per_user').optional({ values: 'null' }).isFloat({ gt: 0 }).toFloat().withMessage('Importe máximo inválido'),
+    body('budget').optional({ values: 'null' }).isFloat({ gt: 0 }).toFloat().withMessage('Presupuesto inválido'),
+    body('description').optional({ values: 'null' }).isString(),
+    body('active').optional().isBoolean()
+  ],
+  oddsBoostController.updateBoost
+);
+
+router.delete('/:id', authenticateToken, authorizeAdmin, oddsBoostController.deleteBoost);
+
+export default router;
@@ -0,0 +1,53 @@
+import express from 'express';
+import { body } from 'express-validator';
+import parlayPromotionController from '../controllers/parlayPromotionController';
+import { authenticateToken, authorizeAdmin } from '../middlewares/auth';
+import { PARLAY_PROMOTION_TYPES } from '../models/parlayPromotion';
+
+const router = express.Router();
+
+// Ruta pública: promociones vigentes
+router.get('/', parlayPromotionController.getActivePromotions);
+
+// Rutas administrativas (protegidas)
+const promotionValidators = [
+  body('min_leg_odds').optional({ values: 'null' }).isFloat({ gt: 1 }).toFloat().withMessage('Cuota mínima por selección inválida'),
+  body('boost_percentage').optional({ values: 'null' }).isFloat({ gt: 0 }).toFloat().withMessage('Porcentaje de boost inválido'),
+  body('max_refund').optional({ values: 'null' }).isFloat({ gt: 0 }).toFloat().withMessage('Devolución máxima inválida'),
+  body('free_bet_validity_days').optional({ values: 'null' }).isInt({ min: 1 }).toInt().withMessage('Días de validez inválidos'),
+  body('starts_at').optional({ values: 'null' }).isISO8601().toDate().withMessage('Fecha de inicio inválida'),
+  body('ends_at').optional({ values: 'null' }).isISO8601().toDate().withMessage('Fecha de fin inválida'),
+  body('active').optional().isBoolean(),
+  body('description').optional({ values: 'null' }).isString()
+];
+
+router.get('/admin', authenticateToken, authorizeAdmin, parlayPromotionController.getPromotions);
+
+router.post(
+  '/',
+  authenticateToken,
+  authorizeAdmin,
+  [
+    body('name').isString().trim().notEmpty().withMessage('Nombre inválido'),
+    body('promo_type').isIn(PARLAY_PROMOTION_TYPES).withMessage('Tipo de promoción inválido'),
+    body('min_legs').isInt({ min: 2 }).toInt().withMessage('La combinada requiere al menos 2 selecciones'),
+    ...promotionValidators
+  ],
+  parlayPromotionController.createPromotion
+);
+
+router.put(
+  '/:id',
+  authenticateToken,
+  authorizeAdmin,
+  [
+    body('name').optional().isString().trim().notEmpty().withMessage('Nombre inválido'),
+    body('min_legs').optional().isInt({ min: 2 }).toInt().withMessage('La combinada requiere al menos 2 selecciones'),
+    ...promotionValidators
+  ],
+  parlayPromotionController.updatePromotion
+);
+
+router.delete('/:id', authenticateToken, authorizeAdmin, parlayPromotionController.deletePromotion);
+
+export default router;
@@ -0,0 +1,15 @@
+import express from 'express';
+import referralController from '../controllers/referralController';
+import { authenticateToken, authorizeAdmin } from '../middlewares/auth';
+
+const router = express.Router();
+
+// Todas las rutas requieren autenticación
+router.use(authenticateToken);
+
+router.get('/', referralController.getMyReferrals);
+
+// Rutas para administradores
+router.get('/admin/suspicious', authorizeAdmin, referralController.getSuspiciousReferrals);
+
+export default router;
@@ -22,7 +22,8 @@ router.post(
     body('name').isString().notEmpty(),
     body('group_name').isString().notEmpty(),
     body('description').optional().isString(),
-    body('active').optional().isBoolean()
+    body('active').optional().isBoolean(),
+    body('inplay_delay_seconds').optional().isInt({ min: 0, max: 60 }).toInt()
   ],
   sportController.createSport
 );
@@ -36,7 +37,8 @@ router.put(
     body('name').optional().isString().notEmpty(),
     body('group_name').optional().isString().notEmpty(),
     body('description').optional().isString(),
-    body('active').optional().isBoolean()
+    body('active').optional().isBoolean(),
+    body('inplay_delay_seconds').optional().isInt({ min: 0, max: 60 }).toInt()
   ],
   sportController.updateSport
 );
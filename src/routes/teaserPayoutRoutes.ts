@@ -0,0 +1,51 @@
+import express from 'express';
+import { body, query } from 'express-validator';
+import teaserPayoutController from '../controllers/teaserPayoutController';
+import { authenticateToken, authorizeAdmin, optionalAuth } from '../middlewares/auth';
+
+const router = express.Router();
+
+// Los puntos van de medio en medio punto (6, 6.5, 7...)
+const isHalfPoint = (value: number) => Number.isInteger(value * 2);
+
+// Ruta pública: tabla de pagos (los admins ven también las filas inactivas)
+router.get(
+  '/',
+  optionalAuth,
+  [
+    query('sport_id').optional().isInt({ min: 1 }).withMessage('ID de deporte inválido')
+  ],
+  teaserPayoutController.getPayouts
+);
+
+// Rutas administrativas (protegidas)
+router.post(
+  '/',
+  authenticateToken,
+  authorizeAdmin,
+  [
+    body('sport_id').isInt({ min: 1 }).toInt().withMessage('ID de deporte inválido'),
+    body('points').isFloat({ gt: 0 }).toFloat().custom(isHalfPoint).withMessage('Puntos inválidos'),
+    body('legs').isInt({ min: 2 }).toInt().withMessage('El teaser requiere al menos 2 selecciones'),
+    body('odds').isFloat({ gt: 1 }).toFloat().withMessage('Cuota (decimal) inválida'),
+    body('active').optional().isBoolean()
+  ],
+  teaserPayoutController.createPayout
+);
+
+router.put(
+  '/:id',
+  authenticateToken,
+  authorizeAdmin,
+  [
+    body('points').optional().isFloat({ gt: 0 }).toFloat().custom(isHalfPoint).withMessage('Puntos inválidos'),
+    body('legs').optional().isInt({ min: 2 }).toInt().withMessage('El teaser requiere al menos 2 selecciones'),
+    body('odds').optional().isFloat({ gt: 1 }).toFloat().withMessage('Cuota (decimal) inválida'),
+    body('active').optional().isBoolean()
+  ],
+  teaserPayoutController.updatePayout
+);
+
+router.delete('/:id', authenticateToken, authorizeAdmin, teaserPayoutController.deletePayout);
+
+export default router;
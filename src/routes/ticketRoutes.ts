@@ -2,6 +2,9 @@ import express from 'express';
 import { body, query } from 'express-validator';
 import ticketController from '../controllers/ticketController';
 import { authenticateToken, authorizeAdmin } from '../middlewares/auth';
+import { resolveOddsFormat } from '../middlewares/oddsFormat';
+import { ODDS_FORMATS } from '../utils/oddsFormat';
+import { ODDS_CHANGE_POLICIES } from '../services/betService';
 
 const router = express.Router();
 
@@ -12,7 +15,9 @@ router.use(authenticateToken);
 router.post(
   '/',
   [
+    // Con apuesta gratuita el importe lo fija el token
     body('stake_amount')
+      .if(body('free_bet_id').not().exists())
       .isNumeric()
       .toFloat()
       .isFloat({ min: 1 })
@@ -31,11 +36,31 @@ router.post(
       .notEmpty()
       .withMessage('Descripción de selección requerida'),
     body('selections.*.odds_value')
-      .isNumeric()
-      .toFloat()
-      .isFloat({ min: 1 })
-      .withMessage('Valor de cuota inválido')
+      .notEmpty()
+      .withMessage('Valor de cuota inválido'),
+    body('odds_format')
+      .optional()
+      .isIn(ODDS_FORMATS)
+      .withMessage('Formato de cuotas inválido'),
+    body('odds_change_policy')
+      .optional()
+      .isIn(ODDS_CHANGE_POLICIES)
+      .withMessage('Política de cambio de cuotas inválida'),
+    body('system_type')
+      .optional()
+      .matches(/^([a-z0-9_]+|\d+\/\d+)$/i)
+      .withMessage('Tipo de sistema inválido'),
+    body('free_bet_id')
+      .optional()
+      .isInt({ min: 1 })
+      .toInt()
+      .withMessage('Apuesta gratuita inválida'),
+    body('booking_code')
+      .optional()
+      .isAlphanumeric()
+      .withMessage('Código de reserva inválido')
   ],
+  resolveOddsFormat,
   ticketController.createTicket
 );
 
@@ -44,14 +69,15 @@ router.get(
   [
     query('page').optional().isInt({ min: 1 }).withMessage('Página debe ser un número mayor a 0'),
     query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Límite debe ser entre 1 y 100'),
-    query('status').optional().isIn(['pending', 'won', 'lost', 'canceled']).withMessage('Estado inválido')
+    query('status').optional().isIn(['pending', 'pending_acceptance', 'rejected', 'won', 'lost', 'canceled', 'void', 'cashed_out']).withMessage('Estado inválido')
   ],
+  resolveOddsFormat,
   ticketController.getUserTickets
 );
 
 router.get('/statistics', ticketController.getUserTicketStatistics);
 
-router.get('/:id', ticketController.getUserTicketById);
+router.get('/:id', resolveOddsFormat, ticketController.getUserTicketById);
 
 // Rutas administrativas
 router.get(
@@ -60,7 +86,7 @@ router.get(
   [
     query('page').optional().isInt({ min: 1 }).withMessage('Página debe ser un número mayor a 0'),
     query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Límite debe ser entre 1 y 100'),
-    query('status').optional().isIn(['pending', 'won', 'lost', 'canceled']).withMessage('Estado inválido'),
+    query('status').optional().isIn(['pending', 'pending_acceptance', 'rejected', 'won', 'lost', 'canceled', 'void', 'cashed_out']).withMessage('Estado inválido'),
     query('username').optional().isString().withMessage('Nombre de usuario inválido'),
     query('dateFrom').optional().isISO8601().withMessage('Fecha desde inválida'),
     query('dateTo').optional().isISO8601().withMessage('Fecha hasta inválida')
@@ -72,7 +98,7 @@ router.get('/admin/statistics', authorizeAdmin, ticketController.getTicketStatis
 
 router.get('/admin/recent', authorizeAdmin, ticketController.getRecentTickets);
 
-router.get('/admin/:id', authorizeAdmin, ticketController.getTicketById);
+router.get('/admin/:id', authorizeAdmin, resolveOddsFormat, ticketController.getTicketById);
 
 router.put(
   '/admin/:id/status',
@@ -85,6 +111,8 @@ router.put(
   ticketController.updateTicketStatus
 );
 
+router.put('/admin/items/:itemId/void', authorizeAdmin, ticketController.voidTicketItem);
+
 router.delete('/admin/:id', authorizeAdmin, ticketController.deleteTicket);
 
 export default router;
\ No newline at end of file
@@ -2,6 +2,7 @@ import express from 'express';
 import { body } from 'express-validator';
 import userController from '../controllers/userController';
 import { authenticateToken, authorizeAdmin } from '../middlewares/auth';
+import { ODDS_FORMATS } from '../utils/oddsFormat';
 
 const router = express.Router();
 
@@ -18,6 +19,7 @@ router.put(
     body('email').optional().isEmail(),
     body('phone').optional().isString().notEmpty(),
     body('country').optional().isString().notEmpty(),
+    body('odds_format').optional().isIn(ODDS_FORMATS),
   ],
   userController.updateProfile
 );
@@ -0,0 +1,32 @@
+import express from 'express';
+import { body } from 'express-validator';
+import vipTierController from '../controllers/vipTierController';
+import { authenticateToken, authorizeAdmin } from '../middlewares/auth';
+
+const router = express.Router();
+
+// Todas las rutas requieren autenticación
+router.use(authenticateToken);
+
+router.get('/', vipTierController.getTiers);
+
+// Rutas para administradores
+const tierValidators = (optional: boolean) => {
+  const field = (name: string) => (optional ? body(name).optional() : body(name));
+
+  return [
+    field('name').isString().trim().notEmpty().withMessage('Nombre inválido'),
+    field('min_points').isInt({ min: 0 }).toInt().withMessage('Puntos mínimos inválidos'),
+    body('cashback_percentage').optional().isFloat({ min: 0, max: 100 }).toFloat().withMessage('Porcentaje de reembolso inválido'),
+    body('limit_multiplier').optional().isFloat({ gt: 0 }).toFloat().withMessage('Multiplicador de límites inválido'),
+    body('withdrawal_priority').optional().isInt({ min: 0 }).toInt().withMessage('Prioridad de retiros inválida'),
+    body('description').optional({ values: 'null' }).isString()
+  ];
+};
+
+router.get('/admin/distribution', authorizeAdmin, vipTierController.getDistribution);
+router.post('/', authorizeAdmin, tierValidators(false), vipTierController.createTier);
+router.put('/:id', authorizeAdmin, tierValidators(true), vipTierController.updateTier);
+router.delete('/:id', authorizeAdmin, vipTierController.deleteTier);
+
+export default router;
@@ -0,0 +1,45 @@
+import path from 'path';
+import pool from '../config/database';
+import oddsApiService from '../services/oddsApiService';
+
+// Ingesta de marcadores desde una respuesta grabada de /scores, sin llamar a la API.
+// Uso: npm run scores:fixture -- [archivo] [--dry-run]
+// Con --dry-run solo se leen los marcadores del archivo, sin tocar la base de datos.
+const DEFAULT_FIXTURE = path.join(__dirname, '..', '..', 'fixtures', 'odds-api', 'basketball_nba_scores.json');
+
+const main = async (): Promise<void> => {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const filePath = args.find(arg => !arg.startsWith('--')) || DEFAULT_FIXTURE;
+
+  if (dryRun) {
+    const scores = oddsApiService.loadScoresFixture(filePath);
+
+    console.table(scores.map(apiScore => {
+      const score = oddsApiService.readScore(apiScore);
+
+      return {
+        api_event_id: apiScore.id,
+        match: `${apiScore.away_team} @ ${apiScore.home_team}`,
+        home_score: score ? score.home_score : null,
+        away_score: score ? score.away_score : null,
+        status: !score ? 'unchanged' : score.completed ? 'completed' : 'live'
+      };
+    }));
+    return;
+  }
+
+  const results = await oddsApiService.syncScoresFromFixture(filePath);
+  console.table(results);
+
+  if (results.some(result => result.status === 'error')) {
+    process.exitCode = 1;
+  }
+};
+
+main()
+  .catch(error => {
+    console.error('❌ Error sincronizando marcadores desde el archivo:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
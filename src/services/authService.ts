@@ -1,6 +1,8 @@
 import jwt, { Secret, SignOptions} from 'jsonwebtoken';
 import { User, UserModel } from '../models/user';
 import { AppError } from '../middlewares/errorHandler';
+import referralModel from '../models/referral';
+import referralService, { MAX_REFERRAL_CODE_ATTEMPTS } from './referralService';
 import dotenv from 'dotenv';
 
 dotenv.config();
@@ -10,7 +12,11 @@ const JWT_EXPIRES_IN = (process.env.JWT_EXPIRES_IN) as SignOptions["expiresIn"];
 const userModel = new UserModel();
 
 export class AuthService {
-  async register(userData: User): Promise<{ user: Partial<User>, token: string }> {
+  async register(
+    userData: User,
+    referralCode?: string,
+    registrationIp?: string
+  ): Promise<{ user: Partial<User>, token: string }> {
     // Verificar si el nombre de usuario ya existe
     const existingUsername = await userModel.findByUsername(userData.username);
     if (existingUsername) {
@@ -23,8 +29,34 @@ export class AuthService {
       throw new AppError('El correo electrónico ya está registrado.', 400);
     }
 
-    // Crear el nuevo usuario
-    const newUser = await userModel.create(userData);
+    // Validar el código de quien lo invitó
+    const referrer = referralCode ? await referralService.findReferrer(referralCode) : null;
+
+    // Crear el nuevo usuario con su propio código de referido (reintentar si ya existe)
+    let newUser: User | null = null;
+
+    for (let attempt = 0; attempt < MAX_REFERRAL_CODE_ATTEMPTS && !newUser; attempt++) {
+      try {
+        newUser = await userModel.create({
+          ...userData,
+          referral_code: referralService.generateCode(),
+          referred_by: referrer?.id ?? null,
+          registration_ip: registrationIp ?? null
+        });
+      } catch (error: any) {
+        if (error.constraint !== 'users_referral_code_key') {
+          throw error;
+        }
+      }
+    }
+
+    if (!newUser) {
+      throw new AppError('No se pudo generar un código de referido', 500);
+    }
+
+    if (referrer) {
+      await referralModel.create({ referrer_id: referrer.id, referred_id: newUser.id! });
+    }
 
     // Generar token JWT
     const token = this.generateToken(newUser);
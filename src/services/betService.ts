@@ -0,0 +1,945 @@
+import { PoolClient } from 'pg';
+import { AppError } from '../middlewares/errorHandler';
+import { roundCurrency } from '../utils/helpers';
+import { americanToDecimal, roundOdds } from '../utils/oddsFormat';
+import freeBetModel from '../models/freeBet';
+import bookingCodeModel from '../models/bookingCode';
+import { IfBetCondition } from '../models/ticket';
+import limitService from './limitService';
+import correlationService from './correlationService';
+import inPlayService from './inPlayService';
+import freeBetService from './freeBetService';
+import boostService from './boostService';
+import parlayPromotionService from './parlayPromotionService';
+import teaserService, { TeaserQuote } from './teaserService';
+import ifBetService, { IfBetChain } from './ifBetService';
+
+// Política ante cambios de cuota entre lo que vio el usuario y el precio actual
+export type OddsChangePolicy = 'any' | 'higher' | 'none';
+
+export const ODDS_CHANGE_POLICIES: OddsChangePolicy[] = ['any', 'higher', 'none'];
+
+export interface PricedSelection {
+  event_id: number;
+  odds_id: number;
+  selection: string;
+  odds_value: number;
+  bet_type: string;
+  handicap?: number | null;
+  total?: number | null;
+  // Cuota mejorada aplicada y cuota original de la selección
+  boost_id?: number | null;
+  original_odds?: number | null;
+}
+
+export interface SelectionRequest {
+  odds_id: number;
+  // Cuota decimal que vio el usuario al armar el boleto
+  seen_odds?: number | null;
+}
+
+export interface PricedSelectionDetail extends PricedSelection {
+  price: number;
+  home_team: string;
+  away_team: string;
+  commence_time: Date;
+  in_play: boolean;
+}
+
+export interface CreatedTicket {
+  ticketId: number;
+  totalOdds: number;
+  potentialPayout: number;
+  // 'pending_acceptance' cuando el boleto incluye eventos en vivo
+  status: string;
+  acceptAfter: Date | null;
+  // Promociones de combinada aplicadas (potentialPayout ya incluye el boost)
+  parlayBoostPercentage?: number | null;
+  parlayInsurance?: boolean;
+}
+
+export interface ChangedPrice {
+  odds_id: number;
+  event_id: number;
+  selection: string;
+  requested_odds: number;
+  current_odds: number;
+}
+
+export interface BetBuilderQuote {
+  eventId: number;
+  // Producto de las cuotas como si fueran independientes
+  baseOdds: number;
+  // Factor de correlación aplicado sobre baseOdds
+  priceAdjustment: number;
+  totalOdds: number;
+}
+
+export interface PlaceBetRequest {
+  stakeAmount: number;
+  selections: SelectionRequest[];
+  systemType?: string | null;
+  betBuilder?: boolean;
+  oddsChangePolicy?: OddsChangePolicy;
+  // Código de reserva del que proviene la apuesta, para sus estadísticas
+  bookingCodeId?: number | null;
+  // Token de apuesta gratuita usado en lugar de saldo; fija el importe apostado
+  freeBetId?: number | null;
+  // Puntos que mueve un teaser en cada selección
+  teaserPoints?: number | null;
+  // If-bet: condición para pasar a la siguiente selección; con reverse se apuesta también en orden inverso
+  ifBetCondition?: IfBetCondition | null;
+  reverse?: boolean;
+  // Round robin: tamaños de las combinadas que se generan con las selecciones
+  roundRobinSizes?: number[] | null;
+}
+
+// Resultado de una apuesta colocada, con el detalle propio de sistemas y bet builders
+export interface PlacedBet {
+  ticketId: number;
+  status: string;
+  acceptAfter: Date | null;
+  // Importe apostado (total de las líneas en sistemas)
+  stakeAmount: number;
+  freeBetId: number | null;
+  totalOdds: number;
+  potentialPayout: number;
+  selections: PricedSelectionDetail[];
+  system?: SystemTicketResult;
+  roundRobin?: SystemTicketResult;
+  builder?: BetBuilderQuote;
+  teaser?: { points: number; legs: number };
+  ifBet?: { condition: IfBetCondition; reverse: boolean; chains: IfBetChain[] };
+  parlayBoostPercentage?: number | null;
+  parlayInsurance?: boolean;
+}
+
+export interface SystemTicketResult {
+  ticketId: number;
+  systemType: string;
+  linesCount: number;
+  unitStake: number;
+  totalStake: number;
+  maxPayout: number;
+  lines: {
+    ticketId: number;
+    selections: number[];
+    totalOdds: number;
+    potentialPayout: number;
+  }[];
+}
+
+// Resumen de un round robin antes de confirmarlo
+export interface RoundRobinQuote {
+  sizes: number[];
+  betsCount: number;
+  unitStake: number;
+  totalStake: number;
+  maxPayout: number;
+  lines: {
+    selections: number[];
+    totalOdds: number;
+    potentialPayout: number;
+  }[];
+}
+
+// Apuestas de sistema con nombre: número de selecciones y tamaños de combinación
+export const NAMED_SYSTEM_BETS: { [key: string]: { selections: number; sizes: number[] } } = {
+  trixie: { selections: 3, sizes: [2, 3] },
+  patent: { selections: 3, sizes: [1, 2, 3] },
+  yankee: { selections: 4, sizes: [2, 3, 4] },
+  lucky15: { selections: 4, sizes: [1, 2, 3, 4] },
+  super_yankee: { selections: 5, sizes: [2, 3, 4, 5] },
+  lucky31: { selections: 5, sizes: [1, 2, 3, 4, 5] },
+  heinz: { selections: 6, sizes: [2, 3, 4, 5, 6] },
+  lucky63: { selections: 6, sizes: [1, 2, 3, 4, 5, 6] },
+  super_heinz: { selections: 7, sizes: [2, 3, 4, 5, 6, 7] },
+  goliath: { selections: 8, sizes: [2, 3, 4, 5, 6, 7, 8] }
+};
+
+export const MAX_SYSTEM_SELECTIONS = 8;
+
+export const MIN_ROUND_ROBIN_SELECTIONS = 3;
+
+// Cuota mínima de un bet builder tras aplicar la correlación
+export const MIN_BET_BUILDER_ODDS = 1.01;
+
+class BetService {
+  // Colocar una apuesta dentro de la transacción del cliente: comprobar saldo, cotizar,
+  // crear el ticket según su tipo y descontar el importe
+  async placeBet(client: PoolClient, userId: number, request: PlaceBetRequest): Promise<PlacedBet> {
+    const { selections, systemType, betBuilder, teaserPoints, ifBetCondition, reverse, roundRobinSizes } = request;
+
+    if (!Array.isArray(selections) || selections.length === 0) {
+      throw new AppError('Se requiere al menos una selección para la apuesta', 400);
+    }
+
+    if (systemType && betBuilder) {
+      throw new AppError('Un bet builder no puede ser apuesta de sistema', 400);
+    }
+
+    if (teaserPoints && (systemType || betBuilder)) {
+      throw new AppError('Un teaser no puede ser apuesta de sistema ni bet builder', 400);
+    }
+
+    if (roundRobinSizes && (systemType || betBuilder || teaserPoints || ifBetCondition)) {
+      throw new AppError('Un round robin no puede combinarse con otro tipo de apuesta', 400);
+    }
+
+    if (reverse && !ifBetCondition) {
+      throw new AppError('Un reverse requiere indicar la condición del if-bet', 400);
+    }
+
+    if (ifBetCondition && (systemType || betBuilder || teaserPoints)) {
+      throw new AppError('Un if-bet no puede ser apuesta de sistema, bet builder ni teaser', 400);
+    }
+
+    const freeBet = request.freeBetId
+      ? await freeBetService.reserve(client, userId, request.freeBetId)
+      : null;
+
+    if (freeBet && systemType) {
+      throw new AppError('Las apuestas gratuitas no admiten apuestas de sistema', 400);
+    }
+
+    if (freeBet && ifBetCondition) {
+      throw new AppError('Las apuestas gratuitas no admiten if-bets', 400);
+    }
+
+    if (freeBet && roundRobinSizes) {
+      throw new AppError('Las apuestas gratuitas no admiten round robin', 400);
+    }
+
+    // Con apuesta gratuita se apuesta el importe completo del token
+    const stakeAmount = freeBet ? parseFloat(freeBet.amount) : request.stakeAmount;
+
+    // También llegan aquí boletos guardados, sin los validadores de la ruta
+    if (!(stakeAmount > 0)) {
+      throw new AppError('El importe de la apuesta debe ser mayor que cero', 400);
+    }
+
+    // En apuestas de sistema y round robin el stake se aplica a cada línea y en un reverse a cada orden
+    let totalStake = stakeAmount;
+
+    if (systemType) {
+      totalStake = stakeAmount * this.countSystemLines(systemType, selections.length);
+    } else if (roundRobinSizes) {
+      const sizes = this.getRoundRobinSizes(roundRobinSizes, selections.length);
+      totalStake = stakeAmount * this.countLines(sizes, selections.length);
+    } else if (reverse) {
+      totalStake = stakeAmount * 2;
+    }
+
+    const userResult = await client.query(
+      'SELECT balance FROM users WHERE id = $1 FOR UPDATE',
+      [userId]
+    );
+
+    if (userResult.rows.length === 0) {
+      throw new AppError('Usuario no encontrado', 404);
+    }
+
+    if (!freeBet && parseFloat(userResult.rows[0].balance) < totalStake) {
+      throw new AppError('Saldo insuficiente', 400);
+    }
+
+    const priced = await this.priceSelections(client, selections, request.oddsChangePolicy || 'none');
+
+    if (freeBet) {
+      await freeBetService.validateSelections(client, freeBet, priced);
+    }
+
+    if ((systemType || roundRobinSizes || betBuilder || teaserPoints || ifBetCondition) && priced.some(s => s.boost_id)) {
+      throw new AppError('Las cuotas mejoradas solo se admiten en apuestas simples o combinadas', 400);
+    }
+
+    let placed: PlacedBet;
+
+    if (systemType) {
+      const system = await this.createSystemTicket(client, userId, stakeAmount, systemType, priced);
+
+      placed = {
+        ticketId: system.ticketId,
+        status: 'pending',
+        acceptAfter: null,
+        stakeAmount: system.totalStake,
+        freeBetId: null,
+        totalOdds: system.maxPayout / system.totalStake,
+        potentialPayout: system.maxPayout,
+        selections: priced,
+        system
+      };
+    } else if (roundRobinSizes) {
+      const roundRobin = await this.createRoundRobinTicket(client, userId, stakeAmount, roundRobinSizes, priced);
+
+      placed = {
+        ticketId: roundRobin.ticketId,
+        status: 'pending',
+        acceptAfter: null,
+        stakeAmount: roundRobin.totalStake,
+        freeBetId: null,
+        totalOdds: roundRobin.maxPayout / roundRobin.totalStake,
+        potentialPayout: roundRobin.maxPayout,
+        selections: priced,
+        roundRobin
+      };
+    } else if (betBuilder) {
+      const builder = await this.createBetBuilderTicket(client, userId, stakeAmount, priced);
+
+      placed = {
+        ticketId: builder.ticketId,
+        status: builder.status,
+        acceptAfter: builder.acceptAfter,
+        stakeAmount,
+        freeBetId: null,
+        totalOdds: builder.totalOdds,
+        potentialPayout: builder.potentialPayout,
+        selections: priced,
+        builder: {
+          eventId: builder.eventId,
+          baseOdds: builder.baseOdds,
+          priceAdjustment: builder.priceAdjustment,
+          totalOdds: builder.totalOdds
+        }
+      };
+    } else if (teaserPoints) {
+      const teaser = await this.createTeaserTicket(client, userId, stakeAmount, priced, teaserPoints);
+
+      placed = {
+        ticketId: teaser.ticketId,
+        status: teaser.status,
+        acceptAfter: teaser.acceptAfter,
+        stakeAmount,
+        freeBetId: null,
+        totalOdds: teaser.totalOdds,
+        potentialPayout: teaser.potentialPayout,
+        // Las selecciones se devuelven con la línea movida
+        selections: teaser.selections as PricedSelectionDetail[],
+        teaser: { points: teaser.points, legs: teaser.legs }
+      };
+    } else if (ifBetCondition) {
+      const ifBet = await this.createIfBetTicket(client, userId, stakeAmount, priced, ifBetCondition, !!reverse);
+
+      placed = {
+        ticketId: ifBet.ticketId,
+        status: 'pending',
+        acceptAfter: null,
+        stakeAmount: ifBet.totalStake,
+        freeBetId: null,
+        totalOdds: ifBet.maxPayout / ifBet.totalStake,
+        potentialPayout: ifBet.maxPayout,
+        selections: priced,
+        ifBet: { condition: ifBetCondition, reverse: !!reverse, chains: ifBet.chains }
+      };
+    } else {
+      // Las promociones de combinada no aplican a apuestas gratuitas
+      const ticket = await this.createTicket(client, userId, stakeAmount, priced, !freeBet);
+      await boostService.consume(client, userId, ticket.ticketId, stakeAmount, priced);
+
+      placed = {
+        ...ticket,
+        stakeAmount,
+        freeBetId: null,
+        selections: priced
+      };
+    }
+
+    if (freeBet) {
+      freeBetService.checkMinOdds(freeBet, placed.totalOdds);
+
+      await client.query(
+        'UPDATE tickets SET free_bet_id = $1 WHERE id = $2',
+        [freeBet.id, placed.ticketId]
+      );
+      await freeBetModel.markUsed(client, freeBet.id!, placed.ticketId);
+
+      placed.freeBetId = freeBet.id!;
+    }
+
+    // Solo se atribuye al código si sigue vigente y la apuesta incluye alguna de sus selecciones
+    if (
+      request.bookingCodeId &&
+      await bookingCodeModel.matchesSelections(client, request.bookingCodeId, priced.map(selection => selection.odds_id))
+    ) {
+      await client.query(
+        'UPDATE tickets SET booking_code_id = $1 WHERE id = $2',
+        [request.bookingCodeId, placed.ticketId]
+      );
+    }
+
+    if (!freeBet) {
+      await client.query(
+        'UPDATE users SET balance = balance - $1 WHERE id = $2',
+        [placed.stakeAmount, userId]
+      );
+    }
+
+    return placed;
+  }
+
+  // Cotizar las selecciones con las cuotas vigentes de la tabla odds y aplicar la política
+  // de cambios. Las selecciones rechazadas se devuelven juntas en un error 409.
+  async priceSelections(
+    client: PoolClient,
+    requests: SelectionRequest[],
+    policy: OddsChangePolicy = 'none'
+  ): Promise<PricedSelectionDetail[]> {
+    const priced: PricedSelectionDetail[] = [];
+    const changedPrices: ChangedPrice[] = [];
+
+    for (const request of requests) {
+      const oddsResult = await client.query(
+        `SELECT o.*, e.home_team, e.away_team, e.commence_time, e.betting_closes_at, e.status as event_status
+         FROM odds o
+         JOIN events e ON o.event_id = e.id
+         WHERE o.id = $1`,
+        [request.odds_id]
+      );
+
+      if (oddsResult.rows.length === 0) {
+        throw new AppError(`Cuota con id ${request.odds_id} no encontrada`, 404);
+      }
+
+      const odds = oddsResult.rows[0];
+
+      // Los eventos en vivo admiten apuestas con retraso de aceptación; el resto debe no haber comenzado
+      const inPlay = odds.event_status === 'live';
+
+      if (!inPlay && odds.event_status !== 'upcoming') {
+        throw new AppError(`El evento para la selección ${request.odds_id} no admite apuestas`, 400);
+      }
+
+      // Un outright admite apuestas hasta su cierre aunque la competición ya haya comenzado
+      if (!inPlay && new Date(odds.betting_closes_at || odds.commence_time) <= new Date()) {
+        throw new AppError(`El evento para la selección ${request.odds_id} ya ha comenzado`, 400);
+      }
+
+      if (odds.suspended) {
+        throw new AppError(`El mercado de la selección ${request.odds_id} está suspendido`, 400);
+      }
+
+      // Una cuota mejorada vigente sustituye al precio original
+      const originalOdds = americanToDecimal(parseFloat(odds.price));
+      const boost = await boostService.findActiveBoost(client, odds.id, originalOdds);
+      const currentOdds = boost ? parseFloat(boost.boosted_odds) : originalOdds;
+      const seenOdds = request.seen_odds ?? null;
+
+      // Sin la cuota vista no se puede aplicar la política; solo 'any' acepta el precio vigente a ciegas
+      if (seenOdds === null && policy !== 'any') {
+        throw new AppError(`Falta la cuota vista para la selección ${request.odds_id}`, 400);
+      }
+
+      if (seenOdds !== null && !(seenOdds > 1)) {
+        throw new AppError(`Valor de cuota inválido para la selección ${request.odds_id}`, 400);
+      }
+
+      if (seenOdds !== null && this.isRejectedChange(seenOdds, currentOdds, policy)) {
+        changedPrices.push({
+          odds_id: odds.id,
+          event_id: odds.event_id,
+          selection: odds.outcome_name,
+          requested_odds: roundOdds(seenOdds),
+          current_odds: roundOdds(currentOdds)
+        });
+      }
+
+      priced.push({
+        event_id: odds.event_id,
+        odds_id: odds.id,
+        selection: odds.outcome_name,
+        odds_value: currentOdds,
+        bet_type: odds.market_type,
+        handicap: odds.handicap,
+        total: odds.total,
+        boost_id: boost ? boost.id : null,
+        original_odds: boost ? originalOdds : null,
+        price: parseFloat(odds.price),
+        home_team: odds.home_team,
+        away_team: odds.away_team,
+        commence_time: odds.commence_time,
+        in_play: inPlay
+      });
+    }
+
+    if (changedPrices.length > 0) {
+      throw new AppError('Las cuotas han cambiado', 409, { changed_prices: changedPrices });
+    }
+
+    return priced;
+  }
+
+  // Las cuotas se comparan redondeadas a dos decimales, como se muestran y almacenan
+  private isRejectedChange(seenOdds: number, currentOdds: number, policy: OddsChangePolicy): boolean {
+    const seen = roundOdds(seenOdds);
+    const current = roundOdds(currentOdds);
+
+    if (policy === 'any' || seen === current) {
+      return false;
+    }
+
+    if (policy === 'higher') {
+      return current < seen;
+    }
+
+    return true;
+  }
+
+  // Crear un ticket simple o combinado con sus selecciones
+  async createTicket(
+    client: PoolClient,
+    userId: number,
+    stakeAmount: number,
+    selections: PricedSelection[],
+    applyPromotions: boolean = true
+  ): Promise<CreatedTicket> {
+    await correlationService.validateSlip(client, selections);
+
+    // Boost de ganancias y seguro de combinada según número de selecciones y cuota mínima
+    const promotions = applyPromotions
+      ? await parlayPromotionService.findApplicable(client, selections)
+      : { boost: null, insurance: null };
+    const boostPercentage = promotions.boost?.boost_percentage ? parseFloat(promotions.boost.boost_percentage) : null;
+
+    const totalOdds = selections.reduce((odds, s) => odds * s.odds_value, 1);
+    const potentialPayout = parlayPromotionService.boostedPayout(stakeAmount, totalOdds, boostPercentage);
+
+    await limitService.enforce(client, userId, selections, stakeAmount, potentialPayout);
+
+    // Con eventos en vivo el ticket espera el retraso del deporte antes de aceptarse
+    const delay = await inPlayService.getAcceptanceDelay(client, selections);
+
+    const ticketResult = await client.query(
+      `INSERT INTO tickets (user_id, total_odds, stake_amount, potential_payout, status, ticket_type, accept_after,
+                            parlay_boost_promotion_id, parlay_boost_percentage, insurance_promotion_id)
+       VALUES ($1, $2, $3, $4, $5, $6, NOW() + make_interval(secs => $7), $8, $9, $10)
+       RETURNING id, status, accept_after`,
+      [
+        userId,
+        totalOdds,
+        stakeAmount,
+        potentialPayout,
+        delay === null ? 'pending' : 'pending_acceptance',
+        selections.length === 1 ? 'single' : 'accumulator',
+        delay,
+        promotions.boost?.id ?? null,
+        boostPercentage,
+        promotions.insurance?.id ?? null
+      ]
+    );
+
+    const ticket = ticketResult.rows[0];
+    await this.insertItems(client, ticket.id, selections);
+
+    return {
+      ticketId: ticket.id,
+      totalOdds,
+      potentialPayout,
+      status: ticket.status,
+      acceptAfter: ticket.accept_after,
+      parlayBoostPercentage: boostPercentage,
+      parlayInsurance: promotions.insurance !== null
+    };
+  }
+
+
+  // Cotizar un bet builder: varias selecciones de un mismo evento con combinaciones aprobadas.
+  // La cuota es el producto de las cuotas ajustado por el factor de correlación de cada par.
+  async quoteBetBuilder(client: PoolClient, selections: PricedSelection[]): Promise<BetBuilderQuote> {
+    if (selections.length < 2) {
+      throw new AppError('El bet builder requiere al menos dos selecciones', 400);
+    }
+
+    const eventId = selections[0].event_id;
+
+    if (selections.some(s => s.event_id !== eventId)) {
+      throw new AppError('Todas las selecciones del bet builder deben ser del mismo evento', 400);
+    }
+
+    await correlationService.validateSlip(client, selections);
+
+    const baseOdds = selections.reduce((odds, s) => odds * s.odds_value, 1);
+    const factor = await correlationService.correlationFactor(client, eventId, selections);
+    const priceAdjustment = Math.round(factor * 1000) / 1000;
+    const totalOdds = roundOdds(Math.max(baseOdds * priceAdjustment, MIN_BET_BUILDER_ODDS));
+
+    return {
+      eventId,
+      baseOdds: roundOdds(baseOdds),
+      priceAdjustment,
+      totalOdds
+    };
+  }
+
+  // Crear un ticket de bet builder con la cuota ajustada por correlación
+  async createBetBuilderTicket(
+    client: PoolClient,
+    userId: number,
+    stakeAmount: number,
+    selections: PricedSelection[]
+  ): Promise<BetBuilderQuote & CreatedTicket> {
+    const quote = await this.quoteBetBuilder(client, selections);
+    const potentialPayout = stakeAmount * quote.totalOdds;
+
+    await limitService.enforce(client, userId, selections, stakeAmount, potentialPayout);
+
+    const delay = await inPlayService.getAcceptanceDelay(client, selections);
+
+    const ticketResult = await client.query(
+      `INSERT INTO tickets (
+         user_id, total_odds, stake_amount, potential_payout, status, ticket_type, price_adjustment, accept_after
+       )
+       VALUES ($1, $2, $3, $4, $5, 'bet_builder', $6, NOW() + make_interval(secs => $7))
+       RETURNING id, status, accept_after`,
+      [
+        userId,
+        quote.totalOdds,
+        stakeAmount,
+        potentialPayout,
+        delay === null ? 'pending' : 'pending_acceptance',
+        quote.priceAdjustment,
+        delay
+      ]
+    );
+
+    const ticket = ticketResult.rows[0];
+    await this.insertItems(client, ticket.id, selections);
+
+    return {
+      ...quote,
+      ticketId: ticket.id,
+      potentialPayout,
+      status: ticket.status,
+      acceptAfter: ticket.accept_after
+    };
+  }
+
+  // Crear un teaser: las selecciones se guardan con la línea movida (la que se califica al liquidar)
+  // y el ticket se paga con la cuota de la tabla de teasers
+  async createTeaserTicket(
+    client: PoolClient,
+    userId: number,
+    stakeAmount: number,
+    selections: PricedSelectionDetail[],
+    points: number
+  ): Promise<TeaserQuote & CreatedTicket> {
+    await correlationService.validateSlip(client, selections);
+
+    const quote = await teaserService.quote(client, selections, points);
+    const potentialPayout = stakeAmount * quote.totalOdds;
+
+    await limitService.enforce(client, userId, quote.selections, stakeAmount, potentialPayout);
+
+    const ticketResult = await client.query(
+      `INSERT INTO tickets (user_id, total_odds, stake_amount, potential_payout, status, ticket_type, teaser_points)
+       VALUES ($1, $2, $3, $4, 'pending', 'teaser', $5)
+       RETURNING id, status, accept_after`,
+      [userId, quote.totalOdds, stakeAmount, potentialPayout, points]
+    );
+
+    const ticket = ticketResult.rows[0];
+    await this.insertItems(client, ticket.id, quote.selections);
+
+    return {
+      ...quote,
+      ticketId: ticket.id,
+      potentialPayout,
+      status: ticket.status,
+      acceptAfter: ticket.accept_after
+    };
+  }
+
+  // Tamaños de combinación de un sistema: nombre conocido ("yankee") o formato k/n ("2/3")
+  getSystemSizes(systemType: string, selectionsCount: number): number[] {
+    if (selectionsCount > MAX_SYSTEM_SELECTIONS) {
+      throw new AppError(`Máximo ${MAX_SYSTEM_SELECTIONS} selecciones por apuesta de sistema`, 400);
+    }
+
+    const key = systemType.toLowerCase();
+    const named = NAMED_SYSTEM_BETS[key];
+
+    if (named) {
+      if (named.selections !== selectionsCount) {
+        throw new AppError(
+          `El sistema ${systemType} requiere exactamente ${named.selections} selecciones`,
+          400
+        );
+      }
+      return named.sizes;
+    }
+
+    const match = /^(\d+)\/(\d+)$/.exec(key);
+
+    if (!match) {
+      throw new AppError(`Tipo de sistema inválido: ${systemType}`, 400);
+    }
+
+    const size = parseInt(match[1], 10);
+    const total = parseInt(match[2], 10);
+
+    if (total !== selectionsCount) {
+      throw new AppError(`El sistema ${systemType} requiere exactamente ${total} selecciones`, 400);
+    }
+
+    if (size < 1 || size > total) {
+      throw new AppError(`Tipo de sistema inválido: ${systemType}`, 400);
+    }
+
+    return [size];
+  }
+
+  // Tamaños de combinada de un round robin: entre 2 y el número de selecciones, sin repetir
+  getRoundRobinSizes(sizes: number[], selectionsCount: number): number[] {
+    if (selectionsCount < MIN_ROUND_ROBIN_SELECTIONS || selectionsCount > MAX_SYSTEM_SELECTIONS) {
+      throw new AppError(
+        `El round robin requiere entre ${MIN_ROUND_ROBIN_SELECTIONS} y ${MAX_SYSTEM_SELECTIONS} selecciones`,
+        400
+      );
+    }
+
+    const unique = Array.from(new Set(sizes)).sort((a, b) => a - b);
+
+    if (unique.length === 0 || unique.some(size => !Number.isInteger(size) || size < 2 || size > selectionsCount)) {
+      throw new AppError(`Los tamaños de combinada deben estar entre 2 y ${selectionsCount}`, 400);
+    }
+
+    return unique;
+  }
+
+  // Todas las combinaciones de k elementos, en orden
+  combinations<T>(items: T[], k: number): T[][] {
+    const result: T[][] = [];
+
+    const walk = (start: number, current: T[]) => {
+      if (current.length === k) {
+        result.push([...current]);
+        return;
+      }
+
+      for (let i = start; i < items.length; i++) {
+        current.push(items[i]);
+        walk(i + 1, current);
+        current.pop();
+      }
+    };
+
+    walk(0, []);
+    return result;
+  }
+
+  // Expandir las selecciones en las líneas de cada tamaño de combinación
+  buildLines<T>(selections: T[], sizes: number[]): T[][] {
+    return sizes.reduce<T[][]>((lines, size) => lines.concat(this.combinations(selections, size)), []);
+  }
+
+  // Número de líneas (y de stakes) que genera un sistema
+  countSystemLines(systemType: string, selectionsCount: number): number {
+    return this.countLines(this.getSystemSizes(systemType, selectionsCount), selectionsCount);
+  }
+
+  countLines(sizes: number[], selectionsCount: number): number {
+    return sizes.reduce((count, size) => count + this.binomial(selectionsCount, size), 0);
+  }
+
+  private binomial(n: number, k: number): number {
+    let result = 1;
+    for (let i = 1; i <= k; i++) {
+      result = (result * (n - k + i)) / i;
+    }
+    return Math.round(result);
+  }
+
+  // Crear un ticket padre de sistema con una línea (ticket hijo) por combinación.
+  // El stake indicado se aplica a cada línea y se descuenta una sola vez sobre el total.
+  async createSystemTicket(
+    client: PoolClient,
+    userId: number,
+    unitStake: number,
+    systemType: string,
+    selections: PricedSelection[]
+  ): Promise<SystemTicketResult> {
+    const sizes = this.getSystemSizes(systemType, selections.length);
+    return this.createLinesTicket(client, userId, unitStake, selections, sizes, 'system', systemType.toLowerCase());
+  }
+
+  // Crear un round robin: un ticket padre con una combinada por cada combinación de los tamaños
+  // elegidos. Se liquida como un sistema; system_type guarda los tamaños ("2,3").
+  async createRoundRobinTicket(
+    client: PoolClient,
+    userId: number,
+    unitStake: number,
+    sizes: number[],
+    selections: PricedSelection[]
+  ): Promise<SystemTicketResult> {
+    const validSizes = this.getRoundRobinSizes(sizes, selections.length);
+    return this.createLinesTicket(client, userId, unitStake, selections, validSizes, 'round_robin', validSizes.join(','));
+  }
+
+  // Resumen de un round robin (número de combinadas, stake total y pago máximo) sin colocarlo
+  async quoteRoundRobin(
+    client: PoolClient,
+    unitStake: number,
+    sizes: number[],
+    selections: PricedSelection[]
+  ): Promise<RoundRobinQuote> {
+    const validSizes = this.getRoundRobinSizes(sizes, selections.length);
+    await correlationService.validateSlip(client, selections);
+
+    const priced = this.priceLines(unitStake, selections, validSizes);
+
+    return {
+      sizes: validSizes,
+      betsCount: priced.lines.length,
+      unitStake,
+      totalStake: priced.totalStake,
+      maxPayout: priced.maxPayout,
+      lines: priced.lines.map((line, i) => ({
+        selections: line.map(s => s.odds_id),
+        totalOdds: priced.linePrices[i],
+        potentialPayout: roundCurrency(unitStake * priced.linePrices[i])
+      }))
+    };
+  }
+
+  // Líneas de cada tamaño con su cuota, stake total y pago máximo si ganan todas
+  private priceLines(unitStake: number, selections: PricedSelection[], sizes: number[]) {
+    const lines = this.buildLines(selections, sizes);
+    const linePrices = lines.map(line => line.reduce((odds, s) => odds * s.odds_value, 1));
+
+    return {
+      lines,
+      linePrices,
+      totalStake: roundCurrency(unitStake * lines.length),
+      maxPayout: roundCurrency(linePrices.reduce((sum, odds) => sum + unitStake * odds, 0))
+    };
+  }
+
+  // Ticket padre con una línea (ticket hijo) por combinación, común a sistemas y round robin
+  private async createLinesTicket(
+    client: PoolClient,
+    userId: number,
+    unitStake: number,
+    selections: PricedSelection[],
+    sizes: number[],
+    ticketType: 'system' | 'round_robin',
+    systemType: string
+  ): Promise<SystemTicketResult> {
+    await correlationService.validateSlip(client, selections);
+
+    // Las líneas se liquidan por separado; no hay aceptación diferida para sistemas
+    if ((await inPlayService.getAcceptanceDelay(client, selections)) !== null) {
+      throw new AppError('Las apuestas de sistema no admiten eventos en vivo', 400);
+    }
+
+    const { lines, linePrices, totalStake, maxPayout } = this.priceLines(unitStake, selections, sizes);
+
+    // Stake mínimo y máximo por línea; acumulado y pago máximo sobre el ticket completo
+    await limitService.enforce(client, userId, selections, totalStake, maxPayout, unitStake);
+
+    const parentResult = await client.query(
+      `INSERT INTO tickets (
+         user_id, total_odds, stake_amount, potential_payout, status, ticket_type, system_type
+       )
+       VALUES ($1, $2, $3, $4, 'pending', $5, $6)
+       RETURNING id`,
+      [userId, maxPayout / totalStake, totalStake, maxPayout, ticketType, systemType]
+    );
+
+    const parentId = parentResult.rows[0].id;
+    const createdLines: SystemTicketResult['lines'] = [];
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+      const totalOdds = linePrices[i];
+      const potentialPayout = unitStake * totalOdds;
+
+      const lineResult = await client.query(
+        `INSERT INTO tickets (
+           user_id, total_odds, stake_amount, potential_payout, status, ticket_type, parent_ticket_id
+         )
+         VALUES ($1, $2, $3, $4, 'pending', $5, $6)
+         RETURNING id`,
+        [userId, totalOdds, unitStake, potentialPayout, line.length === 1 ? 'single' : 'accumulator', parentId]
+      );
+
+      const lineId = lineResult.rows[0].id;
+      await this.insertItems(client, lineId, line);
+
+      createdLines.push({
+        ticketId: lineId,
+        selections: line.map(s => s.odds_id),
+        totalOdds,
+        potentialPayout: roundCurrency(potentialPayout)
+      });
+    }
+
+    return {
+      ticketId: parentId,
+      systemType,
+      linesCount: lines.length,
+      unitStake,
+      totalStake,
+      maxPayout,
+      lines: createdLines
+    };
+  }
+
+  // Crear un if-bet (o un reverse con ambos órdenes). Solo la primera selección de cada cadena
+  // se apuesta al colocarlo; las siguientes reciben su importe al liquidarse la anterior.
+  async createIfBetTicket(
+    client: PoolClient,
+    userId: number,
+    stake: number,
+    selections: PricedSelection[],
+    condition: IfBetCondition,
+    reverse: boolean
+  ): Promise<{ ticketId: number; totalStake: number; maxPayout: number; chains: IfBetChain[] }> {
+    if (selections.length < 2) {
+      throw new AppError('El if-bet requiere al menos dos selecciones', 400);
+    }
+
+    await correlationService.validateSlip(client, selections);
+
+    // El orden de la cadena debe respetarse; no hay aceptación diferida para if-bets
+    if ((await inPlayService.getAcceptanceDelay(client, selections)) !== null) {
+      throw new AppError('Los if-bets no admiten eventos en vivo', 400);
+    }
+
+    const totalStake = roundCurrency(reverse ? stake * 2 : stake);
+    const maxPayout = roundCurrency(ifBetService.maxPayout(stake, selections) * (reverse ? 2 : 1));
+
+    await limitService.enforce(client, userId, selections, totalStake, maxPayout, stake);
+
+    if (reverse) {
+      const result = await ifBetService.createReverse(client, userId, stake, selections, condition);
+      return { ticketId: result.ticketId, totalStake, maxPayout, chains: result.chains };
+    }
+
+    const chain = await ifBetService.createChain(client, userId, stake, selections, condition);
+    return { ticketId: chain.ticketId, totalStake, maxPayout, chains: [chain] };
+  }
+
+  // Registrar las selecciones de un ticket
+  async insertItems(client: PoolClient, ticketId: number, selections: PricedSelection[]): Promise<void> {
+    for (const selection of selections) {
+      await client.query(
+        `INSERT INTO ticket_items (
+           ticket_id, event_id, odds_id, odds_value, bet_type, selection, handicap, total, boost_id, status
+         )
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, 'pending')`,
+        [
+          ticketId,
+          selection.event_id,
+          selection.odds_id,
+          selection.odds_value,
+          selection.bet_type,
+          selection.selection,
+          selection.handicap ?? null,
+          selection.total ?? null,
+          selection.boost_id ?? null
+        ]
+      );
+    }
+  }
+}
+
+export default new BetService();
@@ -0,0 +1,254 @@
+import pool from '../config/database';
+import { AppError } from '../middlewares/errorHandler';
+import betSlipModel, { BetSlip, BetSlipSelection } from '../models/betSlip';
+import { americanToDecimal, roundOdds } from '../utils/oddsFormat';
+import { PricedSelection } from './betService';
+import correlationService, { SelectionConflict } from './correlationService';
+import bookingCodeService from './bookingCodeService';
+import boostService from './boostService';
+
+export type SlipSelectionStatus = 'open' | 'live' | 'suspended' | 'event_started' | 'event_closed' | 'odds_removed';
+
+export interface SlipSelectionView extends Omit<BetSlipSelection, 'seen_odds'> {
+  seen_odds: number;
+  home_team: string | null;
+  away_team: string | null;
+  commence_time: Date | null;
+  event_status: string | null;
+  current_odds: number | null;
+  price_changed: boolean;
+  status: SlipSelectionStatus;
+  error: string | null;
+}
+
+export interface BetSlipView extends BetSlip {
+  selections: SlipSelectionView[];
+  conflicts: SelectionConflict[];
+  total_odds: number | null;
+  potential_payout: number | null;
+  // Se puede colocar si todas las selecciones están abiertas y no hay conflictos
+  can_place: boolean;
+}
+
+class BetSlipService {
+  // Boleto del usuario con precios y estados vigentes de cada selección
+  async getSlip(userId: number): Promise<BetSlipView> {
+    const slip = await betSlipModel.findOrCreate(userId);
+    const selections = await betSlipModel.getSelections(slip.id!);
+    const views: SlipSelectionView[] = [];
+
+    for (const selection of selections) {
+      views.push(await this.refreshSelection(selection));
+    }
+
+    const placeable = views.filter(v => v.status === 'open' || v.status === 'live');
+    const client = await pool.connect();
+    let conflicts: SelectionConflict[] = [];
+
+    try {
+      conflicts = await correlationService.findConflicts(client, placeable.map(v => this.toPriced(v)));
+    } finally {
+      client.release();
+    }
+
+    const allPlaceable = views.length > 0 && placeable.length === views.length;
+    const totalOdds = allPlaceable
+      ? roundOdds(placeable.reduce((odds, v) => odds * v.current_odds!, 1))
+      : null;
+    const stake = slip.stake_amount !== null && slip.stake_amount !== undefined
+      ? parseFloat(slip.stake_amount)
+      : null;
+
+    return {
+      ...slip,
+      selections: views,
+      conflicts,
+      // Sistemas y bet builders se cotizan al colocar la apuesta
+      total_odds: slip.system_type || slip.bet_builder ? null : totalOdds,
+      potential_payout: !slip.system_type && !slip.bet_builder && totalOdds !== null && stake !== null
+        ? Math.round(stake * totalOdds * 100) / 100
+        : null,
+      can_place: allPlaceable && conflicts.length === 0 && stake !== null
+    };
+  }
+
+  // Añadir una selección a partir de una cuota vigente
+  async addSelection(userId: number, oddsId: number): Promise<BetSlipView> {
+    const oddsResult = await pool.query(
+      `SELECT o.*, e.status as event_status, e.commence_time
+       FROM odds o
+       JOIN events e ON o.event_id = e.id
+       WHERE o.id = $1`,
+      [oddsId]
+    );
+
+    if (oddsResult.rows.length === 0) {
+      throw new AppError(`Cuota con id ${oddsId} no encontrada`, 404);
+    }
+
+    const odds = oddsResult.rows[0];
+
+    if (!['upcoming', 'live'].includes(odds.event_status)) {
+      throw new AppError(`El evento para la selección ${oddsId} no admite apuestas`, 400);
+    }
+
+    const originalOdds = americanToDecimal(parseFloat(odds.price));
+    const boost = await boostService.findActiveBoost(pool, odds.id, originalOdds);
+    const slip = await betSlipModel.findOrCreate(userId);
+
+    await betSlipModel.addSelection({
+      slip_id: slip.id!,
+      odds_id: odds.id,
+      event_id: odds.event_id,
+      market_type: odds.market_type,
+      outcome_name: odds.outcome_name,
+      handicap: odds.handicap,
+      total: odds.total,
+      seen_odds: roundOdds(boost ? parseFloat(boost.boosted_odds) : originalOdds)
+    });
+
+    return this.getSlip(userId);
+  }
+
+  async removeSelection(userId: number, oddsId: number): Promise<BetSlipView> {
+    const slip = await betSlipModel.findOrCreate(userId);
+    const removed = await betSlipModel.removeSelection(slip.id!, oddsId);
+
+    if (!removed) {
+      throw new AppError('Selección no encontrada en el boleto', 404);
+    }
+
+    return this.getSlip(userId);
+  }
+
+  // Actualizar stake y tipo de apuesta; accept_prices acepta las cuotas vigentes
+  async updateSlip(
+    userId: number,
+    slipData: Partial<BetSlip> & { accept_prices?: boolean }
+  ): Promise<BetSlipView> {
+    const slip = await betSlipModel.findOrCreate(userId);
+
+    await betSlipModel.update(slip.id!, {
+      stake_amount: slipData.stake_amount,
+      system_type: slipData.system_type,
+      bet_builder: slipData.bet_builder
+    });
+
+    if (slipData.accept_prices) {
+      const view = await this.getSlip(userId);
+
+      for (const selection of view.selections) {
+        if (selection.price_changed && selection.current_odds !== null) {
+          await betSlipModel.updateSeenOdds(selection.id!, selection.current_odds);
+        }
+      }
+    }
+
+    return this.getSlip(userId);
+  }
+
+  // Reemplazar el contenido del boleto por las selecciones disponibles de un código de reserva
+  async loadBookingCode(userId: number, code: string): Promise<BetSlipView> {
+    const booking = await bookingCodeService.loadCode(code);
+    const available = booking.selections.filter(s => s.available);
+
+    if (available.length === 0) {
+      throw new AppError('Ninguna selección del código está disponible', 400);
+    }
+
+    const slip = await betSlipModel.findOrCreate(userId);
+    await betSlipModel.clear(slip.id!);
+
+    for (const selection of available) {
+      await betSlipModel.addSelection({
+        slip_id: slip.id!,
+        odds_id: selection.current_odds_id!,
+        event_id: selection.event_id,
+        market_type: selection.market_type,
+        outcome_name: selection.outcome_name,
+        handicap: selection.handicap,
+        total: selection.total,
+        seen_odds: selection.current_odds!
+      });
+    }
+
+    await betSlipModel.update(slip.id!, { booking_code_id: booking.id });
+
+    return this.getSlip(userId);
+  }
+
+  async clearSlip(userId: number): Promise<BetSlipView> {
+    const slip = await betSlipModel.findOrCreate(userId);
+    await betSlipModel.clear(slip.id!);
+
+    return this.getSlip(userId);
+  }
+
+  private async refreshSelection(selection: BetSlipSelection): Promise<SlipSelectionView> {
+    const result = await pool.query(
+      `SELECT e.home_team, e.away_team, e.commence_time, e.status as event_status,
+              COALESCE(e.betting_closes_at, e.commence_time) as closes_at,
+              o.id as current_odds_id, o.price, o.suspended
+       FROM events e
+       LEFT JOIN odds o ON o.id = $2
+       WHERE e.id = $1`,
+      [selection.event_id, selection.odds_id]
+    );
+
+    const row = result.rows[0];
+    const seenOdds = parseFloat(selection.seen_odds);
+    let currentOdds: number | null = null;
+
+    if (row && row.current_odds_id !== null) {
+      const originalOdds = americanToDecimal(parseFloat(row.price));
+      const boost = await boostService.findActiveBoost(pool, row.current_odds_id, originalOdds);
+      currentOdds = roundOdds(boost ? parseFloat(boost.boosted_odds) : originalOdds);
+    }
+
+    let status: SlipSelectionStatus;
+    let error: string | null = null;
+
+    if (!row || !['upcoming', 'live'].includes(row.event_status)) {
+      status = 'event_closed';
+      error = 'El evento ya no admite apuestas';
+    } else if (currentOdds === null) {
+      status = 'odds_removed';
+      error = 'La cuota ya no está disponible';
+    } else if (row.event_status === 'upcoming' && new Date(row.closes_at) <= new Date()) {
+      status = 'event_started';
+      error = 'El evento ya ha comenzado';
+    } else if (row.suspended) {
+      status = 'suspended';
+      error = 'El mercado está suspendido';
+    } else {
+      status = row.event_status === 'live' ? 'live' : 'open';
+    }
+
+    return {
+      ...selection,
+      seen_odds: seenOdds,
+      home_team: row?.home_team ?? null,
+      away_team: row?.away_team ?? null,
+      commence_time: row?.commence_time ?? null,
+      event_status: row?.event_status ?? null,
+      current_odds: currentOdds,
+      price_changed: currentOdds !== null && currentOdds !== roundOdds(seenOdds),
+      status,
+      error
+    };
+  }
+
+  private toPriced(view: SlipSelectionView): PricedSelection {
+    return {
+      event_id: view.event_id,
+      odds_id: view.odds_id,
+      selection: view.outcome_name,
+      odds_value: view.current_odds!,
+      bet_type: view.market_type,
+      handicap: view.handicap,
+      total: view.total
+    };
+  }
+}
+
+export default new BetSlipService();
@@ -0,0 +1,199 @@
+import { PoolClient } from 'pg';
+import pool from '../config/database';
+import { AppError } from '../middlewares/errorHandler';
+import bonusCampaignModel, { BonusCampaign } from '../models/bonusCampaign';
+import userBonusModel, { UserBonus } from '../models/userBonus';
+import { roundCurrency } from '../utils/helpers';
+
+export interface BonusProgress extends UserBonus {
+  campaign_name: string;
+  wagering_remaining: number;
+  progress_percentage: number;
+}
+
+class BonusService {
+  // Comprobar al crear el depósito que puede optar a la campaña elegida
+  async checkEligibility(userId: number, campaignId: number, depositAmount: number): Promise<BonusCampaign> {
+    const campaign = await bonusCampaignModel.findAvailableById(campaignId);
+
+    if (!campaign) {
+      throw new AppError('La campaña de bono no está disponible', 400);
+    }
+
+    if (depositAmount < parseFloat(campaign.min_deposit)) {
+      throw new AppError(`La campaña requiere un depósito mínimo de ${campaign.min_deposit}`, 400);
+    }
+
+    if (await userBonusModel.hasActive(userId)) {
+      throw new AppError('Ya tienes un bono activo; complétalo o renuncia a él antes de optar a otro', 400);
+    }
+
+    return campaign;
+  }
+
+  // Acreditar el bono de un depósito completado al saldo de bono del usuario.
+  // Si la campaña ya no está disponible o el usuario tiene otro bono activo, el depósito se completa sin bono.
+  async awardDepositBonus(
+    client: PoolClient,
+    deposit: { id?: number; user_id: number; amount: any; bonus_campaign_id?: number | null }
+  ): Promise<UserBonus | null> {
+    if (!deposit.bonus_campaign_id) {
+      return null;
+    }
+
+    const campaign = await bonusCampaignModel.findAvailableById(deposit.bonus_campaign_id);
+    const depositAmount = parseFloat(deposit.amount);
+
+    if (!campaign || depositAmount < parseFloat(campaign.min_deposit)) {
+      return null;
+    }
+
+    if (await userBonusModel.lockActiveByUser(client, deposit.user_id)) {
+      return null;
+    }
+
+    const bonusAmount = roundCurrency(Math.min(
+      depositAmount * parseFloat(campaign.match_percentage) / 100,
+      parseFloat(campaign.max_bonus)
+    ));
+
+    if (bonusAmount <= 0) {
+      return null;
+    }
+
+    const expiresAt = new Date();
+    expiresAt.setDate(expiresAt.getDate() + campaign.validity_days);
+
+    const bonus = await userBonusModel.create(client, {
+      user_id: deposit.user_id,
+      campaign_id: campaign.id!,
+      deposit_id: deposit.id!,
+      deposit_amount: depositAmount,
+      bonus_amount: bonusAmount,
+      wagering_required: roundCurrency(bonusAmount * parseFloat(campaign.rollover_multiplier)),
+      min_odds: campaign.min_odds,
+      expires_at: expiresAt
+    });
+
+    await client.query(
+      'UPDATE users SET bonus_balance = bonus_balance + $1, updated_at = NOW() WHERE id = $2',
+      [bonusAmount, deposit.user_id]
+    );
+
+    return bonus;
+  }
+
+  // Contar un ticket liquidado (ganado o perdido) para el rollover del bono activo.
+  // Cuentan los tickets con dinero real colocados tras acreditar el bono y con la cuota mínima.
+  async recordWager(
+    client: PoolClient,
+    ticket: { id?: number; user_id: number; status?: string; stake_amount: any; total_odds: any;
+      created_at?: Date; free_bet_id?: number | null }
+  ): Promise<void> {
+    if (!ticket.id || !['won', 'lost'].includes(ticket.status!) || ticket.free_bet_id) {
+      return;
+    }
+
+    const bonus = await userBonusModel.lockActiveByUser(client, ticket.user_id);
+
+    if (!bonus || new Date(ticket.created_at!) < new Date(bonus.created_at!)) {
+      return;
+    }
+
+    if (bonus.min_odds !== null && bonus.min_odds !== undefined &&
+        parseFloat(ticket.total_odds) < parseFloat(bonus.min_odds)) {
+      return;
+    }
+
+    const stake = parseFloat(ticket.stake_amount);
+    const counted = await userBonusModel.addWager(client, bonus.id!, ticket.id, stake);
+
+    if (!counted) {
+      return;
+    }
+
+    const progress = parseFloat(bonus.wagering_progress || '0') + stake;
+
+    if (progress >= parseFloat(bonus.wagering_required)) {
+      await this.release(client, bonus);
+    }
+  }
+
+  // Rollover completado: el bono pasa del saldo de bono al saldo retirable
+  private async release(client: PoolClient, bonus: UserBonus): Promise<void> {
+    await userBonusModel.close(client, bonus.id!, 'completed');
+
+    await client.query(
+      `UPDATE users
+       SET balance = balance + $1, bonus_balance = GREATEST(bonus_balance - $1, 0), updated_at = NOW()
+       WHERE id = $2`,
+      [bonus.bonus_amount, bonus.user_id]
+    );
+  }
+
+  // Renunciar a un bono activo: se pierde el importe del bono y se desbloquea el depósito
+  async forfeit(userId: number, bonusId: number): Promise<void> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const bonus = await userBonusModel.lockById(client, bonusId);
+
+      if (!bonus || bonus.user_id !== userId) {
+        throw new AppError('Bono no encontrado', 404);
+      }
+
+      if (bonus.status !== 'active') {
+        throw new AppError(`El bono ya está ${bonus.status}`, 400);
+      }
+
+      await userBonusModel.close(client, bonusId, 'forfeited');
+
+      await client.query(
+        `UPDATE users SET bonus_balance = GREATEST(bonus_balance - $1, 0), updated_at = NOW()
+         WHERE id = $2`,
+        [bonus.bonus_amount, userId]
+      );
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Saldo que el usuario puede retirar: el saldo menos los depósitos bloqueados por bonos activos
+  async getWithdrawableBalance(client: PoolClient, userId: number): Promise<number> {
+    await userBonusModel.expireOverdue();
+
+    const userResult = await client.query('SELECT balance FROM users WHERE id = $1 FOR UPDATE', [userId]);
+
+    if (userResult.rows.length === 0) {
+      throw new AppError('Usuario no encontrado', 404);
+    }
+
+    const locked = await userBonusModel.getLockedAmount(client, userId);
+    return Math.max(roundCurrency(parseFloat(userResult.rows[0].balance) - locked), 0);
+  }
+
+  // Progreso del rollover de los bonos del usuario
+  async getProgress(userId: number): Promise<BonusProgress[]> {
+    const bonuses = await userBonusModel.findByUserId(userId);
+
+    return bonuses.map(bonus => {
+      const required = parseFloat(bonus.wagering_required);
+      const progress = parseFloat(bonus.wagering_progress || '0');
+
+      return {
+        ...bonus,
+        wagering_remaining: roundCurrency(Math.max(required - progress, 0)),
+        progress_percentage: required > 0 ? Math.min(roundCurrency(progress / required * 100), 100) : 100
+      };
+    });
+  }
+}
+
+export default new BonusService();
@@ -0,0 +1,179 @@
+import { randomInt } from 'crypto';
+import pool from '../config/database';
+import { AppError } from '../middlewares/errorHandler';
+import bookingCodeModel, { BookingCode, BookingCodeSelection } from '../models/bookingCode';
+import { americanToDecimal, roundOdds } from '../utils/oddsFormat';
+import boostService from './boostService';
+
+// Sin caracteres que se confunden al copiarlos (0/O, 1/I/L)
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 8;
+const MAX_CODE_ATTEMPTS = 5;
+
+export interface BookedSelection extends BookingCodeSelection {
+  // Cuota vigente que sustituye a la guardada (null si ya no está disponible)
+  current_odds_id: number | null;
+  current_odds: number | null;
+  home_team: string;
+  away_team: string;
+  commence_time: Date;
+  available: boolean;
+}
+
+export interface BookingCodeView {
+  code: string;
+  expires_at: Date;
+  selections: BookedSelection[];
+}
+
+class BookingCodeService {
+  generateCode(): string {
+    let code = '';
+    for (let i = 0; i < CODE_LENGTH; i++) {
+      code += CODE_ALPHABET[randomInt(CODE_ALPHABET.length)];
+    }
+    return code;
+  }
+
+  // Guardar unas selecciones bajo un código nuevo. Todas deben ser de eventos que aún no han comenzado.
+  async createCode(userId: number | null, oddsIds: number[]): Promise<BookingCode> {
+    const uniqueIds = Array.from(new Set(oddsIds));
+
+    const oddsResult = await pool.query(
+      `SELECT o.id, o.event_id, o.market_type, o.outcome_name, o.handicap, o.total,
+              e.status as event_status, COALESCE(e.betting_closes_at, e.commence_time) as closes_at
+       FROM odds o
+       JOIN events e ON o.event_id = e.id
+       WHERE o.id = ANY($1::int[])`,
+      [uniqueIds]
+    );
+
+    const missing = uniqueIds.filter(id => !oddsResult.rows.some(row => row.id === id));
+
+    if (missing.length > 0) {
+      throw new AppError(`Cuotas no encontradas: ${missing.join(', ')}`, 404);
+    }
+
+    const now = new Date();
+
+    for (const row of oddsResult.rows) {
+      if (row.event_status !== 'upcoming' || new Date(row.closes_at) <= now) {
+        throw new AppError(`El evento para la selección ${row.id} ya ha comenzado`, 400);
+      }
+    }
+
+    const expiresAt = new Date(Math.min(...oddsResult.rows.map(row => new Date(row.closes_at).getTime())));
+    const selections: BookingCodeSelection[] = oddsResult.rows.map(row => ({
+      odds_id: row.id,
+      event_id: row.event_id,
+      market_type: row.market_type,
+      outcome_name: row.outcome_name,
+      handicap: row.handicap,
+      total: row.total
+    }));
+
+    // Reintentar si el código generado ya existe
+    for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS; attempt++) {
+      const client = await pool.connect();
+
+      try {
+        await client.query('BEGIN');
+        const created = await bookingCodeModel.create(
+          client,
+          { code: this.generateCode(), user_id: userId, expires_at: expiresAt },
+          selections
+        );
+        await client.query('COMMIT');
+
+        return created;
+      } catch (error: any) {
+        await client.query('ROLLBACK');
+
+        if (error.code !== '23505') {
+          throw error;
+        }
+      } finally {
+        client.release();
+      }
+    }
+
+    throw new AppError('No se pudo generar un código de reserva', 500);
+  }
+
+  // Cargar un código vigente con sus selecciones recotizadas a las cuotas actuales
+  async loadCode(code: string): Promise<BookingCodeView & { id: number }> {
+    const bookingCode = await bookingCodeModel.findByCode(code);
+
+    if (!bookingCode) {
+      throw new AppError('Código de reserva no encontrado', 404);
+    }
+
+    if (new Date(bookingCode.expires_at) <= new Date()) {
+      throw new AppError('El código de reserva ha caducado', 410);
+    }
+
+    const stored = await bookingCodeModel.getSelections(bookingCode.id!);
+    const selections: BookedSelection[] = [];
+
+    for (const selection of stored) {
+      selections.push(await this.repriceSelection(selection));
+    }
+
+    await bookingCodeModel.incrementLoads(bookingCode.id!);
+
+    return {
+      id: bookingCode.id!,
+      code: bookingCode.code,
+      expires_at: bookingCode.expires_at,
+      selections
+    };
+  }
+
+  // Cuota vigente de la selección: la misma fila de odds o, si la sincronización la reemplazó,
+  // la del mismo evento, mercado, resultado y línea
+  private async repriceSelection(selection: BookingCodeSelection): Promise<BookedSelection> {
+    const result = await pool.query(
+      `SELECT e.home_team, e.away_team, e.commence_time, e.status as event_status,
+              o.id as current_odds_id, o.price, o.suspended
+       FROM events e
+       LEFT JOIN LATERAL (
+         SELECT id, price, suspended FROM odds
+         WHERE event_id = e.id AND market_type = $2 AND outcome_name = $3
+           AND handicap IS NOT DISTINCT FROM $4 AND total IS NOT DISTINCT FROM $5
+         ORDER BY (id = $6) DESC, id DESC
+         LIMIT 1
+       ) o ON true
+       WHERE e.id = $1`,
+      [
+        selection.event_id,
+        selection.market_type,
+        selection.outcome_name,
+        selection.handicap ?? null,
+        selection.total ?? null,
+        selection.odds_id
+      ]
+    );
+
+    const row = result.rows[0];
+    const available = !!row && row.current_odds_id !== null && !row.suspended && row.event_status === 'upcoming';
+    let currentOdds: number | null = null;
+
+    if (row && row.current_odds_id !== null) {
+      const originalOdds = americanToDecimal(parseFloat(row.price));
+      const boost = await boostService.findActiveBoost(pool, row.current_odds_id, originalOdds);
+      currentOdds = roundOdds(boost ? parseFloat(boost.boosted_odds) : originalOdds);
+    }
+
+    return {
+      ...selection,
+      current_odds_id: row?.current_odds_id ?? null,
+      current_odds: currentOdds,
+      home_team: row?.home_team,
+      away_team: row?.away_team,
+      commence_time: row?.commence_time,
+      available
+    };
+  }
+}
+
+export default new BookingCodeService();
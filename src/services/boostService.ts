@@ -0,0 +1,107 @@
+import { Pool, PoolClient } from 'pg';
+import { AppError } from '../middlewares/errorHandler';
+import oddsBoostModel, { OddsBoost } from '../models/oddsBoost';
+import { roundCurrency } from '../utils/helpers';
+import { americanToDecimal, fromDecimal, OddsFormat } from '../utils/oddsFormat';
+import { PricedSelection } from './betService';
+
+class BoostService {
+  // Mejora aplicable a una fila de odds: vigente, con presupuesto y por encima de la cuota actual
+  async findActiveBoost(client: Pool | PoolClient, oddsId: number, currentOdds: number): Promise<OddsBoost | null> {
+    const boost = await oddsBoostModel.findActiveForOdds(client, oddsId);
+
+    if (!boost || parseFloat(boost.boosted_odds) <= currentOdds) {
+      return null;
+    }
+
+    return boost;
+  }
+
+  // Añadir la cuota mejorada vigente a las cuotas de un evento (formateadas en el formato pedido).
+  // El precio original se mantiene en price y la mejora se expone en boosted_price.
+  async attachBoosts<T extends { id: number; price: number | string }>(
+    eventId: number,
+    odds: T[],
+    oddsFormat: OddsFormat
+  ): Promise<(T & { boost_id: number | null; boosted_price: number | string | null; boost_ends_at: Date | null })[]> {
+    const boosts = await oddsBoostModel.findActiveByEvent(eventId);
+
+    return odds.map(row => {
+      const original = americanToDecimal(parseFloat(row.price as string));
+      // Ordenadas de mayor a menor cuota: la primera que aplica es la mejor
+      const boost = boosts.find(b => b.matched_odds_id === row.id && parseFloat(b.boosted_odds) > original);
+
+      return {
+        ...row,
+        boost_id: boost ? boost.id! : null,
+        boosted_price: boost ? fromDecimal(parseFloat(boost.boosted_odds), oddsFormat) : null,
+        boost_ends_at: boost ? boost.ends_at : null
+      };
+    });
+  }
+
+  // Registrar el uso de las mejoras de un ticket simple o combinado y descontar su presupuesto.
+  // El coste de cada mejora es lo que se paga de más frente a la cuota original de la selección.
+  async consume(
+    client: PoolClient,
+    userId: number,
+    ticketId: number,
+    stakeAmount: number,
+    selections: PricedSelection[]
+  ): Promise<void> {
+    const totalOdds = selections.reduce((odds, s) => odds * s.odds_value, 1);
+
+    for (const selection of selections) {
+      if (!selection.boost_id || !selection.original_odds) {
+        continue;
+      }
+
+      const boost = await oddsBoostModel.lockForUse(client, selection.boost_id);
+
+      if (!boost) {
+        throw new AppError(`La cuota mejorada de la selección ${selection.odds_id} ya no existe`, 409);
+      }
+
+      if (boost.max_stake_per_user !== null && boost.max_stake_per_user !== undefined) {
+        const maxStake = parseFloat(boost.max_stake_per_user);
+        const staked = await oddsBoostModel.getUserStake(client, boost.id!, userId);
+
+        if (staked + stakeAmount > maxStake) {
+          throw new AppError(
+            `Importe máximo con cuota mejorada: ${roundCurrency(Math.max(maxStake - staked, 0))}`,
+            400
+          );
+        }
+      }
+
+      const costPerStake = totalOdds * (1 - selection.original_odds / selection.odds_value);
+      const cost = roundCurrency(stakeAmount * costPerStake);
+
+      if (boost.budget !== null && boost.budget !== undefined) {
+        const remaining = parseFloat(boost.budget) - parseFloat(boost.budget_used || '0');
+
+        if (cost > remaining) {
+          throw new AppError(
+            `Presupuesto de la cuota mejorada insuficiente; importe máximo: ${roundCurrency(Math.max(remaining / costPerStake, 0))}`,
+            400
+          );
+        }
+      }
+
+      await oddsBoostModel.recordUsage(client, {
+        boost_id: boost.id!,
+        user_id: userId,
+        ticket_id: ticketId,
+        stake_amount: stakeAmount,
+        cost
+      });
+    }
+  }
+
+  // Liberar lo consumido por un ticket que no llegó a aceptarse: importe por usuario y presupuesto
+  async release(client: PoolClient, ticketId: number): Promise<void> {
+    await oddsBoostModel.releaseUsage(client, ticketId);
+  }
+}
+
+export default new BoostService();
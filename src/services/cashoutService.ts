@@ -0,0 +1,356 @@
+import { PoolClient } from 'pg';
+import pool from '../config/database';
+import { AppError } from '../middlewares/errorHandler';
+import { roundCurrency } from '../utils/helpers';
+import { americanToDecimal } from '../utils/oddsFormat';
+import { PARENT_TICKET_TYPES, TicketRow } from '../models/ticket';
+
+export interface CashoutPriceSnapshot {
+  odds_id: number;
+  price: number;
+}
+
+export interface CashoutQuote {
+  id: number;
+  ticket_id: number;
+  user_id: number;
+  amount: string;
+  prices: CashoutPriceSnapshot[];
+  expires_at: Date;
+  status: 'open' | 'accepted' | 'rejected';
+  created_at?: Date;
+}
+
+export interface CashoutSettlement {
+  ticket_id: number;
+  amount: number;
+  fraction: number;
+  remaining_stake: number;
+  remaining_potential_payout: number;
+}
+
+// Cash-out parcial o total registrado en el historial del ticket
+export interface CashoutHistoryEntry {
+  id: number;
+  fraction: string;
+  stake_amount: string;
+  amount: string;
+  partial: boolean;
+  created_at: Date;
+}
+
+interface CashoutValuation {
+  amount: number;
+  prices: CashoutPriceSnapshot[];
+}
+
+class CashoutService {
+  private margin: number;
+  private quoteTtlSeconds: number;
+
+  constructor() {
+    this.margin = parseFloat(process.env.CASHOUT_MARGIN || '0.05');
+    this.quoteTtlSeconds = parseInt(process.env.CASHOUT_QUOTE_TTL_SECONDS || '8', 10);
+  }
+
+  // Cotizar el cash-out de un ticket pendiente del usuario
+  async createQuote(userId: number, ticketId: number): Promise<CashoutQuote> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const ticket = await this.getOwnedPendingTicket(client, userId, ticketId);
+      const valuation = await this.valueTicket(client, ticket);
+
+      const result = await client.query(
+        `INSERT INTO cashout_quotes (ticket_id, user_id, amount, prices, expires_at, status)
+         VALUES ($1, $2, $3, $4, NOW() + ($5 || ' seconds')::interval, 'open')
+         RETURNING *`,
+        [ticketId, userId, valuation.amount, JSON.stringify(valuation.prices), this.quoteTtlSeconds]
+      );
+
+      await client.query('COMMIT');
+      return result.rows[0];
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Aceptar una cotización vigente: liquidar el ticket (o la fracción indicada) y acreditar el importe
+  async acceptQuote(
+    userId: number,
+    ticketId: number,
+    quoteId: number,
+    fraction: number = 1
+  ): Promise<CashoutSettlement> {
+    if (!(fraction > 0 && fraction <= 1)) {
+      throw new AppError('La fracción de cash-out debe estar entre 0 y 1', 400);
+    }
+
+    const client = await pool.connect();
+    let settlement: CashoutSettlement | null = null;
+
+    try {
+      await client.query('BEGIN');
+
+      const ticket = await this.getOwnedPendingTicket(client, userId, ticketId);
+
+      const quoteResult = await client.query(
+        `SELECT *, expires_at <= NOW() as expired
+         FROM cashout_quotes
+         WHERE id = $1 AND ticket_id = $2 AND user_id = $3
+         FOR UPDATE`,
+        [quoteId, ticketId, userId]
+      );
+
+      if (quoteResult.rows.length === 0) {
+        throw new AppError('Cotización de cash-out no encontrada', 404);
+      }
+
+      const quote = quoteResult.rows[0];
+
+      if (quote.status !== 'open') {
+        throw new AppError('La cotización de cash-out ya no está disponible', 400);
+      }
+
+      if (quote.expired) {
+        throw new AppError('La cotización de cash-out ha expirado', 410);
+      }
+
+      // Volver a valorar el ticket con los precios actuales
+      const valuation = await this.valueTicket(client, ticket);
+
+      if (this.pricesChanged(quote.prices, valuation.prices)) {
+        // La cotización queda rechazada aunque no se liquide el ticket
+        await client.query(
+          `UPDATE cashout_quotes SET status = 'rejected' WHERE id = $1`,
+          [quoteId]
+        );
+        await client.query('COMMIT');
+      } else {
+        settlement = fraction < 1
+          ? await this.settlePartial(client, ticket, quote, fraction)
+          : await this.settleFull(client, ticket, quote);
+
+        await client.query(
+          `UPDATE cashout_quotes SET status = 'accepted' WHERE id = $1`,
+          [quoteId]
+        );
+
+        await client.query('COMMIT');
+      }
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    if (!settlement) {
+      throw new AppError('Las cuotas han cambiado, solicita una nueva cotización', 409);
+    }
+
+    return settlement;
+  }
+
+  // Liquidar el ticket completo al importe cotizado
+  private async settleFull(client: PoolClient, ticket: TicketRow, quote: CashoutQuote): Promise<CashoutSettlement> {
+    const amount = parseFloat(quote.amount);
+    const stakeAmount = parseFloat(ticket.stake_amount);
+
+    await client.query(
+      `UPDATE tickets
+       SET status = 'cashed_out', cashout_amount = COALESCE(cashout_amount, 0) + $1, updated_at = NOW()
+       WHERE id = $2`,
+      [amount, ticket.id]
+    );
+
+    await this.recordCashout(client, ticket, quote.id, 1, stakeAmount, amount, false);
+
+    await client.query(
+      'UPDATE users SET balance = balance + $1 WHERE id = $2',
+      [amount, ticket.user_id]
+    );
+
+    return {
+      ticket_id: ticket.id,
+      amount,
+      fraction: 1,
+      remaining_stake: 0,
+      remaining_potential_payout: 0
+    };
+  }
+
+  // Liquidar una fracción del ticket; el resto sigue en juego con stake y pago reducidos
+  private async settlePartial(client: PoolClient, ticket: TicketRow, quote: CashoutQuote, fraction: number): Promise<CashoutSettlement> {
+    const amount = roundCurrency(parseFloat(quote.amount) * fraction);
+    const stakeAmount = parseFloat(ticket.stake_amount);
+    const cashedStake = roundCurrency(stakeAmount * fraction);
+    const remainingStake = roundCurrency(stakeAmount - cashedStake);
+    const remainingPayout = roundCurrency(parseFloat(ticket.potential_payout) * (1 - fraction));
+
+    if (amount <= 0 || remainingStake <= 0) {
+      throw new AppError('La fracción de cash-out es demasiado pequeña o demasiado grande', 400);
+    }
+
+    await client.query(
+      `UPDATE tickets
+       SET stake_amount = $1, potential_payout = $2,
+           cashout_amount = COALESCE(cashout_amount, 0) + $3, updated_at = NOW()
+       WHERE id = $4`,
+      [remainingStake, remainingPayout, amount, ticket.id]
+    );
+
+    await this.recordCashout(client, ticket, quote.id, fraction, cashedStake, amount, true);
+
+    await client.query(
+      'UPDATE users SET balance = balance + $1 WHERE id = $2',
+      [amount, ticket.user_id]
+    );
+
+    return {
+      ticket_id: ticket.id,
+      amount,
+      fraction,
+      remaining_stake: remainingStake,
+      remaining_potential_payout: remainingPayout
+    };
+  }
+
+  // Cada cash-out, parcial o total, queda en el historial
+  private async recordCashout(
+    client: PoolClient,
+    ticket: TicketRow,
+    quoteId: number,
+    fraction: number,
+    stakeAmount: number,
+    amount: number,
+    partial: boolean
+  ): Promise<void> {
+    await client.query(
+      `INSERT INTO ticket_cashouts (ticket_id, user_id, quote_id, fraction, stake_amount, amount, partial)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [ticket.id, ticket.user_id, quoteId, fraction, stakeAmount, amount, partial]
+    );
+  }
+
+  // Historial de cash-outs de un ticket
+  async getHistory(ticketId: number): Promise<CashoutHistoryEntry[]> {
+    const result = await pool.query(
+      `SELECT id, fraction, stake_amount, amount, partial, created_at
+       FROM ticket_cashouts
+       WHERE ticket_id = $1
+       ORDER BY created_at ASC`,
+      [ticketId]
+    );
+
+    return result.rows;
+  }
+
+  private async getOwnedPendingTicket(client: PoolClient, userId: number, ticketId: number): Promise<TicketRow> {
+    const ticketResult = await client.query(
+      'SELECT * FROM tickets WHERE id = $1 FOR UPDATE',
+      [ticketId]
+    );
+
+    const ticket = ticketResult.rows[0];
+
+    if (!ticket || ticket.user_id !== userId) {
+      throw new AppError('Ticket no encontrado', 404);
+    }
+
+    if (ticket.status !== 'pending') {
+      throw new AppError(`No se puede hacer cash-out de un ticket ${ticket.status}`, 400);
+    }
+
+    if (PARENT_TICKET_TYPES.includes(ticket.ticket_type) || ticket.parent_ticket_id) {
+      throw new AppError('Cash-out no disponible para apuestas de sistema', 400);
+    }
+
+    // La valoración trata las selecciones como independientes y no sirve para cuotas correlacionadas
+    if (ticket.ticket_type === 'bet_builder') {
+      throw new AppError('Cash-out no disponible para bet builder', 400);
+    }
+
+    // Un teaser se paga por tabla y sus selecciones tienen la línea movida, sin precio de mercado
+    if (ticket.ticket_type === 'teaser') {
+      throw new AppError('Cash-out no disponible para teasers', 400);
+    }
+
+    // Las selecciones siguientes de un if-bet aún no tienen importe apostado
+    if (ticket.ticket_type === 'if_bet') {
+      throw new AppError('Cash-out no disponible para if-bets', 400);
+    }
+
+    if (ticket.free_bet_id) {
+      throw new AppError('Cash-out no disponible para apuestas gratuitas', 400);
+    }
+
+    return ticket;
+  }
+
+  // Valor justo del ticket: pago potencial por la probabilidad implícita de las selecciones pendientes
+  private async valueTicket(client: PoolClient, ticket: TicketRow): Promise<CashoutValuation> {
+    const itemsResult = await client.query(
+      `SELECT ti.id, ti.odds_id, ti.status, o.price, e.status as event_status,
+              e.commence_time <= NOW() as started
+       FROM ticket_items ti
+       JOIN events e ON ti.event_id = e.id
+       LEFT JOIN odds o ON ti.odds_id = o.id
+       WHERE ti.ticket_id = $1
+       ORDER BY ti.id`,
+      [ticket.id]
+    );
+
+    let probability = 1;
+    const prices: CashoutPriceSnapshot[] = [];
+
+    for (const item of itemsResult.rows) {
+      if (item.status === 'lost') {
+        throw new AppError('El ticket tiene selecciones perdidas', 400);
+      }
+
+      if (item.status !== 'pending') {
+        continue;
+      }
+
+      if (item.event_status !== 'upcoming' || item.started) {
+        throw new AppError('Cash-out no disponible: un evento del ticket ya ha comenzado', 400);
+      }
+
+      if (item.price === null) {
+        throw new AppError('Cash-out no disponible: mercado sin cuota vigente', 400);
+      }
+
+      const price = parseFloat(item.price);
+      probability *= 1 / americanToDecimal(price);
+      prices.push({ odds_id: item.odds_id, price });
+    }
+
+    if (prices.length === 0) {
+      throw new AppError('El ticket no tiene selecciones pendientes', 400);
+    }
+
+    const fairValue = parseFloat(ticket.potential_payout) * probability;
+    const amount = roundCurrency(fairValue * (1 - this.margin));
+
+    return { amount, prices };
+  }
+
+  private pricesChanged(quoted: CashoutPriceSnapshot[], current: CashoutPriceSnapshot[]): boolean {
+    if (quoted.length !== current.length) {
+      return true;
+    }
+
+    return quoted.some(quotedPrice => {
+      const currentPrice = current.find(p => p.odds_id === quotedPrice.odds_id);
+      return !currentPrice || currentPrice.price !== quotedPrice.price;
+    });
+  }
+}
+
+export default new CashoutService();
@@ -0,0 +1,119 @@
+import { PoolClient } from 'pg';
+import correlationRuleModel, { CorrelationRule } from '../models/correlationRule';
+import { AppError } from '../middlewares/errorHandler';
+import { PricedSelection } from './betService';
+
+export interface SelectionConflict {
+  event_id: number;
+  odds_ids: [number, number];
+  reason: string;
+}
+
+class CorrelationService {
+  // Buscar la regla que aprueba combinar dos selecciones del mismo evento (en cualquier orden)
+  findRule(rules: CorrelationRule[], a: PricedSelection, b: PricedSelection): CorrelationRule | null {
+    const matches = (rule: CorrelationRule, x: PricedSelection, y: PricedSelection) =>
+      rule.market_a === x.bet_type &&
+      (!rule.outcome_a || rule.outcome_a === x.selection) &&
+      rule.market_b === y.bet_type &&
+      (!rule.outcome_b || rule.outcome_b === y.selection);
+
+    return rules.find(rule => matches(rule, a, b) || matches(rule, b, a)) || null;
+  }
+
+  // Selecciones del boleto que no pueden ir juntas y el motivo.
+  // Por defecto solo se admite una selección por evento, salvo combinaciones aprobadas por deporte.
+  async findConflicts(client: PoolClient, selections: PricedSelection[]): Promise<SelectionConflict[]> {
+    const conflicts: SelectionConflict[] = [];
+    const byEvent = new Map<number, PricedSelection[]>();
+
+    for (const selection of selections) {
+      const group = byEvent.get(selection.event_id) || [];
+      group.push(selection);
+      byEvent.set(selection.event_id, group);
+    }
+
+    for (const [eventId, group] of byEvent) {
+      if (group.length < 2) {
+        continue;
+      }
+
+      const rules = await this.getEventRules(client, eventId);
+
+      for (let i = 0; i < group.length; i++) {
+        for (let j = i + 1; j < group.length; j++) {
+          const a = group[i];
+          const b = group[j];
+          const reason = this.conflictReason(rules, a, b);
+
+          if (reason) {
+            conflicts.push({ event_id: eventId, odds_ids: [a.odds_id, b.odds_id], reason });
+          }
+        }
+      }
+    }
+
+    return conflicts;
+  }
+
+  // Rechazar el boleto con la lista de selecciones en conflicto
+  async validateSlip(client: PoolClient, selections: PricedSelection[]): Promise<void> {
+    const conflicts = await this.findConflicts(client, selections);
+
+    if (conflicts.length > 0) {
+      throw new AppError('El boleto contiene selecciones incompatibles', 400, { conflicts });
+    }
+  }
+
+  // Ajuste de precio de un bet builder: producto de los factores de las reglas de cada par.
+  // Las selecciones deben estar ya validadas (todas las parejas tienen regla aprobada).
+  async correlationFactor(client: PoolClient, eventId: number, selections: PricedSelection[]): Promise<number> {
+    const rules = await this.getEventRules(client, eventId);
+    let factor = 1;
+
+    for (let i = 0; i < selections.length; i++) {
+      for (let j = i + 1; j < selections.length; j++) {
+        const rule = this.findRule(rules, selections[i], selections[j]);
+
+        if (rule && rule.price_factor !== undefined && rule.price_factor !== null) {
+          factor *= parseFloat(rule.price_factor);
+        }
+      }
+    }
+
+    return factor;
+  }
+
+  // Reglas activas del deporte del evento
+  private async getEventRules(client: PoolClient, eventId: number): Promise<CorrelationRule[]> {
+    const sportResult = await client.query(
+      `SELECT c.sport_id FROM events e
+       JOIN competitions c ON e.competition_id = c.id
+       WHERE e.id = $1`,
+      [eventId]
+    );
+
+    return sportResult.rows.length
+      ? correlationRuleModel.findActiveBySport(sportResult.rows[0].sport_id)
+      : [];
+  }
+
+  private conflictReason(rules: CorrelationRule[], a: PricedSelection, b: PricedSelection): string | null {
+    if (a.odds_id === b.odds_id) {
+      return 'La misma selección aparece dos veces';
+    }
+
+    // Resultados del mismo mercado se excluyen entre sí (local y visitante, más y menos)
+    if (a.bet_type === b.bet_type) {
+      return `Selecciones opuestas del mercado ${a.bet_type}`;
+    }
+
+    if (!this.findRule(rules, a, b)) {
+      return `No se permite combinar ${a.bet_type} (${a.selection}) y ${b.bet_type} (${b.selection}) del mismo evento`;
+    }
+
+    return null;
+  }
+}
+
+export default new CorrelationService();
@@ -0,0 +1,118 @@
+import { PoolClient } from 'pg';
+import { AppError } from '../middlewares/errorHandler';
+import freeBetModel, { FreeBet, FreeBetSource } from '../models/freeBet';
+import { TicketRow } from '../models/ticket';
+import { roundOdds } from '../utils/oddsFormat';
+import { PricedSelection } from './betService';
+
+export interface IssueFreeBetData {
+  amount: number;
+  min_odds?: number | null;
+  sport_ids?: number[] | null;
+  competition_ids?: number[] | null;
+  expires_at: Date;
+  description?: string | null;
+}
+
+class FreeBetService {
+  // Emitir un token de apuesta gratuita (admins o promociones automáticas).
+  // Acepta el cliente de una transacción para emitirlo junto con la operación que lo origina.
+  async issue(
+    userId: number,
+    data: IssueFreeBetData,
+    source: FreeBetSource = 'admin',
+    client?: PoolClient
+  ): Promise<FreeBet> {
+    if (!(data.amount > 0)) {
+      throw new AppError('El importe de la apuesta gratuita debe ser mayor que 0', 400);
+    }
+
+    if (new Date(data.expires_at) <= new Date()) {
+      throw new AppError('La fecha de caducidad debe ser futura', 400);
+    }
+
+    return freeBetModel.create({ ...data, user_id: userId, source }, client);
+  }
+
+  // Bloquear y validar un token del usuario antes de colocar la apuesta
+  async reserve(client: PoolClient, userId: number, freeBetId: number): Promise<FreeBet> {
+    const freeBet = await freeBetModel.lockForUse(client, freeBetId);
+
+    if (!freeBet || freeBet.user_id !== userId) {
+      throw new AppError('Apuesta gratuita no encontrada', 404);
+    }
+
+    if (freeBet.status !== 'available' || freeBet.expired) {
+      throw new AppError(
+        `La apuesta gratuita no está disponible (${freeBet.expired ? 'expired' : freeBet.status})`,
+        400
+      );
+    }
+
+    return freeBet;
+  }
+
+  // Comprobar que todas las selecciones son de deportes y competiciones permitidos por el token
+  async validateSelections(client: PoolClient, freeBet: FreeBet, selections: PricedSelection[]): Promise<void> {
+    if (!freeBet.sport_ids?.length && !freeBet.competition_ids?.length) {
+      return;
+    }
+
+    const result = await client.query(
+      `SELECT e.id, e.competition_id, c.sport_id
+       FROM events e
+       JOIN competitions c ON e.competition_id = c.id
+       WHERE e.id = ANY($1::int[])`,
+      [selections.map(s => s.event_id)]
+    );
+
+    for (const event of result.rows) {
+      if (freeBet.sport_ids?.length && !freeBet.sport_ids.includes(event.sport_id)) {
+        throw new AppError(`La apuesta gratuita no es válida para el deporte del evento ${event.id}`, 400);
+      }
+
+      if (freeBet.competition_ids?.length && !freeBet.competition_ids.includes(event.competition_id)) {
+        throw new AppError(`La apuesta gratuita no es válida para la competición del evento ${event.id}`, 400);
+      }
+    }
+  }
+
+  checkMinOdds(freeBet: FreeBet, totalOdds: number): void {
+    if (freeBet.min_odds !== null && freeBet.min_odds !== undefined) {
+      const minOdds = parseFloat(freeBet.min_odds);
+
+      if (roundOdds(totalOdds) < minOdds) {
+        throw new AppError(`La apuesta gratuita requiere una cuota mínima de ${minOdds}`, 400);
+      }
+    }
+  }
+
+  // Pago de un ticket ganador: con apuesta gratuita solo se pagan las ganancias
+  winningPayout(ticket: Pick<TicketRow, 'potential_payout' | 'stake_amount' | 'free_bet_id'>): number {
+    const payout = parseFloat(ticket.potential_payout);
+    return ticket.free_bet_id ? payout - parseFloat(ticket.stake_amount) : payout;
+  }
+
+  // Devolver lo apostado en un ticket anulado o cancelado: el token o el saldo.
+  // Devuelve el importe acreditado al saldo.
+  async refundStake(
+    client: PoolClient,
+    ticket: Pick<TicketRow, 'user_id' | 'stake_amount' | 'free_bet_id'>
+  ): Promise<number> {
+    if (ticket.free_bet_id) {
+      await freeBetModel.restore(client, ticket.free_bet_id);
+      return 0;
+    }
+
+    const stake = parseFloat(ticket.stake_amount);
+
+    await client.query(
+      'UPDATE users SET balance = balance + $1 WHERE id = $2',
+      [stake, ticket.user_id]
+    );
+
+    return stake;
+  }
+}
+
+export default new FreeBetService();
@@ -0,0 +1,187 @@
+import { PoolClient } from 'pg';
+import { roundCurrency } from '../utils/helpers';
+import { IfBetCondition } from '../models/ticket';
+import { PricedSelection } from './betService';
+
+export interface IfBetChain {
+  ticketId: number;
+  condition: IfBetCondition;
+  stakeAmount: number;
+  maxPayout: number;
+  // IDs de cuota en el orden en que se apuestan
+  chain: number[];
+}
+
+export interface ReverseBetResult {
+  ticketId: number;
+  condition: IfBetCondition;
+  unitStake: number;
+  totalStake: number;
+  maxPayout: number;
+  chains: IfBetChain[];
+}
+
+class IfBetService {
+  // Pago máximo de una cadena: cada selección ganada devuelve importe por cuota y la siguiente
+  // vuelve a arriesgar el mismo importe tomado de esas ganancias
+  maxPayout(stake: number, selections: PricedSelection[]): number {
+    const oddsSum = selections.reduce((sum, s) => sum + s.odds_value, 0);
+    return stake * (oddsSum - (selections.length - 1));
+  }
+
+  // Crear un if-bet: selecciones en cadena con solo la primera apostada al colocarlo
+  async createChain(
+    client: PoolClient,
+    userId: number,
+    stake: number,
+    selections: PricedSelection[],
+    condition: IfBetCondition,
+    parentTicketId: number | null = null
+  ): Promise<IfBetChain> {
+    const maxPayout = this.maxPayout(stake, selections);
+
+    const ticketResult = await client.query(
+      `INSERT INTO tickets (
+         user_id, total_odds, stake_amount, potential_payout, status, ticket_type, if_condition, parent_ticket_id
+       )
+       VALUES ($1, $2, $3, $4, 'pending', 'if_bet', $5, $6)
+       RETURNING id`,
+      [userId, maxPayout / stake, stake, maxPayout, condition, parentTicketId]
+    );
+
+    const ticketId = ticketResult.rows[0].id;
+
+    for (let i = 0; i < selections.length; i++) {
+      const selection = selections[i];
+
+      await client.query(
+        `INSERT INTO ticket_items (
+           ticket_id, event_id, odds_id, odds_value, bet_type, selection, handicap, total,
+           chain_position, leg_stake, status
+         )
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, 'pending')`,
+        [
+          ticketId,
+          selection.event_id,
+          selection.odds_id,
+          selection.odds_value,
+          selection.bet_type,
+          selection.selection,
+          selection.handicap ?? null,
+          selection.total ?? null,
+          i + 1,
+          i === 0 ? stake : null
+        ]
+      );
+    }
+
+    return {
+      ticketId,
+      condition,
+      stakeAmount: stake,
+      maxPayout: roundCurrency(maxPayout),
+      chain: selections.map(s => s.odds_id)
+    };
+  }
+
+  // Crear un reverse: el mismo if-bet en orden directo e inverso, como tickets hijos de uno padre
+  async createReverse(
+    client: PoolClient,
+    userId: number,
+    unitStake: number,
+    selections: PricedSelection[],
+    condition: IfBetCondition
+  ): Promise<ReverseBetResult> {
+    const totalStake = roundCurrency(unitStake * 2);
+    const maxPayout = this.maxPayout(unitStake, selections) * 2;
+
+    const parentResult = await client.query(
+      `INSERT INTO tickets (user_id, total_odds, stake_amount, potential_payout, status, ticket_type, if_condition)
+       VALUES ($1, $2, $3, $4, 'pending', 'reverse', $5)
+       RETURNING id`,
+      [userId, maxPayout / totalStake, totalStake, maxPayout, condition]
+    );
+
+    const parentId = parentResult.rows[0].id;
+    const forward = await this.createChain(client, userId, unitStake, selections, condition, parentId);
+    const backward = await this.createChain(client, userId, unitStake, [...selections].reverse(), condition, parentId);
+
+    return {
+      ticketId: parentId,
+      condition,
+      unitStake,
+      totalStake,
+      maxPayout: roundCurrency(maxPayout),
+      chains: [forward, backward]
+    };
+  }
+
+  // Recorrer la cadena de un if-bet en orden. Cada selección alcanzada recibe su importe
+  // (apuesta diferida); la cadena se corta en la primera que no cumple la condición y las
+  // siguientes quedan sin acción. Devuelve null mientras la selección en curso esté pendiente.
+  async resolveChain(
+    client: PoolClient,
+    ticket: { id: number; stake_amount: any; if_condition: IfBetCondition }
+  ): Promise<{ status: 'won' | 'lost' | 'void'; payout: number } | null> {
+    const legsResult = await client.query(
+      `SELECT id, status, chain_position, leg_stake,
+              odds_value * COALESCE(dead_heat_factor, 1) as odds_value
+       FROM ticket_items
+       WHERE ticket_id = $1
+       ORDER BY chain_position
+       FOR UPDATE`,
+      [ticket.id]
+    );
+
+    const legs = legsResult.rows;
+    const stake = parseFloat(ticket.stake_amount);
+    let returns = 0;
+
+    for (let i = 0; i < legs.length; i++) {
+      const leg = legs[i];
+
+      if (leg.leg_stake === null) {
+        await client.query('UPDATE ticket_items SET leg_stake = $1, updated_at = NOW() WHERE id = $2', [stake, leg.id]);
+      }
+
+      if (leg.status === 'pending') {
+        return null;
+      }
+
+      const noAction = leg.status === 'push' || leg.status === 'void';
+
+      if (leg.status === 'won') {
+        returns += stake * parseFloat(leg.odds_value);
+      } else if (noAction) {
+        returns += stake;
+      }
+
+      const continues = leg.status === 'won' || (noAction && ticket.if_condition === 'win_or_push');
+
+      if (!continues || i === legs.length - 1) {
+        // Las selecciones no alcanzadas quedan sin acción
+        await client.query(
+          `UPDATE ticket_items SET status = 'void', updated_at = NOW()
+           WHERE ticket_id = $1 AND chain_position > $2`,
+          [ticket.id, leg.chain_position]
+        );
+        break;
+      }
+
+      // La siguiente selección se apuesta con parte de lo devuelto
+      returns -= stake;
+    }
+
+    const payout = roundCurrency(returns);
+
+    // El resultado se mide contra el importe original: una cadena que devuelve parte de lo
+    // apostado (gana una selección y pierde la siguiente) es perdedora aunque cobre algo
+    if (payout > stake) {
+      return { status: 'won', payout };
+    }
+
+    return { status: payout === stake ? 'void' : 'lost', payout };
+  }
+}
+
+export default new IfBetService();
@@ -0,0 +1,184 @@
+import { PoolClient } from 'pg';
+import pool from '../config/database';
+import { AppError } from '../middlewares/errorHandler';
+import { americanToDecimal, roundOdds } from '../utils/oddsFormat';
+import { TicketRow } from '../models/ticket';
+import { PricedSelection } from './betService';
+import freeBetService from './freeBetService';
+import boostService from './boostService';
+
+export interface AcceptanceResult {
+  ticket_id: number;
+  status: string;
+  accept_after: Date | null;
+  rejection_reason: string | null;
+}
+
+// Selección de un ticket en espera con su cuota y mercado actuales
+interface AcceptanceItem {
+  odds_id: number;
+  odds_value: string;
+  selection: string;
+  event_status: string;
+  price: string | null;
+  suspended: boolean | null;
+  status_updated_at: Date | null;
+  boosted_odds: string | null;
+}
+
+class InPlayService {
+  // Retraso de aceptación para un boleto: el mayor de los deportes con eventos en vivo.
+  // Devuelve null si ninguna selección es en vivo.
+  async getAcceptanceDelay(client: PoolClient, selections: PricedSelection[]): Promise<number | null> {
+    const result = await client.query(
+      `SELECT MAX(s.inplay_delay_seconds) as delay, COUNT(*) as live_events
+       FROM events e
+       JOIN competitions c ON e.competition_id = c.id
+       JOIN sports s ON c.sport_id = s.id
+       WHERE e.id = ANY($1::int[]) AND e.status = 'live'`,
+      [selections.map(s => s.event_id)]
+    );
+
+    if (parseInt(result.rows[0].live_events, 10) === 0) {
+      return null;
+    }
+
+    return parseInt(result.rows[0].delay ?? 0, 10);
+  }
+
+  // Resolver un ticket en espera de aceptación una vez cumplido su retraso.
+  // Se acepta solo si cada selección mantiene su cuota, su mercado no se suspendió
+  // durante la espera y el evento sigue en vivo; si no, se rechaza y se devuelve el importe.
+  async processTicket(client: PoolClient, ticketId: number): Promise<AcceptanceResult> {
+    const ticketResult = await client.query(
+      `SELECT id, user_id, stake_amount, free_bet_id, status, accept_after, rejection_reason, created_at,
+              accept_after <= NOW() as due
+       FROM tickets WHERE id = $1 FOR UPDATE`,
+      [ticketId]
+    );
+
+    const ticket: (TicketRow & { due: boolean }) | undefined = ticketResult.rows[0];
+
+    if (!ticket) {
+      throw new AppError('Ticket no encontrado', 404);
+    }
+
+    if (ticket.status !== 'pending_acceptance' || !ticket.due) {
+      return this.toResult(ticket);
+    }
+
+    const itemsResult = await client.query(
+      `SELECT ti.odds_id, ti.odds_value, ti.selection, e.status as event_status,
+              o.price, o.suspended, o.status_updated_at, b.boosted_odds
+       FROM ticket_items ti
+       JOIN events e ON ti.event_id = e.id
+       LEFT JOIN odds o ON ti.odds_id = o.id
+       LEFT JOIN odds_boosts b ON ti.boost_id = b.id
+       WHERE ti.ticket_id = $1`,
+      [ticketId]
+    );
+
+    const reason = this.rejectionReason(itemsResult.rows, new Date(ticket.created_at!));
+
+    if (reason) {
+      await client.query(
+        `UPDATE tickets SET status = 'rejected', rejection_reason = $1, updated_at = NOW() WHERE id = $2`,
+        [reason, ticketId]
+      );
+
+      await client.query(
+        `UPDATE ticket_items SET status = 'void', updated_at = NOW() WHERE ticket_id = $1`,
+        [ticketId]
+      );
+
+      // Con apuesta gratuita se devuelve el token, no saldo
+      await freeBetService.refundStake(client, ticket);
+      await boostService.release(client, ticketId);
+
+      return { ticket_id: ticketId, status: 'rejected', accept_after: ticket.accept_after ?? null, rejection_reason: reason };
+    }
+
+    await client.query(
+      `UPDATE tickets SET status = 'pending', updated_at = NOW() WHERE id = $1`,
+      [ticketId]
+    );
+
+    return { ticket_id: ticketId, status: 'pending', accept_after: ticket.accept_after ?? null, rejection_reason: null };
+  }
+
+  // Resolver todos los tickets cuyo retraso ya se cumplió, cada uno en su propia transacción.
+  // Los tickets que otro proceso está resolviendo en ese momento se saltan.
+  async processDueTickets(): Promise<AcceptanceResult[]> {
+    const dueResult = await pool.query(
+      `SELECT id FROM tickets
+       WHERE status = 'pending_acceptance' AND accept_after <= NOW()
+       ORDER BY accept_after`
+    );
+
+    const results: AcceptanceResult[] = [];
+
+    for (const row of dueResult.rows) {
+      const client = await pool.connect();
+
+      try {
+        await client.query('BEGIN');
+
+        const locked = await client.query(
+          `SELECT id FROM tickets WHERE id = $1 AND status = 'pending_acceptance' FOR UPDATE SKIP LOCKED`,
+          [row.id]
+        );
+
+        if (locked.rows.length > 0) {
+          results.push(await this.processTicket(client, row.id));
+        }
+
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        console.error(`Error procesando aceptación del ticket ${row.id}:`, error);
+      } finally {
+        client.release();
+      }
+    }
+
+    return results;
+  }
+
+  private rejectionReason(items: AcceptanceItem[], placedAt: Date): string | null {
+    for (const item of items) {
+      if (item.event_status !== 'live') {
+        return `El evento de la selección ${item.odds_id} ya no está en vivo`;
+      }
+
+      if (item.price === null) {
+        return `La cuota de la selección ${item.odds_id} ya no está disponible`;
+      }
+
+      if (item.suspended || (item.status_updated_at && new Date(item.status_updated_at) > placedAt)) {
+        return `El mercado de la selección ${item.odds_id} se suspendió durante la espera`;
+      }
+
+      // Las selecciones con cuota mejorada se aceptaron al precio de la mejora
+      const currentOdds = roundOdds(
+        item.boosted_odds !== null ? parseFloat(item.boosted_odds) : americanToDecimal(parseFloat(item.price))
+      );
+
+      if (currentOdds !== roundOdds(parseFloat(item.odds_value))) {
+        return `La cuota de la selección ${item.odds_id} cambió durante la espera`;
+      }
+    }
+
+    return null;
+  }
+
+  private toResult(ticket: TicketRow): AcceptanceResult {
+    return {
+      ticket_id: ticket.id,
+      status: ticket.status!,
+      accept_after: ticket.accept_after ?? null,
+      rejection_reason: ticket.rejection_reason ?? null
+    };
+  }
+}
+
+export default new InPlayService();
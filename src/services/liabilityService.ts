@@ -0,0 +1,205 @@
+import pool from '../config/database';
+import { AppError } from '../middlewares/errorHandler';
+import { Event } from '../models/event';
+import { roundCurrency } from '../utils/helpers';
+
+export interface OutcomeLiability {
+  market_type: string;
+  outcome_name: string;
+  line: number | null;
+  singles_count: number;
+  singles_stake: number;
+  singles_liability: number;
+  parlay_legs: number;
+  parlay_stake: number;
+  parlay_liability: number;
+  total_liability: number;
+  // Resultado para la casa si gana este resultado: pagos netos menos lo apostado a los demás resultados del mercado
+  net_if_wins: number;
+}
+
+export interface EventLiability {
+  event_id: number;
+  home_team: string | null;
+  away_team: string | null;
+  commence_time: Date;
+  status: string;
+  total_stake: number;
+  max_liability: number;
+  outcomes: OutcomeLiability[];
+}
+
+// Columnas del evento que se consultan para su exposición
+type LiabilityEvent = Pick<Event, 'home_team' | 'away_team' | 'commence_time'> & {
+  id: number;
+  status: NonNullable<Event['status']>;
+};
+
+interface ExposureItem {
+  event_id: number;
+  bet_type: string;
+  selection: string;
+  line: string | null;
+  odds_value: string;
+  stake_amount: string;
+  potential_payout: string;
+  pending_odds: string[];
+}
+
+class LiabilityService {
+  // Exposición de un evento por resultado (solo tickets pendientes)
+  async getEventLiability(eventId: number): Promise<EventLiability> {
+    const eventResult = await pool.query(
+      'SELECT id, home_team, away_team, commence_time, status FROM events WHERE id = $1',
+      [eventId]
+    );
+
+    if (eventResult.rows.length === 0) {
+      throw new AppError('Evento no encontrado', 404);
+    }
+
+    const items = await this.getPendingItems([eventId]);
+    return this.buildEventLiability(eventResult.rows[0], items);
+  }
+
+  // Eventos abiertos ordenados por la mayor pérdida posible en uno de sus resultados
+  async getTopExposure(limit: number = 10): Promise<EventLiability[]> {
+    const eventsResult = await pool.query(
+      `SELECT DISTINCT e.id, e.home_team, e.away_team, e.commence_time, e.status
+       FROM events e
+       JOIN ticket_items ti ON ti.event_id = e.id
+       WHERE e.status IN ('upcoming', 'live') AND ti.status = 'pending'`
+    );
+
+    const events: LiabilityEvent[] = eventsResult.rows;
+
+    if (events.length === 0) {
+      return [];
+    }
+
+    const items = await this.getPendingItems(events.map(e => e.id));
+
+    return events
+      .map(event => this.buildEventLiability(event, items.filter(item => item.event_id === event.id)))
+      .sort((a, b) => b.max_liability - a.max_liability)
+      .slice(0, limit);
+  }
+
+  // Selecciones pendientes con el stake y pago de su ticket y las cuotas de las selecciones
+  // aún pendientes del mismo ticket (para repartir la exposición de las combinadas)
+  private async getPendingItems(eventIds: number[]): Promise<ExposureItem[]> {
+    const result = await pool.query(
+      `SELECT ti.event_id, ti.bet_type, ti.selection, ti.odds_value,
+              COALESCE(ti.handicap, ti.total) as line,
+              t.stake_amount, t.potential_payout,
+              (
+                SELECT array_agg(x.odds_value)
+                FROM ticket_items x
+                WHERE x.ticket_id = t.id AND x.status = 'pending'
+              ) as pending_odds
+       FROM ticket_items ti
+       JOIN tickets t ON ti.ticket_id = t.id
+       WHERE ti.event_id = ANY($1::int[]) AND ti.status = 'pending' AND t.status = 'pending'`,
+      [eventIds]
+    );
+
+    return result.rows;
+  }
+
+  // Línea que comparten los resultados opuestos de un mercado. En hándicap cada lado lleva
+  // el signo contrario (local -3.5 frente a visitante +3.5): se expresa desde el lado local.
+  private marketLine(outcome: OutcomeLiability): number | null {
+    if (outcome.market_type === 'spread' && outcome.line !== null && outcome.outcome_name === 'away') {
+      return -outcome.line;
+    }
+
+    return outcome.line;
+  }
+
+  private buildEventLiability(event: LiabilityEvent, items: ExposureItem[]): EventLiability {
+    const outcomes = new Map<string, OutcomeLiability>();
+
+    for (const item of items) {
+      const line = item.line !== null ? parseFloat(item.line) : null;
+      const key = `${item.bet_type}|${item.selection}|${line ?? ''}`;
+
+      if (!outcomes.has(key)) {
+        outcomes.set(key, {
+          market_type: item.bet_type,
+          outcome_name: item.selection,
+          line,
+          singles_count: 0,
+          singles_stake: 0,
+          singles_liability: 0,
+          parlay_legs: 0,
+          parlay_stake: 0,
+          parlay_liability: 0,
+          total_liability: 0,
+          net_if_wins: 0
+        });
+      }
+
+      const outcome = outcomes.get(key)!;
+      const stake = parseFloat(item.stake_amount);
+      const liability = parseFloat(item.potential_payout) - stake;
+      const pendingOdds = (item.pending_odds || []).map(odds => parseFloat(odds));
+
+      if (pendingOdds.length <= 1) {
+        outcome.singles_count++;
+        outcome.singles_stake += stake;
+        outcome.singles_liability += liability;
+      } else {
+        // En combinadas, cada selección pendiente carga con la parte de la exposición
+        // proporcional a su peso en la cuota total (logaritmo de su cuota)
+        const totalWeight = pendingOdds.reduce((sum, odds) => sum + Math.log(odds), 0);
+        const share = totalWeight > 0 ? Math.log(parseFloat(item.odds_value)) / totalWeight : 1 / pendingOdds.length;
+
+        outcome.parlay_legs++;
+        outcome.parlay_stake += stake * share;
+        outcome.parlay_liability += liability * share;
+      }
+    }
+
+    const list = Array.from(outcomes.values());
+
+    for (const outcome of list) {
+      outcome.total_liability = outcome.singles_liability + outcome.parlay_liability;
+
+      // Lo apostado a los demás resultados del mismo mercado se gana si este resultado ocurre
+      const otherStakes = list
+        .filter(o =>
+          o !== outcome &&
+          o.market_type === outcome.market_type &&
+          this.marketLine(o) === this.marketLine(outcome)
+        )
+        .reduce((sum, o) => sum + o.singles_stake + o.parlay_stake, 0);
+
+      outcome.net_if_wins = otherStakes - outcome.total_liability;
+    }
+
+    const rounded = list
+      .map(outcome => ({
+        ...outcome,
+        singles_stake: roundCurrency(outcome.singles_stake),
+        singles_liability: roundCurrency(outcome.singles_liability),
+        parlay_stake: roundCurrency(outcome.parlay_stake),
+        parlay_liability: roundCurrency(outcome.parlay_liability),
+        total_liability: roundCurrency(outcome.total_liability),
+        net_if_wins: roundCurrency(outcome.net_if_wins)
+      }))
+      .sort((a, b) => b.total_liability - a.total_liability);
+
+    return {
+      event_id: event.id,
+      home_team: event.home_team,
+      away_team: event.away_team,
+      commence_time: event.commence_time,
+      status: event.status,
+      total_stake: roundCurrency(list.reduce((sum, o) => sum + o.singles_stake + o.parlay_stake, 0)),
+      max_liability: rounded.length ? rounded[0].total_liability : 0,
+      outcomes: rounded
+    };
+  }
+}
+
+export default new LiabilityService();
@@ -0,0 +1,163 @@
+import { PoolClient } from 'pg';
+import betLimitModel, { BET_LIMIT_SCOPES, BetLimit } from '../models/betLimit';
+import { AppError } from '../middlewares/errorHandler';
+import { PricedSelection } from './betService';
+import loyaltyService from './loyaltyService';
+
+export interface EffectiveLimits {
+  min_stake: number | null;
+  max_stake: number | null;
+  max_payout: number | null;
+  max_event_stake: number | null;
+}
+
+export interface LimitViolation {
+  odds_id: number;
+  event_id: number;
+  selection: string;
+  limit: keyof EffectiveLimits;
+  value: number;
+  message: string;
+}
+
+const LIMIT_FIELDS: (keyof EffectiveLimits)[] = ['min_stake', 'max_stake', 'max_payout', 'max_event_stake'];
+
+class LimitService {
+  // Combinar los límites aplicables: cada campo toma el valor del nivel más específico que lo define
+  // y, dentro del mismo nivel, el límite del mercado prevalece sobre el general.
+  // Los máximos que no son específicos del usuario se amplían con el multiplicador de su nivel VIP.
+  resolveLimits(limits: BetLimit[], vipMultiplier: number = 1): EffectiveLimits {
+    const sorted = [...limits].sort(
+      (a, b) => BET_LIMIT_SCOPES.indexOf(b.scope) - BET_LIMIT_SCOPES.indexOf(a.scope) ||
+        Number(!!b.market_type) - Number(!!a.market_type)
+    );
+
+    const effective: EffectiveLimits = {
+      min_stake: null,
+      max_stake: null,
+      max_payout: null,
+      max_event_stake: null
+    };
+
+    for (const field of LIMIT_FIELDS) {
+      const limit = sorted.find(l => l[field] !== null && l[field] !== undefined);
+
+      if (!limit) {
+        effective[field] = null;
+        continue;
+      }
+
+      const multiplier = field !== 'min_stake' && limit.scope !== 'user' ? vipMultiplier : 1;
+      effective[field] = Number(limit[field]) * multiplier;
+    }
+
+    return effective;
+  }
+
+  // Comprobar stake, pago y acumulado por evento/resultado de cada selección antes de aceptar la apuesta.
+  // En apuestas de varias líneas el stake mínimo y máximo se comparan con el de cada línea.
+  // Todas las selecciones que incumplen algún límite se devuelven juntas.
+  async enforce(
+    client: PoolClient,
+    userId: number,
+    selections: PricedSelection[],
+    stakeAmount: number,
+    potentialPayout: number,
+    lineStake: number = stakeAmount
+  ): Promise<void> {
+    const violations: LimitViolation[] = [];
+    const vipMultiplier = await loyaltyService.getLimitMultiplier(client, userId);
+    const perLine = lineStake !== stakeAmount ? ' por línea' : '';
+    let userLocked = false;
+
+    for (const selection of selections) {
+      const eventResult = await client.query(
+        `SELECT e.id, e.competition_id, c.sport_id, e.event_type, e.name, e.home_team, e.away_team
+         FROM events e
+         JOIN competitions c ON e.competition_id = c.id
+         WHERE e.id = $1`,
+        [selection.event_id]
+      );
+
+      if (eventResult.rows.length === 0) {
+        throw new AppError(`Evento con id ${selection.event_id} no encontrado`, 404);
+      }
+
+      const event = eventResult.rows[0];
+      const limits = this.resolveLimits(
+        await betLimitModel.findApplicable(userId, {
+          sport_id: event.sport_id,
+          competition_id: event.competition_id,
+          event_id: event.id,
+          market_type: selection.bet_type
+        }),
+        vipMultiplier
+      );
+
+      // Los outrights no tienen equipos local y visitante: se identifican por su nombre
+      const eventLabel = event.event_type === 'outright' ? event.name : `${event.home_team} vs ${event.away_team}`;
+      const label = `${eventLabel} (${selection.bet_type}: ${selection.selection})`;
+      const violation = (limit: keyof EffectiveLimits, value: number, message: string) => {
+        violations.push({
+          odds_id: selection.odds_id,
+          event_id: selection.event_id,
+          selection: selection.selection,
+          limit,
+          value,
+          message: `${label}: ${message}`
+        });
+      };
+
+      if (limits.min_stake !== null && lineStake < limits.min_stake) {
+        violation('min_stake', limits.min_stake, `el importe mínimo${perLine} es ${limits.min_stake}`);
+      }
+
+      if (limits.max_stake !== null && lineStake > limits.max_stake) {
+        violation('max_stake', limits.max_stake, `el importe máximo${perLine} es ${limits.max_stake}`);
+      }
+
+      if (limits.max_payout !== null && potentialPayout > limits.max_payout) {
+        violation('max_payout', limits.max_payout, `el pago máximo por ticket es ${limits.max_payout}`);
+      }
+
+      if (limits.max_event_stake !== null) {
+        // Bloquear al usuario para que dos apuestas simultáneas no lean el mismo acumulado
+        if (!userLocked) {
+          await client.query('SELECT id FROM users WHERE id = $1 FOR UPDATE', [userId]);
+          userLocked = true;
+        }
+
+        // Importe ya apostado por el usuario al mismo resultado en tickets pendientes
+        const stakedResult = await client.query(
+          `SELECT COALESCE(SUM(t.stake_amount), 0) as staked
+           FROM ticket_items ti
+           JOIN tickets t ON ti.ticket_id = t.id
+           WHERE t.user_id = $1 AND t.status IN ('pending', 'pending_acceptance')
+             AND ti.event_id = $2 AND ti.bet_type = $3 AND ti.selection = $4`,
+          [userId, selection.event_id, selection.bet_type, selection.selection]
+        );
+
+        const staked = parseFloat(stakedResult.rows[0].staked);
+
+        if (staked + stakeAmount > limits.max_event_stake) {
+          const available = Math.max(limits.max_event_stake - staked, 0);
+          violation(
+            'max_event_stake',
+            limits.max_event_stake,
+            `el importe acumulado máximo es ${limits.max_event_stake} (disponible: ${available})`
+          );
+        }
+      }
+    }
+
+    if (violations.length > 0) {
+      throw new AppError(
+        violations.map(v => v.message).join('; '),
+        400,
+        { limit_violations: violations }
+      );
+    }
+  }
+}
+
+export default new LimitService();
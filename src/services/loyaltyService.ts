@@ -0,0 +1,126 @@
+import { Pool, PoolClient } from 'pg';
+import pool from '../config/database';
+import { AppError } from '../middlewares/errorHandler';
+import loyaltyTransactionModel, { LoyaltyTransaction } from '../models/loyaltyTransaction';
+import vipTierModel, { VipTier } from '../models/vipTier';
+import { roundCurrency } from '../utils/helpers';
+
+export interface LoyaltyStatus {
+  points: number;
+  tier: VipTier | null;
+  next_tier: VipTier | null;
+  points_to_next_tier: number | null;
+  recent: LoyaltyTransaction[];
+}
+
+class LoyaltyService {
+  private pointsPerUnit: number;
+  private maxOddsFactor: number;
+
+  constructor() {
+    this.pointsPerUnit = parseFloat(process.env.LOYALTY_POINTS_PER_UNIT || '1');
+    this.maxOddsFactor = parseFloat(process.env.LOYALTY_MAX_ODDS_FACTOR || '5');
+  }
+
+  // Puntos por ticket: importe por la cuota total, con la cuota limitada para no premiar apuestas improbables
+  calculatePoints(stake: number, totalOdds: number): number {
+    const oddsFactor = Math.min(Math.max(totalOdds, 1), this.maxOddsFactor);
+    return Math.floor(stake * this.pointsPerUnit * oddsFactor);
+  }
+
+  // Sumar los puntos de un ticket liquidado (ganado o perdido) con dinero real, devolver el
+  // reembolso del nivel actual si se perdió y subir de nivel si corresponde
+  async recordSettledTicket(
+    client: PoolClient,
+    ticket: { id?: number; user_id: number; status?: string; stake_amount: any; total_odds: any;
+      free_bet_id?: number | null }
+  ): Promise<void> {
+    if (!ticket.id || !['won', 'lost'].includes(ticket.status!) || ticket.free_bet_id) {
+      return;
+    }
+
+    const userResult = await client.query(
+      'SELECT vip_tier_id FROM users WHERE id = $1 FOR UPDATE',
+      [ticket.user_id]
+    );
+
+    if (userResult.rows.length === 0) {
+      return;
+    }
+
+    const tierId = userResult.rows[0].vip_tier_id;
+    const tier = tierId ? await vipTierModel.findById(tierId, client) : null;
+    const stake = parseFloat(ticket.stake_amount);
+
+    const cashback = tier && ticket.status === 'lost'
+      ? roundCurrency(stake * parseFloat(tier.cashback_percentage) / 100)
+      : 0;
+
+    const transaction = await loyaltyTransactionModel.create(client, {
+      user_id: ticket.user_id,
+      ticket_id: ticket.id,
+      points: this.calculatePoints(stake, parseFloat(ticket.total_odds)),
+      cashback_amount: cashback,
+      vip_tier_id: tierId
+    });
+
+    if (!transaction) {
+      return;
+    }
+
+    await client.query(
+      `UPDATE users u
+       SET loyalty_points = u.loyalty_points + $1,
+           balance = u.balance + $2,
+           vip_tier_id = (
+             SELECT vt.id FROM vip_tiers vt
+             WHERE vt.min_points <= u.loyalty_points + $1
+             ORDER BY vt.min_points DESC
+             LIMIT 1
+           ),
+           updated_at = NOW()
+       WHERE u.id = $3`,
+      [transaction.points, cashback, ticket.user_id]
+    );
+  }
+
+  // Multiplicador de límites del nivel del usuario
+  async getLimitMultiplier(client: Pool | PoolClient, userId: number): Promise<number> {
+    const result = await client.query(
+      `SELECT vt.limit_multiplier
+       FROM users u
+       JOIN vip_tiers vt ON u.vip_tier_id = vt.id
+       WHERE u.id = $1`,
+      [userId]
+    );
+
+    return result.rows.length ? parseFloat(result.rows[0].limit_multiplier) : 1;
+  }
+
+  // Puntos, nivel actual y lo que falta para el siguiente
+  async getStatus(userId: number): Promise<LoyaltyStatus> {
+    const userResult = await pool.query(
+      'SELECT loyalty_points, vip_tier_id FROM users WHERE id = $1',
+      [userId]
+    );
+
+    if (userResult.rows.length === 0) {
+      throw new AppError('Usuario no encontrado', 404);
+    }
+
+    const points = parseInt(userResult.rows[0].loyalty_points, 10);
+    const tiers = await vipTierModel.getAll();
+    const tier = tiers.find(t => t.id === userResult.rows[0].vip_tier_id) || null;
+    const nextTier = tiers.find(t => t.min_points > points) || null;
+
+    return {
+      points,
+      tier,
+      next_tier: nextTier,
+      points_to_next_tier: nextTier ? nextTier.min_points - points : null,
+      recent: await loyaltyTransactionModel.findByUserId(userId, 10)
+    };
+  }
+}
+
+export default new LoyaltyService();
@@ -1,16 +1,21 @@
 import axios from 'axios';
-import { EventModel } from '../models/event';
+import fs from 'fs';
+import path from 'path';
+import { EventModel, EventType } from '../models/event';
 import { OddsModel, Odds } from '../models/odd';
 import { CompetitionModel } from '../models/competition';
 import { SportModel } from '../models/sport';
+import { EventResultModel } from '../models/eventResult';
+import settlementService from './settlementService';
 
 export interface OddsApiEvent {
   id: string;
   sport_key: string;
   sport_title: string;
   commence_time: string;
-  home_team: string;
-  away_team: string;
+  // Los outrights no tienen equipos
+  home_team?: string | null;
+  away_team?: string | null;
   bookmakers: OddsApiBookmaker[];
 }
 
@@ -33,12 +38,36 @@ export interface OddsApiOutcome {
   point?: number;
 }
 
+export interface OddsApiScore {
+  id: string;
+  sport_key: string;
+  sport_title: string;
+  commence_time: string;
+  completed: boolean;
+  home_team: string;
+  away_team: string;
+  scores: { name: string; score: string }[] | null;
+  last_update: string | null;
+}
+
+export interface ScoreSyncResult {
+  api_event_id: string;
+  event_id: number | null;
+  status: 'live' | 'completed' | 'unchanged' | 'not_found' | 'error';
+  home_score: number | null;
+  away_score: number | null;
+  settled_tickets?: number;
+  error?: string;
+}
+
 export interface ProcessedEvent {
   id: number;
   api_event_id: string;
   sport_key: string;
-  home_team: string;
-  away_team: string;
+  event_type: EventType;
+  name: string | null;
+  home_team: string | null;
+  away_team: string | null;
   commence_time: Date;
   odds: ProcessedOdds[];
 }
@@ -58,6 +87,8 @@ class OddsApiService {
   private oddsModel: OddsModel;
   private competitionModel: CompetitionModel;
   private sportModel: SportModel;
+  private eventResultModel: EventResultModel;
+  private fixturesDir: string;
 
   constructor() {
     this.apiKey = process.env.ODDS_API_KEY || '';
@@ -66,6 +97,9 @@ class OddsApiService {
     this.oddsModel = new OddsModel();
     this.competitionModel = new CompetitionModel();
     this.sportModel = new SportModel();
+    this.eventResultModel = new EventResultModel();
+    // Si está definido, los marcadores se leen de archivos JSON grabados en lugar de la API
+    this.fixturesDir = process.env.ODDS_API_FIXTURES_DIR || '';
 
     if (!this.apiKey) {
       console.warn('⚠️  ODDS_API_KEY no está configurada en las variables de entorno');
@@ -133,6 +167,175 @@ class OddsApiService {
     }
   }
 
+  // Obtener marcadores en vivo y finales de un deporte
+  async getScores(sportKey: string, daysFrom?: number): Promise<OddsApiScore[]> {
+    if (this.fixturesDir) {
+      return this.loadScoresFixture(path.join(this.fixturesDir, `${sportKey}_scores.json`));
+    }
+
+    try {
+      const response = await axios.get(`${this.baseUrl}/sports/${sportKey}/scores/`, {
+        params: {
+          apiKey: this.apiKey,
+          daysFrom,
+          dateFormat: 'iso'
+        },
+        timeout: 15000
+      });
+
+      return response.data;
+    } catch (error) {
+      console.error(`Error obteniendo marcadores para ${sportKey}:`, error);
+      if (axios.isAxiosError(error)) {
+        if (error.response?.status === 401) {
+          throw new Error('API Key inválida para The Odds API');
+        }
+        if (error.response?.status === 429) {
+          throw new Error('Límite de solicitudes excedido para The Odds API');
+        }
+      }
+      throw new Error('Error al obtener marcadores de la API');
+    }
+  }
+
+  // Leer una respuesta grabada del endpoint /scores
+  loadScoresFixture(filePath: string): OddsApiScore[] {
+    const raw = fs.readFileSync(filePath, 'utf8');
+    const data = JSON.parse(raw);
+
+    if (!Array.isArray(data)) {
+      throw new Error(`El archivo ${filePath} no contiene una lista de marcadores`);
+    }
+
+    return data;
+  }
+
+  // Guardar marcadores y mover los eventos entre live y completed.
+  // Cada evento se procesa por separado: un error queda en su resultado y no detiene el resto.
+  async syncScores(apiScores: OddsApiScore[]): Promise<ScoreSyncResult[]> {
+    const results: ScoreSyncResult[] = [];
+
+    for (const apiScore of apiScores) {
+      try {
+        results.push(await this.syncScore(apiScore));
+      } catch (error) {
+        console.error(`Error sincronizando marcador de ${apiScore.id}:`, error);
+        results.push({
+          api_event_id: apiScore.id,
+          event_id: null,
+          status: 'error',
+          home_score: null,
+          away_score: null,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    return results;
+  }
+
+  // Marcador de una respuesta de /scores; null mientras el evento no ha comenzado
+  readScore(apiScore: OddsApiScore): { home_score: number; away_score: number; completed: boolean } | null {
+    const homeScore = this.findTeamScore(apiScore, apiScore.home_team);
+    const awayScore = this.findTeamScore(apiScore, apiScore.away_team);
+
+    if (homeScore === null || awayScore === null) {
+      return null;
+    }
+
+    return { home_score: homeScore, away_score: awayScore, completed: apiScore.completed };
+  }
+
+  private async syncScore(apiScore: OddsApiScore): Promise<ScoreSyncResult> {
+    const event = await this.eventModel.findByApiId(apiScore.id);
+
+    if (!event) {
+      return {
+        api_event_id: apiScore.id,
+        event_id: null,
+        status: 'not_found',
+        home_score: null,
+        away_score: null
+      };
+    }
+
+    const score = this.readScore(apiScore);
+
+    // Sin marcador todavía, o evento ya cerrado (liquidado, aplazado o cancelado)
+    if (!score || ['completed', 'canceled', 'postponed'].includes(event.status!)) {
+      return {
+        api_event_id: apiScore.id,
+        event_id: event.id!,
+        status: 'unchanged',
+        home_score: score ? score.home_score : null,
+        away_score: score ? score.away_score : null
+      };
+    }
+
+    const lastUpdate = apiScore.last_update ? new Date(apiScore.last_update) : null;
+
+    if (apiScore.completed) {
+      // settleEvent guarda el marcador final y marca el evento como completed en la misma transacción
+      // que liquida los tickets: si falla, el resultado no queda registrado como definitivo
+      const summary = await settlementService.settleEvent(
+        event.id!, score.home_score, score.away_score, lastUpdate
+      );
+
+      return {
+        api_event_id: apiScore.id,
+        event_id: event.id!,
+        status: 'completed',
+        home_score: score.home_score,
+        away_score: score.away_score,
+        settled_tickets: summary.settled_tickets.length
+      };
+    }
+
+    await this.eventResultModel.upsert({
+      event_id: event.id!,
+      home_score: score.home_score,
+      away_score: score.away_score,
+      completed: false,
+      last_update: lastUpdate
+    });
+
+    if (event.status === 'upcoming') {
+      await this.eventModel.updateStatus(event.id!, 'live');
+    }
+
+    return {
+      api_event_id: apiScore.id,
+      event_id: event.id!,
+      status: 'live',
+      home_score: score.home_score,
+      away_score: score.away_score
+    };
+  }
+
+  // Método principal para obtener y sincronizar marcadores
+  async fetchAndSyncScores(sportKey: string, daysFrom?: number): Promise<ScoreSyncResult[]> {
+    console.log(`🔄 Obteniendo marcadores para ${sportKey}...`);
+
+    const apiScores = await this.getScores(sportKey, daysFrom);
+    console.log(`📥 Obtenidos ${apiScores.length} marcadores`);
+
+    return this.syncScores(apiScores);
+  }
+
+  // Sincronizar marcadores desde un archivo JSON grabado
+  async syncScoresFromFixture(filePath: string): Promise<ScoreSyncResult[]> {
+    return this.syncScores(this.loadScoresFixture(filePath));
+  }
+
+  // Obtener el marcador de un equipo en la respuesta de /scores
+  private findTeamScore(apiScore: OddsApiScore, teamName: string): number | null {
+    const entry = apiScore.scores?.find(score => score.name === teamName);
+    if (!entry) return null;
+
+    const value = parseInt(entry.score, 10);
+    return isNaN(value) ? null : value;
+  }
+
   async syncSports(): Promise<void> {
     try {
       
@@ -245,6 +448,15 @@ class OddsApiService {
                 };
                 break;
 
+              // Mercado de ganador: un resultado por participante, con su nombre
+              case 'outrights':
+                processedOdd = {
+                  market_type: 'outright',
+                  outcome_name: outcome.name,
+                  price: outcome.price
+                };
+                break;
+
               default:
                 return; // Skip unknown market types
             }
@@ -256,13 +468,16 @@ class OddsApiService {
 
       // Calcular mejores cuotas por mercado
       const bestOdds = this.calculateBestOdds(processedOdds);
+      const isOutright = !event.home_team || !event.away_team;
 
       return {
         id: 0, // Se asignará al guardar en DB
         api_event_id: event.id,
         sport_key: event.sport_key,
-        home_team: event.home_team,
-        away_team: event.away_team,
+        event_type: isOutright ? 'outright' : 'match',
+        name: isOutright ? event.sport_title : null,
+        home_team: event.home_team ?? null,
+        away_team: event.away_team ?? null,
         commence_time: new Date(event.commence_time),
         odds: bestOdds
       };
@@ -270,7 +485,7 @@ class OddsApiService {
   }
 
   // Mapear nombres de equipos a outcomes estándar
-  private mapTeamToOutcome(teamName: string, homeTeam: string, awayTeam: string): string {
+  private mapTeamToOutcome(teamName: string, homeTeam?: string | null, awayTeam?: string | null): string {
     if (teamName === homeTeam) return 'home';
     if (teamName === awayTeam) return 'away';
     return 'draw'; // Para deportes que permiten empate
@@ -347,6 +562,8 @@ class OddsApiService {
         event = await this.eventModel.create({
           competition_id: competition.id!,
           api_event_id: processedEvent.api_event_id,
+          event_type: processedEvent.event_type,
+          name: processedEvent.name,
           home_team: processedEvent.home_team,
           away_team: processedEvent.away_team,
           commence_time: processedEvent.commence_time,
@@ -354,11 +571,12 @@ class OddsApiService {
         });
       } else {
         // Actualizar evento existente
+        // El estado lo gestiona la sincronización de marcadores
         event = await this.eventModel.update(event.id!, {
+          name: processedEvent.name ?? undefined,
           home_team: processedEvent.home_team,
           away_team: processedEvent.away_team,
-          commence_time: processedEvent.commence_time,
-          status: 'upcoming'
+          commence_time: processedEvent.commence_time
         });
       }
 
@@ -388,6 +606,16 @@ class OddsApiService {
     }
   }
 
+  // Los mercados de ganador se publican bajo claves propias ("soccer_spain_la_liga_winner")
+  private isOutrightSport(sportKey: string): boolean {
+    return /_winner$/.test(sportKey);
+  }
+
+  // Descripción de un evento para los registros
+  private describeEvent(event: { name?: string | null; home_team?: string | null; away_team?: string | null }): string {
+    return event.home_team && event.away_team ? `${event.away_team} @ ${event.home_team}` : event.name || '';
+  }
+
   // Obtener nombre de competición basado en sport_key
   private getCompetitionName(sportKey: string): string {
     const competitionMap: { [key: string]: string } = {
@@ -421,7 +649,10 @@ class OddsApiService {
     try {
       console.log(`🔄 Obteniendo eventos para ${sportKey} desde Odds API...`);
       
-      const apiEvents = await this.getEventsBySport(sportKey);
+      const apiEvents = await this.getEventsBySport(
+        sportKey,
+        this.isOutrightSport(sportKey) ? { markets: 'outrights' } : {}
+      );
       console.log(`📥 Obtenidos ${apiEvents.length} eventos de la API`);
       
       const processedEvents = this.processApiEvents(apiEvents);
@@ -432,7 +663,7 @@ class OddsApiService {
         try {
           const eventId = await this.syncEventToDatabase(event);
           event.id = eventId;
-          console.log(`✅ Evento sincronizado: ${event.away_team} @ ${event.home_team} (ID: ${eventId})`);
+          console.log(`✅ Evento sincronizado: ${this.describeEvent(event)} (ID: ${eventId})`);
         } catch (error) {
           console.error(`❌ Error sincronizando evento ${event.api_event_id}:`, error);
         }
@@ -472,7 +703,7 @@ class OddsApiService {
           if (targetEvent) {
             const processedEvents = this.processApiEvents([targetEvent]);
             const eventId = await this.syncEventToDatabase(processedEvents[0]);
-            console.log(`✅ Evento validado y sincronizado: ${targetEvent.away_team} @ ${targetEvent.home_team}`);
+            console.log(`✅ Evento validado y sincronizado: ${this.describeEvent(targetEvent)}`);
             return eventId;
           }
         } catch (error) {
@@ -0,0 +1,87 @@
+import { PoolClient } from 'pg';
+import parlayPromotionModel, { ParlayPromotion } from '../models/parlayPromotion';
+import freeBetService from './freeBetService';
+import { PricedSelection } from './betService';
+
+// Días de validez por defecto de la apuesta gratuita del seguro
+const DEFAULT_INSURANCE_VALIDITY_DAYS = 7;
+
+export interface ParlayPromotions {
+  boost: ParlayPromotion | null;
+  insurance: ParlayPromotion | null;
+}
+
+class ParlayPromotionService {
+  // Promociones de combinada que aplican a unas selecciones (al menos dos)
+  async findApplicable(client: PoolClient, selections: PricedSelection[]): Promise<ParlayPromotions> {
+    if (selections.length < 2) {
+      return { boost: null, insurance: null };
+    }
+
+    const minLegOdds = Math.min(...selections.map(s => s.odds_value));
+
+    return {
+      boost: await parlayPromotionModel.findBestApplicable(client, 'boost', selections.length, minLegOdds),
+      insurance: await parlayPromotionModel.findBestApplicable(client, 'insurance', selections.length, minLegOdds)
+    };
+  }
+
+  // Pago con el porcentaje extra aplicado solo a las ganancias
+  boostedPayout(stake: number, totalOdds: number, boostPercentage: number | null): number {
+    const payout = stake * totalOdds;
+
+    if (!boostPercentage) {
+      return payout;
+    }
+
+    return payout + (payout - stake) * boostPercentage / 100;
+  }
+
+  // Resolver el seguro de una combinada perdida: si solo falló una selección y quedan al menos
+  // las selecciones mínimas de la promoción, se devuelve el importe como apuesta gratuita.
+  async settleInsurance(
+    client: PoolClient,
+    ticket: { id: number; user_id: number; stake_amount: any; insurance_promotion_id?: number | null },
+    itemStatuses: string[]
+  ): Promise<number | null> {
+    if (!ticket.insurance_promotion_id) {
+      return null;
+    }
+
+    const counted = itemStatuses.filter(s => !['push', 'void'].includes(s));
+    const lost = counted.filter(s => s === 'lost').length;
+    const promotion = await parlayPromotionModel.findById(ticket.insurance_promotion_id, client);
+
+    if (!promotion || lost !== 1 || counted.length < promotion.min_legs) {
+      return null;
+    }
+
+    const stake = parseFloat(ticket.stake_amount);
+    const amount = promotion.max_refund !== null && promotion.max_refund !== undefined
+      ? Math.min(stake, parseFloat(promotion.max_refund))
+      : stake;
+
+    const expiresAt = new Date();
+    expiresAt.setDate(expiresAt.getDate() + (promotion.free_bet_validity_days || DEFAULT_INSURANCE_VALIDITY_DAYS));
+
+    const freeBet = await freeBetService.issue(
+      ticket.user_id,
+      {
+        amount,
+        expires_at: expiresAt,
+        description: `Seguro de combinada del ticket #${ticket.id} (${promotion.name})`
+      },
+      'promotion',
+      client
+    );
+
+    await client.query(
+      'UPDATE tickets SET insurance_free_bet_id = $1, updated_at = NOW() WHERE id = $2',
+      [freeBet.id, ticket.id]
+    );
+
+    return freeBet.id!;
+  }
+}
+
+export default new ParlayPromotionService();
@@ -0,0 +1,167 @@
+import { randomInt } from 'crypto';
+import { PoolClient } from 'pg';
+import pool from '../config/database';
+import { AppError } from '../middlewares/errorHandler';
+import referralModel, { Referral, SuspiciousReferral } from '../models/referral';
+import { roundCurrency } from '../utils/helpers';
+
+// Sin caracteres que se confunden al copiarlos (0/O, 1/I/L)
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 6;
+export const MAX_REFERRAL_CODE_ATTEMPTS = 5;
+
+// Umbrales de la vista de fraude
+const SUSPICIOUS_CHAIN_DEPTH = 3;
+const SUSPICIOUS_BURST = 5;
+const SUSPICIOUS_MINUTES_TO_REWARD = 60;
+
+export interface ReferralSummary {
+  referral_code: string;
+  reward_amount: number;
+  total_referrals: number;
+  rewarded_referrals: number;
+  total_rewards: number;
+  referrals: Referral[];
+}
+
+class ReferralService {
+  private rewardAmount: number;
+  private minDeposit: number;
+  private minStake: number;
+  private minOdds: number;
+
+  constructor() {
+    this.rewardAmount = parseFloat(process.env.REFERRAL_REWARD_AMOUNT || '10');
+    this.minDeposit = parseFloat(process.env.REFERRAL_MIN_DEPOSIT || '20');
+    this.minStake = parseFloat(process.env.REFERRAL_MIN_STAKE || '5');
+    this.minOdds = parseFloat(process.env.REFERRAL_MIN_ODDS || '1.5');
+  }
+
+  generateCode(): string {
+    let code = '';
+    for (let i = 0; i < CODE_LENGTH; i++) {
+      code += CODE_ALPHABET[randomInt(CODE_ALPHABET.length)];
+    }
+    return code;
+  }
+
+  // Usuario dueño de un código de referido
+  async findReferrer(code: string): Promise<{ id: number; username: string }> {
+    const result = await pool.query(
+      'SELECT id, username FROM users WHERE referral_code = $1',
+      [code.toUpperCase()]
+    );
+
+    if (result.rows.length === 0) {
+      throw new AppError('Código de referido no válido', 400);
+    }
+
+    return result.rows[0];
+  }
+
+  // Asignar un código a usuarios registrados antes del programa de referidos
+  async ensureCode(userId: number): Promise<string> {
+    for (let attempt = 0; attempt < MAX_REFERRAL_CODE_ATTEMPTS; attempt++) {
+      try {
+        const result = await pool.query(
+          `UPDATE users SET referral_code = COALESCE(referral_code, $1)
+           WHERE id = $2
+           RETURNING referral_code`,
+          [this.generateCode(), userId]
+        );
+
+        if (result.rows.length === 0) {
+          throw new AppError('Usuario no encontrado', 404);
+        }
+
+        return result.rows[0].referral_code;
+      } catch (error: any) {
+        if (error.code !== '23505') {
+          throw error;
+        }
+      }
+    }
+
+    throw new AppError('No se pudo generar un código de referido', 500);
+  }
+
+  // Primer depósito completado del referido que alcanza el mínimo
+  async recordDeposit(client: PoolClient, deposit: { id?: number; user_id: number; amount: any }): Promise<void> {
+    if (parseFloat(deposit.amount) < this.minDeposit) {
+      return;
+    }
+
+    const referral = await referralModel.lockPendingByReferred(client, deposit.user_id);
+
+    if (!referral || referral.first_deposit_id) {
+      return;
+    }
+
+    await referralModel.recordDeposit(client, referral.id!, deposit.id!);
+    await this.rewardIfQualified(client, { ...referral, first_deposit_id: deposit.id });
+  }
+
+  // Primera apuesta liquidada del referido con dinero real, importe y cuota mínimos
+  async recordBet(
+    client: PoolClient,
+    ticket: { id?: number; user_id: number; status?: string; stake_amount: any; total_odds: any;
+      free_bet_id?: number | null }
+  ): Promise<void> {
+    if (!ticket.id || !['won', 'lost'].includes(ticket.status!) || ticket.free_bet_id) {
+      return;
+    }
+
+    if (parseFloat(ticket.stake_amount) < this.minStake || parseFloat(ticket.total_odds) < this.minOdds) {
+      return;
+    }
+
+    const referral = await referralModel.lockPendingByReferred(client, ticket.user_id);
+
+    if (!referral || referral.first_ticket_id) {
+      return;
+    }
+
+    await referralModel.recordBet(client, referral.id!, ticket.id);
+    await this.rewardIfQualified(client, { ...referral, first_ticket_id: ticket.id });
+  }
+
+  // Acreditar la recompensa al referente cuando el referido ha depositado y apostado
+  private async rewardIfQualified(client: PoolClient, referral: Referral): Promise<void> {
+    if (!referral.first_deposit_id || !referral.first_ticket_id) {
+      return;
+    }
+
+    await referralModel.markRewarded(client, referral.id!, this.rewardAmount);
+
+    await client.query(
+      'UPDATE users SET balance = balance + $1, updated_at = NOW() WHERE id = $2',
+      [this.rewardAmount, referral.referrer_id]
+    );
+  }
+
+  // Código propio, referidos y recompensas obtenidas por un usuario
+  async getSummary(userId: number): Promise<ReferralSummary> {
+    const referralCode = await this.ensureCode(userId);
+    const referrals = await referralModel.findByReferrer(userId);
+    const rewarded = referrals.filter(r => r.status === 'rewarded');
+
+    return {
+      referral_code: referralCode,
+      reward_amount: this.rewardAmount,
+      total_referrals: referrals.length,
+      rewarded_referrals: rewarded.length,
+      total_rewards: roundCurrency(rewarded.reduce((sum, r) => sum + Number(r.reward_amount), 0)),
+      referrals
+    };
+  }
+
+  async getSuspicious(): Promise<SuspiciousReferral[]> {
+    return referralModel.findSuspicious({
+      minDepth: SUSPICIOUS_CHAIN_DEPTH,
+      minBurst: SUSPICIOUS_BURST,
+      minMinutesToReward: SUSPICIOUS_MINUTES_TO_REWARD
+    });
+  }
+}
+
+export default new ReferralService();
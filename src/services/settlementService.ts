@@ -0,0 +1,635 @@
+import { PoolClient } from 'pg';
+import pool from '../config/database';
+import { AppError } from '../middlewares/errorHandler';
+import freeBetModel from '../models/freeBet';
+import eventResultModel from '../models/eventResult';
+import freeBetService from './freeBetService';
+import bonusService from './bonusService';
+import referralService from './referralService';
+import loyaltyService from './loyaltyService';
+import parlayPromotionService from './parlayPromotionService';
+import teaserService from './teaserService';
+import ifBetService from './ifBetService';
+import correlationService from './correlationService';
+import { MIN_BET_BUILDER_ODDS, PricedSelection } from './betService';
+
+export type GradeResult = 'won' | 'lost' | 'push';
+
+export interface GradableSelection {
+  market_type: string;
+  outcome_name: string;
+  handicap?: number | string | null;
+  total?: number | string | null;
+}
+
+export interface SettledTicket {
+  ticket_id: number;
+  status: string;
+  payout: number;
+}
+
+export interface SettlementSummary {
+  event_id: number;
+  score_home: number | null;
+  score_away: number | null;
+  graded_items: number;
+  ungraded_items: number;
+  settled_tickets: SettledTicket[];
+}
+
+class SettlementService {
+  // Calificar una selección a partir del marcador final.
+  // Devuelve null cuando la selección no puede resolverse automáticamente.
+  gradeSelection(selection: GradableSelection, scoreHome: number, scoreAway: number): GradeResult | null {
+    switch (selection.market_type) {
+      case 'h2h': {
+        const winner = scoreHome > scoreAway ? 'home' : scoreHome < scoreAway ? 'away' : 'draw';
+        return selection.outcome_name === winner ? 'won' : 'lost';
+      }
+
+      case 'spread': {
+        if (selection.handicap === null || selection.handicap === undefined) return null;
+        const handicap = parseFloat(selection.handicap as string);
+        let margin: number;
+
+        if (selection.outcome_name === 'home') {
+          margin = scoreHome + handicap - scoreAway;
+        } else if (selection.outcome_name === 'away') {
+          margin = scoreAway + handicap - scoreHome;
+        } else {
+          return null;
+        }
+
+        if (margin === 0) return 'push';
+        return margin > 0 ? 'won' : 'lost';
+      }
+
+      case 'totals': {
+        if (selection.total === null || selection.total === undefined) return null;
+        const line = parseFloat(selection.total as string);
+        const points = scoreHome + scoreAway;
+
+        if (points === line) return 'push';
+        if (selection.outcome_name === 'over') return points > line ? 'won' : 'lost';
+        if (selection.outcome_name === 'under') return points < line ? 'won' : 'lost';
+        return null;
+      }
+
+      default:
+        return null;
+    }
+  }
+
+  // Registrar el resultado de un evento y liquidar los tickets afectados en una sola transacción.
+  // lastUpdate es la marca de tiempo del marcador cuando llega de la API externa.
+  async settleEvent(
+    eventId: number,
+    scoreHome: number,
+    scoreAway: number,
+    lastUpdate: Date | null = null
+  ): Promise<SettlementSummary> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const eventResult = await client.query(
+        'SELECT id, status, event_type FROM events WHERE id = $1 FOR UPDATE',
+        [eventId]
+      );
+
+      if (eventResult.rows.length === 0) {
+        throw new AppError('Evento no encontrado', 404);
+      }
+
+      if (['canceled', 'postponed'].includes(eventResult.rows[0].status)) {
+        throw new AppError(`No se puede liquidar un evento ${eventResult.rows[0].status}`, 400);
+      }
+
+      // Con el evento bloqueado, una segunda liquidación (admin y sincronización a la vez) no vuelve a pagar
+      if (eventResult.rows[0].status === 'completed') {
+        throw new AppError('El evento ya fue liquidado', 400);
+      }
+
+      if (eventResult.rows[0].event_type === 'outright') {
+        throw new AppError('Los outrights se liquidan declarando el ganador', 400);
+      }
+
+      const result = scoreHome > scoreAway ? 'home' : scoreHome < scoreAway ? 'away' : 'draw';
+
+      await client.query(
+        `UPDATE events
+         SET status = 'completed', score_home = $1, score_away = $2, result = $3, updated_at = NOW()
+         WHERE id = $4`,
+        [scoreHome, scoreAway, result, eventId]
+      );
+
+      await eventResultModel.upsert({
+        event_id: eventId,
+        home_score: scoreHome,
+        away_score: scoreAway,
+        completed: true,
+        last_update: lastUpdate
+      }, client);
+
+      // Selecciones pendientes del evento con los datos de su mercado
+      const itemsResult = await client.query(
+        `SELECT ti.id, ti.ticket_id, o.market_type, o.outcome_name,
+                COALESCE(ti.handicap, o.handicap) as handicap,
+                COALESCE(ti.total, o.total) as total
+         FROM ticket_items ti
+         JOIN odds o ON ti.odds_id = o.id
+         WHERE ti.event_id = $1 AND ti.status = 'pending'
+         FOR UPDATE OF ti`,
+        [eventId]
+      );
+
+      let gradedItems = 0;
+      let ungradedItems = 0;
+      const ticketIds = new Set<number>();
+      const repricedTicketIds = new Set<number>();
+
+      for (const item of itemsResult.rows) {
+        const grade = this.gradeSelection(item, scoreHome, scoreAway);
+
+        if (!grade) {
+          ungradedItems++;
+          continue;
+        }
+
+        await client.query(
+          'UPDATE ticket_items SET status = $1, updated_at = NOW() WHERE id = $2',
+          [grade, item.id]
+        );
+
+        gradedItems++;
+        ticketIds.add(item.ticket_id);
+
+        if (grade === 'push') {
+          repricedTicketIds.add(item.ticket_id);
+        }
+      }
+
+      for (const ticketId of repricedTicketIds) {
+        await this.recalculateTicketOdds(client, ticketId);
+      }
+
+      const settledTickets = await this.resolveTickets(client, ticketIds);
+
+      await client.query('COMMIT');
+
+      return {
+        event_id: eventId,
+        score_home: scoreHome,
+        score_away: scoreAway,
+        graded_items: gradedItems,
+        ungraded_items: ungradedItems,
+        settled_tickets: settledTickets
+      };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Liquidar un outright declarando el ganador. Con varios ganadores empatados (dead heat)
+  // cada selección ganadora cobra su cuota reducida en proporción: 1 / número de empatados.
+  async settleOutright(eventId: number, winners: string[]): Promise<SettlementSummary> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const eventResult = await client.query(
+        'SELECT id, status, event_type FROM events WHERE id = $1 FOR UPDATE',
+        [eventId]
+      );
+
+      if (eventResult.rows.length === 0) {
+        throw new AppError('Evento no encontrado', 404);
+      }
+
+      const event = eventResult.rows[0];
+
+      if (event.event_type !== 'outright') {
+        throw new AppError('El evento no es un outright', 400);
+      }
+
+      if (event.status !== 'upcoming') {
+        throw new AppError(`No se puede liquidar un evento ${event.status}`, 400);
+      }
+
+      const uniqueWinners = Array.from(new Set(winners));
+      const outcomesResult = await client.query(
+        `SELECT DISTINCT outcome_name FROM odds WHERE event_id = $1 AND market_type = 'outright'`,
+        [eventId]
+      );
+      const runners: string[] = outcomesResult.rows.map(row => row.outcome_name);
+      const unknown = uniqueWinners.filter(winner => !runners.includes(winner));
+
+      if (unknown.length > 0) {
+        throw new AppError('Participantes no encontrados en el mercado', 400, { unknown });
+      }
+
+      const deadHeatFactor = 1 / uniqueWinners.length;
+
+      await client.query(
+        `UPDATE events SET status = 'completed', updated_at = NOW() WHERE id = $1`,
+        [eventId]
+      );
+
+      for (const winner of uniqueWinners) {
+        await client.query(
+          `INSERT INTO outright_results (event_id, outcome_name, dead_heat_factor)
+           VALUES ($1, $2, $3)`,
+          [eventId, winner, deadHeatFactor]
+        );
+      }
+
+      const itemsResult = await client.query(
+        `SELECT ti.id, ti.ticket_id, ti.selection
+         FROM ticket_items ti
+         WHERE ti.event_id = $1 AND ti.status = 'pending'
+         FOR UPDATE OF ti`,
+        [eventId]
+      );
+
+      const ticketIds = new Set<number>();
+      const repricedTicketIds = new Set<number>();
+
+      for (const item of itemsResult.rows) {
+        const won = uniqueWinners.includes(item.selection);
+
+        await client.query(
+          'UPDATE ticket_items SET status = $1, dead_heat_factor = $2, updated_at = NOW() WHERE id = $3',
+          [won ? 'won' : 'lost', won && deadHeatFactor < 1 ? deadHeatFactor : null, item.id]
+        );
+
+        ticketIds.add(item.ticket_id);
+
+        if (won && deadHeatFactor < 1) {
+          repricedTicketIds.add(item.ticket_id);
+        }
+      }
+
+      for (const ticketId of repricedTicketIds) {
+        await this.recalculateTicketOdds(client, ticketId);
+      }
+
+      const settledTickets = await this.resolveTickets(client, ticketIds);
+
+      await client.query('COMMIT');
+
+      return {
+        event_id: eventId,
+        score_home: null,
+        score_away: null,
+        graded_items: itemsResult.rows.length,
+        ungraded_items: 0,
+        settled_tickets: settledTickets
+      };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Anular las selecciones pendientes de un evento aplazado o cancelado
+  async voidEventSelections(eventId: number, eventStatus: 'postponed' | 'canceled'): Promise<SettlementSummary> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const eventResult = await client.query(
+        'SELECT id, status FROM events WHERE id = $1 FOR UPDATE',
+        [eventId]
+      );
+
+      if (eventResult.rows.length === 0) {
+        throw new AppError('Evento no encontrado', 404);
+      }
+
+      if (eventResult.rows[0].status === 'completed') {
+        throw new AppError('No se puede anular un evento ya finalizado', 400);
+      }
+
+      await client.query(
+        'UPDATE events SET status = $1, updated_at = NOW() WHERE id = $2',
+        [eventStatus, eventId]
+      );
+
+      const itemsResult = await client.query(
+        `UPDATE ticket_items SET status = 'void', updated_at = NOW()
+         WHERE event_id = $1 AND status = 'pending'
+         RETURNING id, ticket_id`,
+        [eventId]
+      );
+
+      const ticketIds = new Set<number>(itemsResult.rows.map(row => row.ticket_id));
+
+      for (const ticketId of ticketIds) {
+        await this.recalculateTicketOdds(client, ticketId);
+      }
+
+      const settledTickets = await this.resolveTickets(client, ticketIds);
+
+      await client.query('COMMIT');
+
+      return {
+        event_id: eventId,
+        score_home: null,
+        score_away: null,
+        graded_items: itemsResult.rows.length,
+        ungraded_items: 0,
+        settled_tickets: settledTickets
+      };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Anular una selección concreta de un ticket pendiente (solo admin)
+  async voidTicketItem(itemId: number): Promise<SettledTicket | null> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const itemResult = await client.query(
+        `UPDATE ticket_items SET status = 'void', updated_at = NOW()
+         WHERE id = $1 AND status = 'pending'
+         RETURNING ticket_id`,
+        [itemId]
+      );
+
+      if (itemResult.rows.length === 0) {
+        throw new AppError('Selección no encontrada o ya resuelta', 404);
+      }
+
+      const ticketId = itemResult.rows[0].ticket_id;
+      await this.recalculateTicketOdds(client, ticketId);
+      const [settled] = await this.resolveTickets(client, new Set([ticketId]));
+
+      await client.query('COMMIT');
+      return settled || null;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Recalcular cuota total y pago potencial sin las selecciones anuladas o empatadas.
+  // Un bet builder recalcula su ajuste de correlación con los pares que quedan (si son al menos dos),
+  // y el boost de combinada mientras queden las selecciones mínimas de su promoción.
+  // Un teaser toma la cuota de la tabla para las selecciones que quedan.
+  // Un if-bet calcula su pago al recorrer la cadena, por lo que no se recalcula aquí.
+  // Las selecciones ganadoras de un outright con empate cuentan con la reducción por dead heat.
+  private async recalculateTicketOdds(client: PoolClient, ticketId: number): Promise<void> {
+    const ticketResult = await client.query(
+      `SELECT t.id, t.stake_amount, t.status, t.ticket_type, t.price_adjustment, t.teaser_points,
+              t.parlay_boost_percentage, pp.min_legs as boost_min_legs
+       FROM tickets t
+       LEFT JOIN parlay_promotions pp ON t.parlay_boost_promotion_id = pp.id
+       WHERE t.id = $1
+       FOR UPDATE OF t`,
+      [ticketId]
+    );
+
+    const ticket = ticketResult.rows[0];
+
+    if (!ticket || ticket.status !== 'pending' || ticket.ticket_type === 'if_bet') {
+      return;
+    }
+
+    // Una selección ganadora con dead heat cuenta con su cuota reducida
+    const itemsResult = await client.query(
+      `SELECT event_id, odds_id, bet_type, selection,
+              odds_value * COALESCE(dead_heat_factor, 1) as odds_value
+       FROM ticket_items
+       WHERE ticket_id = $1 AND status NOT IN ('push', 'void')`,
+      [ticketId]
+    );
+
+    // Si todas las selecciones se anularon, el ticket se reembolsa al resolverlo
+    if (itemsResult.rows.length === 0) {
+      return;
+    }
+
+    let totalOdds = itemsResult.rows.reduce(
+      (product, row) => product * parseFloat(row.odds_value),
+      1
+    );
+
+    if (ticket.ticket_type === 'bet_builder' && itemsResult.rows.length > 1 && ticket.price_adjustment !== null) {
+      // El ajuste guardado incluye los pares de la selección retirada: se recalcula con las que quedan
+      const remaining: PricedSelection[] = itemsResult.rows.map(row => ({
+        event_id: row.event_id,
+        odds_id: row.odds_id,
+        bet_type: row.bet_type,
+        selection: row.selection,
+        odds_value: parseFloat(row.odds_value)
+      }));
+      const factor = await correlationService.correlationFactor(client, remaining[0].event_id, remaining);
+      const priceAdjustment = Math.round(factor * 1000) / 1000;
+
+      totalOdds = Math.max(totalOdds * priceAdjustment, MIN_BET_BUILDER_ODDS);
+
+      await client.query(
+        'UPDATE tickets SET price_adjustment = $1 WHERE id = $2',
+        [priceAdjustment, ticketId]
+      );
+    }
+
+    if (ticket.ticket_type === 'teaser') {
+      totalOdds = await teaserService.repriceOdds(
+        client, ticketId, parseFloat(ticket.teaser_points), itemsResult.rows.length
+      );
+    }
+
+    const boostApplies = ticket.parlay_boost_percentage !== null &&
+      itemsResult.rows.length >= (ticket.boost_min_legs ?? 2);
+    const potentialPayout = parlayPromotionService.boostedPayout(
+      parseFloat(ticket.stake_amount),
+      totalOdds,
+      boostApplies ? parseFloat(ticket.parlay_boost_percentage) : null
+    );
+
+    await client.query(
+      `UPDATE tickets
+       SET total_odds = $1, potential_payout = $2, updated_at = NOW()
+       WHERE id = $3`,
+      [totalOdds, potentialPayout, ticketId]
+    );
+  }
+
+  private async resolveTickets(client: PoolClient, ticketIds: Set<number>): Promise<SettledTicket[]> {
+    const settledTickets: SettledTicket[] = [];
+
+    for (const ticketId of ticketIds) {
+      const settled = await this.resolveTicket(client, ticketId);
+      if (settled) {
+        settledTickets.push(settled);
+      }
+    }
+
+    if (settledTickets.length === 0) {
+      return settledTickets;
+    }
+
+    // Las líneas de una apuesta de sistema (y los if-bets de un reverse) resuelven su ticket
+    // padre al terminar todas
+    const parentsResult = await client.query(
+      `SELECT DISTINCT parent_ticket_id FROM tickets
+       WHERE id = ANY($1::int[]) AND parent_ticket_id IS NOT NULL`,
+      [settledTickets.map(t => t.ticket_id)]
+    );
+
+    for (const row of parentsResult.rows) {
+      const settled = await this.resolveSystemTicket(client, row.parent_ticket_id);
+      if (settled) {
+        settledTickets.push(settled);
+      }
+    }
+
+    return settledTickets;
+  }
+
+  // Resolver un ticket de sistema o reverse cuando todas sus líneas están liquidadas.
+  // El pago ya se acreditó línea a línea; aquí solo se registra el total devuelto.
+  private async resolveSystemTicket(client: PoolClient, ticketId: number): Promise<SettledTicket | null> {
+    const ticketResult = await client.query(
+      'SELECT id, status FROM tickets WHERE id = $1 FOR UPDATE',
+      [ticketId]
+    );
+
+    const ticket = ticketResult.rows[0];
+
+    if (!ticket || ticket.status !== 'pending') {
+      return null;
+    }
+
+    const linesResult = await client.query(
+      'SELECT status, payout_amount FROM tickets WHERE parent_ticket_id = $1',
+      [ticketId]
+    );
+
+    const lines = linesResult.rows;
+
+    if (lines.length === 0 || lines.some(line => line.status === 'pending')) {
+      return null;
+    }
+
+    const payout = lines.reduce((sum, line) => sum + parseFloat(line.payout_amount || 0), 0);
+    let status: 'won' | 'lost' | 'void';
+
+    if (lines.every(line => line.status === 'void')) {
+      status = 'void';
+    } else {
+      status = payout > 0 ? 'won' : 'lost';
+    }
+
+    await client.query(
+      'UPDATE tickets SET status = $1, payout_amount = $2, updated_at = NOW() WHERE id = $3',
+      [status, payout, ticketId]
+    );
+
+    return { ticket_id: ticketId, status, payout };
+  }
+
+  // Resolver el estado de un ticket según sus selecciones y acreditar el pago si corresponde
+  private async resolveTicket(client: PoolClient, ticketId: number): Promise<SettledTicket | null> {
+    const ticketResult = await client.query(
+      'SELECT * FROM tickets WHERE id = $1 FOR UPDATE',
+      [ticketId]
+    );
+
+    const ticket = ticketResult.rows[0];
+
+    if (!ticket || ticket.status !== 'pending') {
+      return null;
+    }
+
+    const itemsResult = await client.query(
+      'SELECT status FROM ticket_items WHERE ticket_id = $1',
+      [ticketId]
+    );
+
+    const statuses: string[] = itemsResult.rows.map(row => row.status);
+    // Las selecciones empatadas o anuladas no cuentan para el resultado
+    const activeStatuses = statuses.filter(s => !['push', 'void'].includes(s));
+    let status: 'won' | 'lost' | 'void';
+    let payout = 0;
+
+    if (ticket.ticket_type === 'if_bet') {
+      // El if-bet recorre su cadena en orden y apuesta cada selección al resolverse la anterior
+      const chain = await ifBetService.resolveChain(client, ticket);
+
+      if (!chain) {
+        return null;
+      }
+
+      status = chain.status;
+      payout = chain.payout;
+    } else {
+      const lostCount = activeStatuses.filter(s => s === 'lost').length;
+
+      if (lostCount === 1 && ticket.insurance_promotion_id && statuses.includes('pending')) {
+        // Con seguro de combinada se espera al resto de selecciones para saber si solo falló una
+        return null;
+      } else if (lostCount > 0) {
+        status = 'lost';
+      } else if (statuses.length > 0 && activeStatuses.length === 0) {
+        status = 'void';
+      } else if (activeStatuses.length > 0 && activeStatuses.every(s => s === 'won')) {
+        status = 'won';
+      } else {
+        // Aún quedan selecciones por resolver
+        return null;
+      }
+
+      if (status === 'won') {
+        payout = freeBetService.winningPayout(ticket);
+      } else if (status === 'void' && ticket.free_bet_id) {
+        // Apuesta gratuita anulada: se devuelve el token, no saldo
+        await freeBetModel.restore(client, ticket.free_bet_id);
+      } else if (status === 'void') {
+        // Todas las selecciones anuladas: se devuelve el importe apostado
+        payout = parseFloat(ticket.stake_amount);
+      }
+    }
+
+    await client.query(
+      'UPDATE tickets SET status = $1, payout_amount = $2, updated_at = NOW() WHERE id = $3',
+      [status, payout, ticketId]
+    );
+
+    if (payout > 0) {
+      await client.query(
+        'UPDATE users SET balance = balance + $1 WHERE id = $2',
+        [payout, ticket.user_id]
+      );
+    }
+
+    if (status === 'lost') {
+      await parlayPromotionService.settleInsurance(client, ticket, statuses);
+    }
+
+    await bonusService.recordWager(client, { ...ticket, status });
+    await referralService.recordBet(client, { ...ticket, status });
+    await loyaltyService.recordSettledTicket(client, { ...ticket, status });
+
+    return { ticket_id: ticketId, status, payout };
+  }
+}
+
+export default new SettlementService();
@@ -0,0 +1,112 @@
+import { PoolClient } from 'pg';
+import { AppError } from '../middlewares/errorHandler';
+import teaserPayoutModel from '../models/teaserPayout';
+import { PricedSelection } from './betService';
+
+export const TEASER_MARKETS = ['spread', 'totals'];
+
+export interface TeaserQuote {
+  sportId: number;
+  points: number;
+  legs: number;
+  totalOdds: number;
+  // Selecciones con la línea ya movida a favor del apostante
+  selections: PricedSelection[];
+}
+
+class TeaserService {
+  // Mover la línea de una selección a favor del apostante: el hándicap sube,
+  // el total baja para el "over" y sube para el "under"
+  shiftSelection(selection: PricedSelection, points: number): PricedSelection {
+    // Las líneas llegan de columnas numeric (texto en pg)
+    if (selection.bet_type === 'spread' && selection.handicap !== null && selection.handicap !== undefined) {
+      return { ...selection, handicap: Number(selection.handicap) + points };
+    }
+
+    if (selection.bet_type === 'totals' && selection.total !== null && selection.total !== undefined) {
+      const total = Number(selection.total);
+
+      return {
+        ...selection,
+        total: selection.selection === 'over' ? total - points : total + points
+      };
+    }
+
+    throw new AppError(`La selección ${selection.odds_id} no admite teaser`, 400);
+  }
+
+  // Cotizar un teaser: selecciones de hándicap o totales de un mismo deporte, sin eventos en vivo,
+  // pagadas con la tabla del deporte para los puntos elegidos en lugar de sus cuotas
+  async quote(
+    client: PoolClient,
+    selections: (PricedSelection & { in_play?: boolean })[],
+    points: number
+  ): Promise<TeaserQuote> {
+    if (selections.length < 2) {
+      throw new AppError('El teaser requiere al menos dos selecciones', 400);
+    }
+
+    const invalid = selections.filter(s => !TEASER_MARKETS.includes(s.bet_type));
+
+    if (invalid.length > 0) {
+      throw new AppError(
+        `El teaser solo admite mercados de hándicap y totales (selecciones ${invalid.map(s => s.odds_id).join(', ')})`,
+        400
+      );
+    }
+
+    if (selections.some(s => s.in_play)) {
+      throw new AppError('El teaser no admite eventos en vivo', 400);
+    }
+
+    const sportResult = await client.query(
+      `SELECT DISTINCT c.sport_id
+       FROM events e
+       JOIN competitions c ON e.competition_id = c.id
+       WHERE e.id = ANY($1::int[])`,
+      [selections.map(s => s.event_id)]
+    );
+
+    if (sportResult.rows.length !== 1) {
+      throw new AppError('Todas las selecciones del teaser deben ser del mismo deporte', 400);
+    }
+
+    const sportId = sportResult.rows[0].sport_id;
+    const payout = await teaserPayoutModel.findActive(client, sportId, points, selections.length);
+
+    if (!payout) {
+      throw new AppError(`No hay teaser de ${points} puntos con ${selections.length} selecciones para este deporte`, 400);
+    }
+
+    return {
+      sportId,
+      points,
+      legs: selections.length,
+      totalOdds: parseFloat(payout.odds),
+      selections: selections.map(s => this.shiftSelection(s, points))
+    };
+  }
+
+  // Cuota de un teaser tras empates o anulaciones: la de la tabla con las selecciones restantes.
+  // Si no hay fila para ese número (p. ej. queda una), el ticket queda sin acción (cuota 1).
+  async repriceOdds(client: PoolClient, ticketId: number, points: number, remainingLegs: number): Promise<number> {
+    const sportResult = await client.query(
+      `SELECT c.sport_id
+       FROM ticket_items ti
+       JOIN events e ON ti.event_id = e.id
+       JOIN competitions c ON e.competition_id = c.id
+       WHERE ti.ticket_id = $1
+       LIMIT 1`,
+      [ticketId]
+    );
+
+    if (sportResult.rows.length === 0 || remainingLegs < 2) {
+      return 1;
+    }
+
+    const payout = await teaserPayoutModel.findActive(client, sportResult.rows[0].sport_id, points, remainingLegs);
+    return payout ? parseFloat(payout.odds) : 1;
+  }
+}
+
+export default new TeaserService();
@@ -0,0 +1,4 @@
+// Redondear importes monetarios a dos decimales
+export const roundCurrency = (amount: number): number => {
+  return Math.round(amount * 100) / 100;
+};
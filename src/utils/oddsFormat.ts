@@ -0,0 +1,136 @@
+// Conversión de cuotas entre formatos. El valor canónico interno es la cuota decimal;
+// la API externa entrega cuotas americanas.
+
+export type OddsFormat = 'american' | 'decimal' | 'fractional' | 'hongkong';
+
+export const ODDS_FORMATS: OddsFormat[] = ['american', 'decimal', 'fractional', 'hongkong'];
+
+export const DEFAULT_ODDS_FORMAT: OddsFormat = 'american';
+
+export const isOddsFormat = (value: any): value is OddsFormat => {
+  return ODDS_FORMATS.includes(value);
+};
+
+// Redondear una cuota decimal para mostrarla
+export const roundOdds = (odds: number): number => {
+  return Math.round(odds * 100) / 100;
+};
+
+// Convertir una cuota americana a decimal
+export const americanToDecimal = (price: number): number => {
+  if (price > 0) {
+    return 1 + (price / 100);
+  }
+
+  return 1 + (100 / Math.abs(price));
+};
+
+// Convertir una cuota decimal a americana. Una cuota sin ganancia (1.00, p. ej. un ticket
+// con todas las selecciones anuladas) no tiene precio americano y se devuelve como 0.
+export const decimalToAmerican = (decimal: number): number => {
+  if (decimal <= 1) {
+    return 0;
+  }
+
+  if (decimal >= 2) {
+    return Math.round((decimal - 1) * 100);
+  }
+
+  return Math.round(-100 / (decimal - 1));
+};
+
+// Convertir una cuota fraccionaria ("5/2") a decimal
+export const fractionalToDecimal = (fraction: string): number => {
+  const match = /^\s*(\d+)\s*\/\s*(\d+)\s*$/.exec(fraction);
+
+  if (!match || parseInt(match[2], 10) === 0) {
+    return NaN;
+  }
+
+  return 1 + parseInt(match[1], 10) / parseInt(match[2], 10);
+};
+
+// Convertir una cuota decimal a fraccionaria con la fracción más cercana (denominador máximo 100)
+export const decimalToFractional = (decimal: number): string => {
+  const target = decimal - 1;
+  let bestNumerator = Math.round(target);
+  let bestDenominator = 1;
+  let bestError = Math.abs(target - bestNumerator);
+
+  for (let denominator = 2; denominator <= 100 && bestError > 1e-6; denominator++) {
+    const numerator = Math.round(target * denominator);
+    const error = Math.abs(target - numerator / denominator);
+
+    if (error < bestError - 1e-9) {
+      bestNumerator = numerator;
+      bestDenominator = denominator;
+      bestError = error;
+    }
+  }
+
+  return `${bestNumerator}/${bestDenominator}`;
+};
+
+// Convertir una cuota en cualquier formato a decimal. Devuelve NaN si no es válida.
+export const toDecimal = (value: number | string, format: OddsFormat): number => {
+  if (format === 'fractional') {
+    return fractionalToDecimal(String(value));
+  }
+
+  const numeric = typeof value === 'number' ? value : parseFloat(value);
+
+  if (isNaN(numeric)) {
+    return NaN;
+  }
+
+  switch (format) {
+    case 'american':
+      return Math.abs(numeric) >= 100 ? americanToDecimal(numeric) : NaN;
+    case 'hongkong':
+      return numeric > 0 ? numeric + 1 : NaN;
+    default:
+      return numeric > 1 ? numeric : NaN;
+  }
+};
+
+// Expresar una cuota decimal en el formato solicitado
+export const fromDecimal = (decimal: number, format: OddsFormat): number | string => {
+  switch (format) {
+    case 'american':
+      return decimalToAmerican(decimal);
+    case 'fractional':
+      return decimalToFractional(decimal);
+    case 'hongkong':
+      return roundOdds(decimal - 1);
+    default:
+      return roundOdds(decimal);
+  }
+};
+
+// Añadir a una cuota almacenada en formato americano su valor decimal y su precio en el formato pedido
+export const formatOdds = <T extends { price: number | string }>(odds: T, format: OddsFormat) => {
+  const decimal = americanToDecimal(parseFloat(odds.price as string));
+
+  return {
+    ...odds,
+    price: fromDecimal(decimal, format),
+    decimal_price: roundOdds(decimal),
+    odds_format: format
+  };
+};
+
+// Añadir a una selección de ticket (cuota decimal en odds_value) su precio en el formato pedido
+export const formatSelectionOdds = <T extends { odds_value: number | string | null }>(selection: T, format: OddsFormat) => {
+  // Tickets sin selecciones propias (apuestas de sistema) devuelven filas vacías del LEFT JOIN
+  if (selection.odds_value === null || selection.odds_value === undefined) {
+    return selection;
+  }
+
+  const decimal = parseFloat(selection.odds_value as string);
+
+  return {
+    ...selection,
+    price: fromDecimal(decimal, format),
+    odds_format: format
+  };
+};